@@ -1,592 +1,6373 @@
 
-import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
-import { SalesData, SortConfig, SortKey } from './types';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import React, { createContext, useState, useMemo, useCallback, useRef, useEffect, useContext } from 'react';
+import { AppSettings, AuditAction, AuditEntry, BusinessProfile, ColumnMapping, ColumnMappingPreset, CostingMethod, Customer, DateFormat, Expense, ImportBatch, Invoice, InvoiceType, Language, PaymentStatus, Product, ReturnCondition, SalePayment, SalesData, SortConfig, SortKey, StockLevels, TransactionType, WorkspaceBackup, WorkspaceChange } from './types';
+import { BarChart, Bar, ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import * as XLSX from 'xlsx';
+import { EN_TRANSLATIONS } from './translations';
 
 // --- Helper Functions ---
 
-const LOCAL_STORAGE_KEY_DATA = 'erpSalesData';
-const LOCAL_STORAGE_KEY_STOCK = 'erpInitialStock';
-const LOW_STOCK_THRESHOLD = 10;
+const STORAGE_KEY_DATA = 'erpSalesData';
+const STORAGE_KEY_STOCK = 'erpInitialStock';
+const STORAGE_KEY_PRODUCTS = 'erpProductCatalog';
+const STORAGE_KEY_MAPPING_PRESETS = 'erpColumnMappingPresets';
+const STORAGE_KEY_BATCHES = 'erpImportBatches';
+const STORAGE_KEY_SETTINGS = 'erpSettings';
+const STORAGE_KEY_AUDIT_LOG = 'erpAuditLog';
+const STORAGE_KEY_LAST_BACKUP = 'erpLastBackup';
+const STORAGE_KEY_CUSTOMERS = 'erpCustomers';
+const STORAGE_KEY_INVOICES = 'erpInvoices';
+const STORAGE_KEY_EXPENSES = 'erpExpenses';
+const DEFAULT_CATEGORY = 'Tanpa Kategori';
+const DEFAULT_UNIT = 'pcs';
+const DEFAULT_LOCATION = 'Gudang Utama';
+// Used for products without their own reorder point.
+const DEFAULT_REORDER_POINT = 10;
+const DEFAULT_CREDIT_TERM_DAYS = 30;
+
+const DEFAULT_SETTINGS: AppSettings = {
+    metode_biaya: 'fifo',
+    daftar_lokasi: [DEFAULT_LOCATION],
+    nama_pengguna: 'Admin',
+    pengingat_backup_hari: 7,
+    profil_usaha: { nama: '', alamat: '', npwp: '', logo: null },
+    bahasa: 'id',
+    locale: 'id-ID',
+    mata_uang: 'IDR',
+    format_tanggal: 'YYYY-MM-DD',
+    tarif_pajak: [{ nama: 'PPN 11%', tarif: 11 }, { nama: 'PPN 12%', tarif: 12 }],
+    pajak_bawaan: '',
+    harga_termasuk_pajak: false,
+};
+
+const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+    harga_transaksi: 'Harga beli per transaksi',
+    fifo: 'FIFO (masuk pertama, keluar pertama)',
+    rata_rata: 'Rata-rata tertimbang bergerak',
+};
+
+const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+    penjualan: 'Penjualan',
+    pembelian: 'Pembelian',
+    penyesuaian: 'Penyesuaian',
+    transfer: 'Transfer',
+    retur: 'Retur Penjualan',
+};
+
+const RETURN_CONDITION_LABELS: Record<ReturnCondition, string> = {
+    layak_jual: 'Layak jual (kembali ke stok)',
+    rusak: 'Rusak (dihapusbukukan)',
+};
+
+// Own keys only: `in` would also accept inherited names such as 'constructor'.
+const isTransactionType = (value: unknown): value is TransactionType =>
+    typeof value === 'string' && Object.hasOwn(TRANSACTION_TYPE_LABELS, value);
 
 /**
- * Automatically calculates the minimum required initial stock for new products based on their transaction history.
- * This prevents validation errors for CSVs where initial stock wasn't manually set.
- * @param transactions - The list of new transactions from the CSV.
- * @param existingInitialStocks - The current map of manually set initial stocks.
- * @returns A map of inferred initial stocks for new products only.
+ * Resolves the transaction type of a row. Rows saved before `jenis_transaksi` existed
+ * used `jumlah_terjual === 0` to mark an absolute stock adjustment.
  */
-const inferInitialStocks = (transactions: SalesData[], existingInitialStocks: Record<string, number>): Record<string, number> => {
-    const productTransactions: Record<string, SalesData[]> = {};
+const resolveTransactionType = (trans: Partial<SalesData>): TransactionType => {
+    if (isTransactionType(trans.jenis_transaksi)) {
+        return trans.jenis_transaksi;
+    }
+    return trans.jumlah_terjual === 0 ? 'penyesuaian' : 'penjualan';
+};
 
-    // 1. Group transactions by product name
-    for (const trans of transactions) {
-        const name = trans.nama_produk;
-        if (!productTransactions[name]) {
-            productTransactions[name] = [];
+/**
+ * Brings a stored or imported row up to the current `SalesData` shape.
+ */
+const normalizeTransaction = (trans: SalesData): SalesData => ({
+    ...trans,
+    tanggal: typeof trans.tanggal === 'string' ? trans.tanggal : '',
+    jenis_transaksi: resolveTransactionType(trans),
+    lokasi: trans.lokasi || DEFAULT_LOCATION,
+    jumlah_masuk: trans.jumlah_masuk || 0,
+});
+
+/**
+ * Reads stored initial stocks. Workspaces saved before locations existed kept a flat
+ * product -> quantity map, which is moved under the default location.
+ */
+const normalizeStockLevels = (stored: Record<string, unknown>): StockLevels => {
+    const values = Object.values(stored);
+    if (values.length > 0 && values.every(v => typeof v === 'number')) {
+        return { [DEFAULT_LOCATION]: stored as Record<string, number> };
+    }
+    return stored as StockLevels;
+};
+
+const mergeStockLevels = (base: StockLevels, extra: StockLevels): StockLevels => {
+    const merged: StockLevels = { ...base };
+    for (const [location, stocks] of Object.entries(extra)) {
+        merged[location] = { ...(merged[location] || {}), ...stocks };
+    }
+    return merged;
+};
+
+/**
+ * Adds up each product's stock over all locations.
+ */
+const consolidateStockLevels = (levels: StockLevels): Record<string, number> => {
+    const totals: Record<string, number> = {};
+    for (const stocks of Object.values(levels)) {
+        for (const [productName, stock] of Object.entries(stocks)) {
+            totals[productName] = (totals[productName] || 0) + stock;
         }
-        productTransactions[name].push(trans);
     }
+    return totals;
+};
+
+const hasStockLevels = (levels: StockLevels): boolean =>
+    Object.values(levels).some(stocks => Object.keys(stocks).length > 0);
+
+/**
+ * Produces the key used to compare product names, so "Kopi Susu" and "kopi  susu " match.
+ */
+const normalizeProductKey = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Looks up a catalog product by SKU code or by (normalized) display name.
+ */
+const findProduct = (catalog: Product[], nameOrSku: string): Product | undefined => {
+    const key = normalizeProductKey(nameOrSku);
+    if (!key) return undefined;
+    return catalog.find(p => normalizeProductKey(p.sku) === key)
+        || catalog.find(p => normalizeProductKey(p.nama) === key);
+};
 
-    const inferredStocks: Record<string, number> = {};
+const generateSku = (catalog: Product[]): string => {
+    const highest = catalog.reduce((max, p) => {
+        const match = /^PRD-(\d+)$/.exec(p.sku);
+        return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0);
+    return `PRD-${String(highest + 1).padStart(3, '0')}`;
+};
 
-    // 2. For each product, find the minimum stock required to fulfill all sales
-    for (const productName in productTransactions) {
-        // Only infer for new products not already in the initial stock settings
-        if (existingInitialStocks[productName] !== undefined) {
+/**
+ * Builds catalog entries for product names that are not in the catalog yet,
+ * taking default prices from the first transaction that mentions each product.
+ */
+const createProductsFromTransactions = (transactions: (Pick<SalesData, 'nama_produk'> & Partial<SalesData>)[], catalog: Product[]): Product[] => {
+    const created: Product[] = [];
+    for (const trans of transactions) {
+        const name = trans.nama_produk.trim().replace(/\s+/g, ' ');
+        if (!name || findProduct([...catalog, ...created], name)) {
             continue;
         }
+        created.push({
+            sku: generateSku([...catalog, ...created]),
+            nama: name,
+            kategori: DEFAULT_CATEGORY,
+            satuan: DEFAULT_UNIT,
+            harga_beli_default: trans.harga_beli || 0,
+            harga_jual_default: trans.harga_jual || 0,
+            aktif: true,
+        });
+    }
+    return created;
+};
 
-        const productTrans = productTransactions[productName].sort(
-            (a, b) => new Date(a.tanggal).getTime() - new Date(b.tanggal).getTime()
-        );
+/**
+ * Rewrites each transaction's `nama_produk` (which may hold a name or a SKU) to the catalog's display name.
+ * @returns The resolved transactions and the distinct names that could not be found in the catalog.
+ */
+const resolveProductNames = (transactions: SalesData[], catalog: Product[]): { data: SalesData[], unknownProducts: string[] } => {
+    const unknown = new Set<string>();
+    const data = transactions.map(trans => {
+        const product = findProduct(catalog, trans.nama_produk);
+        if (!product) {
+            unknown.add(trans.nama_produk.trim());
+            return trans;
+        }
+        return { ...trans, nama_produk: product.nama };
+    });
+    return { data, unknownProducts: [...unknown] };
+};
+
+const getProductCategory = (catalog: Product[], productName: string): string =>
+    findProduct(catalog, productName)?.kategori || DEFAULT_CATEGORY;
+
+interface StockRule {
+    minimum: number;
+    reorderPoint: number;
+    target: number;
+}
+
+/**
+ * The stock levels that govern a product's status and reordering. Products without their own settings
+ * reorder at `DEFAULT_REORDER_POINT` and are topped up to twice that.
+ */
+const getStockRule = (catalog: Product[], productName: string): StockRule => {
+    const product = findProduct(catalog, productName);
+    const reorderPoint = product?.titik_pesan_ulang ?? DEFAULT_REORDER_POINT;
+    return {
+        minimum: product?.stok_minimum ?? 0,
+        reorderPoint,
+        target: product?.stok_target ?? reorderPoint * 2,
+    };
+};
+
+interface ReorderSuggestion {
+    product: string;
+    sku: string;
+    unit: string;
+    stock: number;
+    rule: StockRule;
+    quantity: number;
+    unitCost: number;
+    urgent: boolean;
+}
+
+/**
+ * Products at or below their reorder point, with the quantity needed to reach their target stock.
+ * Urgent ones (below minimum stock) come first, then the largest shortfalls.
+ */
+const buildReorderSuggestions = (stockLevels: Record<string, number>, catalog: Product[]): ReorderSuggestion[] =>
+    Object.entries(stockLevels)
+        // Inactive products are no longer bought.
+        .filter(([productName]) => findProduct(catalog, productName)?.aktif !== false)
+        .map(([productName, stock]) => {
+            const product = findProduct(catalog, productName);
+            const rule = getStockRule(catalog, productName);
+            return {
+                product: productName,
+                sku: product?.sku ?? '',
+                unit: product?.satuan ?? DEFAULT_UNIT,
+                stock,
+                rule,
+                quantity: Math.max(0, rule.target - stock),
+                unitCost: product?.harga_beli_default ?? 0,
+                urgent: stock < rule.minimum || stock <= 0,
+            };
+        })
+        .filter(item => item.stock <= item.rule.reorderPoint && item.quantity > 0)
+        .sort((a, b) => Number(b.urgent) - Number(a.urgent) || b.quantity - a.quantity);
+
+const groupProductsByCategory = (products: Product[]): Record<string, Product[]> => {
+    const groups: Record<string, Product[]> = {};
+    for (const product of [...products].sort((a, b) => a.nama.localeCompare(b.nama))) {
+        const category = product.kategori || DEFAULT_CATEGORY;
+        if (!groups[category]) {
+            groups[category] = [];
+        }
+        groups[category].push(product);
+    }
+    return groups;
+};
+
+/**
+ * Identifies a transaction by its content rather than its id, so the same row imported twice can be recognised.
+ */
+const getTransactionFingerprint = (trans: SalesData): string => [
+    trans.tanggal,
+    normalizeProductKey(trans.nama_produk),
+    trans.jenis_transaksi,
+    trans.lokasi,
+    trans.lokasi_tujuan || '',
+    trans.jumlah_terjual,
+    trans.jumlah_masuk,
+    trans.harga_beli,
+    trans.harga_jual,
+    trans.referensi || '',
+].join('|');
+
+/**
+ * Automatically calculates the minimum required initial stock for new products based on their transaction history.
+ * This prevents validation errors for CSVs where initial stock wasn't manually set.
+ * Stock is tracked per location; a transfer draws from its source location and adds to its destination.
+ * @param transactions - The list of new transactions from the CSV.
+ * @param existingInitialStocks - The current map of manually set initial stocks.
+ * @returns A map of inferred initial stocks for new product/location pairs only.
+ */
+const inferInitialStocks = (transactions: SalesData[], existingInitialStocks: StockLevels): StockLevels => {
+    const sortedTransactions = [...transactions].sort(
+        (a, b) => new Date(a.tanggal).getTime() - new Date(b.tanggal).getTime()
+    );
 
-        let stockLevel = 0;
-        let minStockLevel = 0;
+    const stockLevels: StockLevels = {};
+    const minStockLevels: StockLevels = {};
+    // Once an adjustment sets the stock absolutely, the initial stock no longer matters for that location.
+    const settled = new Set<string>();
 
-        for (const trans of productTrans) {
-            // We only care about sales for this calculation, as they reduce stock.
-            stockLevel -= trans.jumlah_terjual;
-            if (stockLevel < minStockLevel) {
-                minStockLevel = stockLevel;
+    const move = (location: string, productName: string, delta: number) => {
+        if (settled.has(`${location}|${productName}`)) return;
+        const stocks = stockLevels[location] = stockLevels[location] || {};
+        const minimums = minStockLevels[location] = minStockLevels[location] || {};
+        stocks[productName] = (stocks[productName] || 0) + delta;
+        minimums[productName] = Math.min(minimums[productName] ?? 0, stocks[productName]);
+    };
+
+    for (const trans of sortedTransactions) {
+        const productName = trans.nama_produk;
+        if (trans.jenis_transaksi === 'penyesuaian') {
+            move(trans.lokasi, productName, 0);
+            settled.add(`${trans.lokasi}|${productName}`);
+        } else if (trans.jenis_transaksi === 'pembelian') {
+            move(trans.lokasi, productName, trans.jumlah_masuk);
+        } else if (trans.jenis_transaksi === 'transfer') {
+            move(trans.lokasi, productName, -trans.jumlah_masuk);
+            move(trans.lokasi_tujuan || DEFAULT_LOCATION, productName, trans.jumlah_masuk);
+        } else if (trans.jenis_transaksi === 'retur') {
+            if (trans.kondisi_retur !== 'rusak') move(trans.lokasi, productName, trans.jumlah_masuk);
+        } else {
+            move(trans.lokasi, productName, -trans.jumlah_terjual);
+        }
+    }
+
+    const inferredStocks: StockLevels = {};
+    for (const [location, minimums] of Object.entries(minStockLevels)) {
+        for (const [productName, minStockLevel] of Object.entries(minimums)) {
+            // Only infer for new products not already in the initial stock settings
+            if (existingInitialStocks[location]?.[productName] !== undefined) {
+                continue;
             }
+            // The absolute value of the lowest point is the minimum initial stock required.
+            inferredStocks[location] = inferredStocks[location] || {};
+            inferredStocks[location][productName] = Math.abs(minStockLevel);
         }
-        
-        // The absolute value of the lowest point is the minimum initial stock required.
-        inferredStocks[productName] = Math.abs(minStockLevel);
     }
 
     return inferredStocks;
 };
 
 
-const processAndValidateData = (data: SalesData[], initialStocks: Record<string, number>): { processedData: SalesData[], error: string | null } => {
+interface StockViolation {
+    id: string;
+    message: string;
+}
+
+interface CostingOptions {
+    method: CostingMethod;
+    /** Unit cost assumed for initial stock, usually the catalog's default purchase price. */
+    defaultCosts: Record<string, number>;
+}
+
+const getCostingOptions = (settings: AppSettings, catalog: Product[]): CostingOptions => ({
+    method: settings.metode_biaya,
+    defaultCosts: Object.fromEntries(catalog.map(p => [p.nama, p.harga_beli_default])),
+});
+
+/** A quantity of stock received at one unit cost; `cost` is null when it is not known. */
+interface CostLayer {
+    qty: number;
+    cost: number | null;
+}
+
+/**
+ * Adds received units to a product's cost layers. FIFO keeps one layer per receipt;
+ * weighted average merges everything into a single layer at the running average cost.
+ */
+const receiveCostLayer = (layers: CostLayer[], qty: number, cost: number | null, method: CostingMethod): CostLayer[] => {
+    if (qty <= 0) return layers;
+    if (method !== 'rata_rata') {
+        return [...layers, { qty, cost }];
+    }
+    const current = layers[0] || { qty: 0, cost: null };
+    const currentQty = Math.max(current.qty, 0);
+    const mergedCost = current.cost === null || currentQty === 0
+        ? cost
+        : cost === null ? current.cost : (currentQty * current.cost + qty * cost) / (currentQty + qty);
+    return [{ qty: currentQty + qty, cost: mergedCost }];
+};
+
+/**
+ * Takes units out of a product's cost layers, oldest first.
+ * Units without a known cost (or beyond the tracked layers) are costed at `fallbackCost`.
+ * @returns The remaining layers and the total cost of the consumed units.
+ */
+const consumeCostLayers = (layers: CostLayer[], qty: number, fallbackCost: number): { layers: CostLayer[], cost: number } => {
+    const remaining = layers.map(layer => ({ ...layer }));
+    let toConsume = qty;
+    let cost = 0;
+    while (toConsume > 0 && remaining.length > 0) {
+        const layer = remaining[0];
+        const taken = Math.min(layer.qty, toConsume);
+        cost += taken * (layer.cost ?? fallbackCost);
+        layer.qty -= taken;
+        toConsume -= taken;
+        if (layer.qty <= 0) {
+            remaining.shift();
+        }
+    }
+    cost += toConsume * fallbackCost;
+    return { layers: remaining, cost };
+};
+
+const getLayersUnitCost = (layers: CostLayer[]): number | null => {
+    const known = layers.filter(l => l.cost !== null && l.qty > 0);
+    const qty = known.reduce((acc, l) => acc + l.qty, 0);
+    return qty > 0 ? known.reduce((acc, l) => acc + l.qty * (l.cost as number), 0) / qty : null;
+};
+
+/**
+ * Recalculates `stok_sisa` for every transaction in chronological order and rejects sales that would take stock below zero.
+ * Alongside the stock it tracks cost layers from receipts, so each sale's `total_biaya` (COGS) and `laba` follow the
+ * selected costing method, and the value of the stock left at the end is returned as `inventoryValue`.
+ * By default it stops at the first violation; with `collectAllViolations` it keeps going (letting stock go negative)
+ * so that every offending row can be reported at once.
+ */
+const processAndValidateData = (
+    data: SalesData[],
+    initialStocks: StockLevels,
+    costing: CostingOptions,
+    { t, formatDate }: DisplayFormat,
+    collectAllViolations = false
+): { processedData: SalesData[], error: string | null, violations: StockViolation[], inventoryValue: number, finalStocks: StockLevels } => {
     // 1. Sort all transactions chronologically. This is the most crucial change.
     const sortedData = [...data].sort((a, b) => new Date(a.tanggal).getTime() - new Date(b.tanggal).getTime());
     
-    // 2. Initialize current stock levels from the initial stock settings.
-    const currentStocks = { ...initialStocks };
+    // 2. Initialize current stock levels per location from the initial stock settings.
+    const currentStocks: StockLevels = {};
+    for (const [location, stocks] of Object.entries(initialStocks)) {
+        currentStocks[location] = { ...stocks };
+    }
     const processedData: SalesData[] = [];
+    const violations: StockViolation[] = [];
+    // Sales processed so far and the units returned against them, for costing and limiting returns.
+    const processedSales = new Map<string, SalesData>();
+    const returnedQuantities: Record<string, number> = {};
+    // Cost layers are kept per product across all locations; transfers move goods without changing their cost.
+    const costLayers: Record<string, CostLayer[]> = {};
+    for (const [productName, stock] of Object.entries(consolidateStockLevels(initialStocks))) {
+        costLayers[productName] = receiveCostLayer([], stock, costing.defaultCosts[productName] ?? null, costing.method);
+    }
+
+    const getStocksAt = (location: string) => currentStocks[location] = currentStocks[location] || {};
 
     // 3. Iterate through each transaction in chronological order.
     for (const trans of sortedData) {
         const productName = trans.nama_produk;
-
-        // Ensure we have a starting stock value for every product encountered.
-        if (currentStocks[productName] === undefined) {
-            // This is a new product not in initial stock, so we assume it starts at 0 before this transaction.
-            currentStocks[productName] = 0;
-        }
-        
-        const stockBeforeTransaction = currentStocks[productName];
+        // A product not yet stocked at this location starts at 0 before this transaction.
+        const locationStocks = getStocksAt(trans.lokasi);
+        const stockBeforeTransaction = locationStocks[productName] || 0;
         let stockAfterTransaction = stockBeforeTransaction;
+        let layers = costLayers[productName] || [];
+        let costedTrans = trans;
+        let violation: string | null = null;
 
-        const isStockAdjustment = trans.jumlah_terjual === 0;
-
-        if (isStockAdjustment) {
+        if (trans.jenis_transaksi === 'penyesuaian') {
             // A stock adjustment directly sets the stock to a new value specified in its 'stok_sisa' field.
             stockAfterTransaction = trans.stok_sisa;
+            const delta = stockAfterTransaction - stockBeforeTransaction;
+            layers = delta >= 0
+                ? receiveCostLayer(layers, delta, getLayersUnitCost(layers) ?? costing.defaultCosts[productName] ?? null, costing.method)
+                : consumeCostLayers(layers, -delta, 0).layers;
+        } else if (trans.jenis_transaksi === 'pembelian') {
+            // A purchase (goods receipt) adds the received quantity to the stock at its own cost.
+            stockAfterTransaction = stockBeforeTransaction + trans.jumlah_masuk;
+            layers = receiveCostLayer(layers, trans.jumlah_masuk, trans.harga_beli, costing.method);
+        } else if (trans.jenis_transaksi === 'transfer') {
+            // A transfer moves stock from its location to the destination location.
+            const destination = trans.lokasi_tujuan || DEFAULT_LOCATION;
+            stockAfterTransaction = stockBeforeTransaction - trans.jumlah_masuk;
+            const destinationStocks = getStocksAt(destination);
+            destinationStocks[productName] = (destinationStocks[productName] || 0) + trans.jumlah_masuk;
+            if (stockAfterTransaction < 0) {
+                violation = t(
+                    'Stok tidak mencukupi untuk transfer "{produk}" dari {asal} ke {tujuan} pada tanggal {tanggal}. Stok saat itu: {stok}, jumlah transfer: {jumlah}. Stok tidak boleh negatif.',
+                    { produk: productName, asal: trans.lokasi, tujuan: destination, tanggal: formatDate(trans.tanggal), stok: stockBeforeTransaction, jumlah: trans.jumlah_masuk }
+                );
+            }
+        } else if (trans.jenis_transaksi === 'retur') {
+            // A return reverses part of its sale at the sale's own unit cost. Sellable units go back into
+            // stock; damaged units are written off, so their cost stays in the profit and loss.
+            const sale = processedSales.get(trans.retur_dari);
+            const returned = returnedQuantities[trans.retur_dari] = (returnedQuantities[trans.retur_dari] || 0) + trans.jumlah_masuk;
+            const unitCost = sale ? sale.total_biaya / sale.jumlah_terjual : trans.harga_beli;
+            if (trans.kondisi_retur !== 'rusak') {
+                stockAfterTransaction = stockBeforeTransaction + trans.jumlah_masuk;
+                layers = receiveCostLayer(layers, trans.jumlah_masuk, unitCost, costing.method);
+            }
+            const total_biaya = trans.kondisi_retur === 'rusak' ? 0 : -roundMoney(unitCost * trans.jumlah_masuk);
+            costedTrans = { ...trans, harga_beli: unitCost, total_biaya, laba: trans.total_penjualan - total_biaya };
+            if (!sale) {
+                violation = t('Retur "{produk}" pada tanggal {tanggal} tidak memiliki penjualan asal pada atau sebelum tanggal tersebut.', { produk: productName, tanggal: formatDate(trans.tanggal) });
+            } else if (returned > sale.jumlah_terjual) {
+                violation = t('Retur "{produk}" pada tanggal {tanggal} melebihi jumlah yang terjual. Terjual: {terjual}, total retur: {jumlah}.', { produk: productName, tanggal: formatDate(trans.tanggal), terjual: sale.jumlah_terjual, jumlah: returned });
+            }
         } else {
             // A sale reduces the stock.
             stockAfterTransaction = stockBeforeTransaction - trans.jumlah_terjual;
-            
-            // 4. Validate if the sale is possible.
+            const consumed = consumeCostLayers(layers, trans.jumlah_terjual, trans.harga_beli);
+            layers = consumed.layers;
+            // Costed from scratch either way: the stored cost may be left over from another costing method.
+            const total_biaya = costing.method === 'harga_transaksi' ? trans.jumlah_terjual * trans.harga_beli : consumed.cost;
+            costedTrans = { ...trans, total_biaya, laba: trans.total_penjualan - total_biaya };
             if (stockAfterTransaction < 0) {
-                return { 
-                    processedData: [], 
-                    error: `Stok tidak mencukupi untuk "${productName}" pada tanggal ${trans.tanggal}. Stok saat itu: ${stockBeforeTransaction}, jumlah terjual: ${trans.jumlah_terjual}. Stok tidak boleh negatif.`
-                };
+                violation = t(
+                    'Stok tidak mencukupi untuk "{produk}" di {lokasi} pada tanggal {tanggal}. Stok saat itu: {stok}, jumlah terjual: {jumlah}. Stok tidak boleh negatif.',
+                    { produk: productName, lokasi: trans.lokasi, tanggal: formatDate(trans.tanggal), stok: stockBeforeTransaction, jumlah: trans.jumlah_terjual }
+                );
+            }
+        }
+
+        // 4. Validate that stock at the location never goes negative.
+        if (violation) {
+            violations.push({ id: trans.id, message: violation });
+            if (!collectAllViolations) {
+                return { processedData: [], error: violation, violations, inventoryValue: 0, finalStocks: {} };
             }
         }
         
         // 5. Update the master stock record for the next transaction.
-        currentStocks[productName] = stockAfterTransaction;
+        locationStocks[productName] = stockAfterTransaction;
+        costLayers[productName] = layers;
+        if (costedTrans.jenis_transaksi === 'penjualan') processedSales.set(costedTrans.id, costedTrans);
 
-        // 6. Create a new transaction object with the correctly calculated `stok_sisa`.
+        // 6. Create a new transaction object with the correctly calculated `stok_sisa` at its location.
         processedData.push({
-            ...trans,
+            ...costedTrans,
             stok_sisa: stockAfterTransaction,
         });
     }
 
-    return { processedData, error: null };
-};
+    const inventoryValue = Object.entries(costLayers).reduce(
+        (total, [productName, layers]) => total + layers.reduce((acc, l) => acc + l.qty * (l.cost ?? costing.defaultCosts[productName] ?? 0), 0),
+        0
+    );
 
+    return { processedData, error: violations[0]?.message ?? null, violations, inventoryValue, finalStocks: currentStocks };
+};
 
-const parseCSV = (text: string): { data: SalesData[], error: string | null } => {
-    try {
-        const lines = text.trim().split('\n').filter(line => line.trim() !== '');
-        if (lines.length < 2) {
-          return { data: [], error: "File CSV kosong atau hanya berisi header." };
-        }
-        
-        const header = lines[0].split(',').map(h => h.trim());
-        const requiredHeaders: (keyof Omit<SalesData, 'id'>)[] = ['tanggal', 'nama_produk', 'jumlah_terjual', 'harga_beli', 'harga_jual', 'total_penjualan', 'total_biaya', 'laba', 'stok_sisa'];
-        
-        const missingHeaders = requiredHeaders.filter(rh => !header.includes(rh));
-        if (missingHeaders.length > 0) {
-            return { data: [], error: `Header CSV tidak valid. Kolom yang hilang: ${missingHeaders.join(', ')}` };
-        }
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
 
-        const data = lines.slice(1).map((line, index) => {
-            const values = line.split(',').map(v => v.trim());
-            const entry: any = {
-                id: `id_csv_${Date.now()}_${Math.random()}_${index}`
-            };
-            header.forEach((h, i) => {
-                const key = h as SortKey;
-                const value = values[i];
-                if (['jumlah_terjual', 'harga_beli', 'harga_jual', 'total_penjualan', 'total_biaya', 'laba', 'stok_sisa'].includes(key)) {
-                    const numValue = parseFloat(value);
-                    if (isNaN(numValue)) {
-                        throw new Error(`Nilai tidak valid pada baris ${index + 2}, kolom '${key}'. Harap periksa file CSV Anda.`);
-                    }
-                    entry[key] = numValue;
-                } else {
-                    entry[key] = value;
-                }
-            });
-            // For CSV, we ignore the stok_sisa column as it will be recalculated.
-            return entry as SalesData;
-        });
-        return { data, error: null };
-    } catch (e: any) {
-        return { data: [], error: e.message || "Gagal memproses file CSV. Pastikan formatnya benar." };
+/**
+ * Splits a sale into its tax base (`total_penjualan`, after discounts) and tax. With tax-inclusive
+ * prices the tax is taken out of the discounted amount; otherwise it is added on top.
+ */
+const computeSaleAmounts = (trans: SalesData): { total_penjualan: number, pajak: number } => {
+    const netAmount = Math.max(0, trans.jumlah_terjual * trans.harga_jual - (trans.diskon ?? 0) - (trans.diskon_transaksi ?? 0));
+    const rate = (trans.tarif_pajak ?? 0) / 100;
+    if (trans.harga_termasuk_pajak) {
+        const total_penjualan = roundMoney(netAmount / (1 + rate));
+        return { total_penjualan, pajak: roundMoney(netAmount - total_penjualan) };
     }
+    return { total_penjualan: netAmount, pajak: roundMoney(netAmount * rate) };
 };
 
-const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(value);
-};
+/**
+ * What the customer is billed for a sale: the tax base plus tax.
+ */
+const getSaleTotal = (trans: SalesData): number => trans.total_penjualan + (trans.pajak ?? 0);
+
+type DiscountType = 'persen' | 'nominal';
 
-const formatNumber = (value: number) => {
-    return new Intl.NumberFormat('id-ID').format(value);
+const resolveDiscount = (amount: number, value: number, type: DiscountType): number =>
+    type === 'persen' ? roundMoney(amount * value / 100) : value;
+
+/**
+ * Recomputes a transaction's totals and profit from its quantities and unit prices, e.g. after an edit.
+ */
+const recomputeTotals = (trans: SalesData): SalesData => {
+    // A return's amounts are a share of its sale's, fixed when it was recorded.
+    if (trans.jenis_transaksi === 'retur') return trans;
+    const isSale = trans.jenis_transaksi === 'penjualan';
+    const isPurchase = trans.jenis_transaksi === 'pembelian';
+    const { total_penjualan, pajak } = isSale ? computeSaleAmounts(trans) : { total_penjualan: 0, pajak: 0 };
+    const total_biaya = isSale ? trans.jumlah_terjual * trans.harga_beli : isPurchase ? trans.jumlah_masuk * trans.harga_beli : 0;
+    return { ...trans, total_penjualan, ...(isSale ? { pajak } : {}), total_biaya, laba: isSale ? total_penjualan - total_biaya : 0 };
 };
 
-const exportToCSV = (data: SalesData[], filename: string) => {
-    if (data.length === 0) return;
-    const header = Object.keys(data[0]).filter(k => k !== 'id').join(',');
-    const rows = data.map(row => {
-        const { id, ...rest } = row;
-        return Object.values(rest).join(',');
+/**
+ * Spreads a discount on a whole transaction over its sale lines in proportion to each line's amount
+ * after its own discount. Rounding leftovers go to the last line so the shares add up exactly.
+ */
+const allocateTransactionDiscount = (sales: SalesData[], discount: number): SalesData[] => {
+    const amounts = sales.map(item => Math.max(0, item.jumlah_terjual * item.harga_jual - (item.diskon ?? 0)));
+    const total = amounts.reduce((acc, amount) => acc + amount, 0);
+    let remaining = discount;
+    return sales.map((item, index) => {
+        const share = index === sales.length - 1 ? roundMoney(remaining) : total > 0 ? roundMoney(discount * amounts[index] / total) : 0;
+        remaining -= share;
+        return recomputeTotals({ ...item, diskon_transaksi: share });
     });
-    const csvContent = [header, ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    if (link.href) {
-        URL.revokeObjectURL(link.href);
-    }
-    link.href = URL.createObjectURL(blob);
-    link.setAttribute('download', filename);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
 };
 
+/**
+ * Units of each sale already returned, keyed by the sale's id.
+ */
+const getReturnedQuantities = (data: SalesData[]): Record<string, number> => {
+    const returned: Record<string, number> = {};
+    for (const item of data) {
+        if (item.jenis_transaksi === 'retur' && item.retur_dari) {
+            returned[item.retur_dari] = (returned[item.retur_dari] || 0) + item.jumlah_masuk;
+        }
+    }
+    return returned;
+};
 
-// --- SVG Icons ---
+/**
+ * Builds a return of `jumlah` units of a sale. Its amounts are the sale's discounts, tax base and tax
+ * scaled to the units returned and negated, so totals over sales and returns give the net figures.
+ * The cost is settled by `processAndValidateData`, which also enforces the quantity sold.
+ */
+const createSalesReturn = (sale: SalesData, jumlah: number, kondisi: ReturnCondition, tanggal: string, alreadyReturned: number, { t, formatNumber }: DisplayFormat): { entry: SalesData | null, error: string | null } => {
+    const returnable = sale.jumlah_terjual - alreadyReturned;
+    if (isNaN(jumlah) || jumlah <= 0 || jumlah > returnable) {
+        return { entry: null, error: t('Jumlah retur harus lebih dari 0 dan paling banyak {jumlah}.', { jumlah: formatNumber(returnable) }) };
+    }
+    if (!tanggal || tanggal < sale.tanggal.slice(0, 10)) {
+        return { entry: null, error: t('Tanggal retur tidak boleh sebelum tanggal penjualan.') };
+    }
+    const share = jumlah / sale.jumlah_terjual;
+    const diskon = roundMoney(((sale.diskon ?? 0) + (sale.diskon_transaksi ?? 0)) * share);
+    const total_penjualan = -roundMoney(sale.total_penjualan * share);
+    const total_biaya = kondisi === 'rusak' ? 0 : -roundMoney(sale.total_biaya * share);
+    return {
+        entry: {
+            id: `id_retur_${Date.now()}_${Math.random()}`,
+            tanggal,
+            jenis_transaksi: 'retur',
+            nama_produk: sale.nama_produk,
+            lokasi: sale.lokasi,
+            retur_dari: sale.id,
+            kondisi_retur: kondisi,
+            ...(sale.pelanggan ? { pelanggan: sale.pelanggan } : {}),
+            jumlah_terjual: 0,
+            jumlah_masuk: jumlah,
+            harga_beli: sale.total_biaya / sale.jumlah_terjual,
+            harga_jual: sale.harga_jual,
+            ...(diskon > 0 ? { diskon } : {}),
+            ...(sale.tarif_pajak ? { tarif_pajak: sale.tarif_pajak, harga_termasuk_pajak: sale.harga_termasuk_pajak } : {}),
+            total_penjualan,
+            pajak: -roundMoney((sale.pajak ?? 0) * share),
+            total_biaya,
+            laba: total_penjualan - total_biaya,
+            stok_sisa: 0,
+        },
+        error: null,
+    };
+};
 
-const MoneyIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 6V5m0 14v-1m-7-7h14" />
-    </svg>
-);
+interface StockChange {
+    id: string;
+    tanggal: string;
+    nama_produk: string;
+    lokasi: string;
+    before: number;
+    after: number;
+}
 
-const ChartBarIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-    </svg>
-);
+/**
+ * Applies edited rows to the data and replays the timeline, reporting every other row whose
+ * `stok_sisa` would change and any point where stock would go negative.
+ */
+const previewTransactionEdits = (
+    data: SalesData[],
+    edits: Record<string, SalesData>,
+    initialStocks: StockLevels,
+    costing: CostingOptions,
+    display: DisplayFormat
+): { processedData: SalesData[], violations: StockViolation[], stockChanges: StockChange[] } => {
+    const editedData = data.map(item => edits[item.id] ? recomputeTotals(edits[item.id]) : item);
+    const { processedData, violations } = processAndValidateData(editedData, initialStocks, costing, display, true);
+    const previousStock = new Map(data.map(item => [item.id, item.stok_sisa]));
+    const stockChanges = processedData
+        .filter(item => !edits[item.id] && previousStock.get(item.id) !== item.stok_sisa)
+        .map(item => ({
+            id: item.id,
+            tanggal: item.tanggal,
+            nama_produk: item.nama_produk,
+            lokasi: item.lokasi,
+            before: previousStock.get(item.id) ?? 0,
+            after: item.stok_sisa,
+        }));
+    return { processedData, violations, stockChanges };
+};
 
-const StarIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.364 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.196-1.538-1.118l1.518-4.674a1 1 0 00-.364-1.118L2.98 9.11c-.783-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
-    </svg>
-);
+// Oldest entries are dropped beyond this so the stored log does not grow without bound.
+const AUDIT_LOG_LIMIT = 200;
 
-const ArchiveIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-1.414 1.414a1 1 0 01-1.414 0l-1.414-1.414a1 1 0 00-.707-.293H8m12 0a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7a2 2 0 002 2h2.586a1 1 0 00.707-.293l1.414-1.414a1 1 0 011.414 0l1.414 1.414a1 1 0 00.707.293H18a2 2 0 002-2z" />
-    </svg>
-);
+// Fields edited in place commit on every keystroke; repeats of the same edit within this window are one step.
+const AUDIT_COALESCE_MS = 5000;
 
-const ChevronUpIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-    </svg>
-);
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    tambah_transaksi: 'Tambah Transaksi',
+    ubah_transaksi: 'Ubah Transaksi',
+    hapus_transaksi: 'Hapus Transaksi',
+    impor: 'Impor',
+    batalkan_impor: 'Batalkan Impor',
+    ubah_stok_awal: 'Ubah Stok Awal',
+    hapus_semua_data: 'Hapus Semua Data',
+    pulihkan_backup: 'Pulihkan Backup',
+    catat_pembayaran: 'Catat Pembayaran',
+    catat_retur: 'Catat Retur',
+    ubah_pengaturan: 'Ubah Pengaturan',
+    ubah_katalog: 'Ubah Katalog',
+    ubah_pelanggan: 'Ubah Pelanggan',
+    ubah_biaya: 'Ubah Biaya',
+    terbitkan_faktur: 'Terbitkan Faktur',
+    ubah_preset: 'Ubah Preset',
+    urungkan: 'Urungkan',
+    ulangi: 'Ulangi',
+};
 
-const ChevronDownIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-    </svg>
-);
+interface WorkspaceState {
+    data: SalesData[];
+    stocks: StockLevels;
+    catalog: Product[];
+    batches: ImportBatch[];
+    settings: AppSettings;
+    presets: ColumnMappingPreset[];
+    customers: Customer[];
+    invoices: Invoice[];
+    expenses: Expense[];
+}
 
-// --- Components ---
+/**
+ * The values a user actually entered for a row. `stok_sisa` is recalculated for everything but
+ * adjustments, so it is left out; otherwise every stock change downstream would count as an edit.
+ */
+const getTransactionInputs = (trans: SalesData): string =>
+    JSON.stringify({ ...trans, stok_sisa: trans.jenis_transaksi === 'penyesuaian' ? trans.stok_sisa : null });
 
-const SummaryCard = ({ title, value, icon, color }) => (
-    <div className="bg-white p-6 rounded-2xl shadow-lg flex items-center space-x-4">
-        <div className={`p-3 rounded-full ${color}`}>
-            {icon}
-        </div>
-        <div>
-            <p className="text-slate-500 text-sm font-medium">{title}</p>
-            <p className="text-2xl font-bold text-slate-800">{value}</p>
-        </div>
-    </div>
-);
+/**
+ * The items of a list that were added, changed or removed between two versions, matched by key.
+ */
+const diffCollection = <T,>(before: T[], after: T[], getKey: (item: T) => string, getContent: (item: T) => string = item => JSON.stringify(item)): { sebelum: T[], sesudah: T[] } => {
+    if (before === after) return { sebelum: [], sesudah: [] };
+    const beforeItems = new Map(before.map(item => [getKey(item), getContent(item)]));
+    const afterItems = new Map(after.map(item => [getKey(item), getContent(item)]));
+    return {
+        sebelum: before.filter(item => afterItems.get(getKey(item)) !== beforeItems.get(getKey(item))),
+        sesudah: after.filter(item => beforeItems.get(getKey(item)) !== afterItems.get(getKey(item))),
+    };
+};
 
-const ManualEntryForm = ({ onAddEntry, products, initialStocks }) => {
-    const today = new Date().toISOString().split('T')[0];
-    const [formData, setFormData] = useState({
-        tanggal: today,
-        nama_produk: '',
-        jumlah_terjual: '',
-        harga_beli: '',
-        harga_jual: '',
-        stok_sisa: '', // Used for stock adjustments
-        entryType: 'sale' // 'sale' or 'adjustment'
+/**
+ * Steps a list over a recorded change: items in `to` replace those with the same key in place,
+ * items only in `from` are removed and the rest of `to` is appended. Items the change did not touch stay as they are.
+ */
+const applyCollectionChange = <T,>(items: T[], from: T[] = [], to: T[] = [], getKey: (item: T) => string): T[] => {
+    if (from.length === 0 && to.length === 0) return items;
+    const replacements = new Map(to.map(item => [getKey(item), item]));
+    const removed = new Set(from.map(getKey));
+    const kept = items.flatMap(item => {
+        const key = getKey(item);
+        const replacement = replacements.get(key);
+        if (replacement) {
+            replacements.delete(key);
+            return [replacement];
+        }
+        return removed.has(key) ? [] : [item];
     });
-    const [error, setError] = useState('');
+    return [...kept, ...replacements.values()];
+};
 
-    const handleChange = (e) => {
-        const { name, value } = e.target;
-        setFormData(prev => ({ ...prev, [name]: value }));
-        setError('');
-    };
+// How the items of each list in a `WorkspaceChange` are matched.
+const getTransactionKey = (item: SalesData) => item.id;
+const getProductKey = (product: Product) => product.sku;
+const getBatchKey = (batch: ImportBatch) => batch.id;
+const getPresetKey = (preset: ColumnMappingPreset) => preset.nama;
+const getCustomerKey = (customer: Customer) => customer.id;
+const getInvoiceKey = (invoice: Invoice) => invoice.id;
+const getExpenseKey = (expense: Expense) => expense.id;
 
-    const handleSubmit = (e) => {
-        e.preventDefault();
-        
-        const isSale = formData.entryType === 'sale';
-        
-        const nama_produk = formData.nama_produk.trim();
-        if (!nama_produk) {
-            setError('Nama produk tidak boleh kosong.');
-            return;
+/**
+ * Describes the step from one workspace state to the next as the rows and collections it touched.
+ */
+const diffWorkspace = (before: WorkspaceState, after: WorkspaceState): { sebelum: WorkspaceChange, sesudah: WorkspaceChange } => {
+    const transactions = diffCollection(before.data, after.data, getTransactionKey, getTransactionInputs);
+    const sebelum: WorkspaceChange = { transaksi: transactions.sebelum };
+    const sesudah: WorkspaceChange = { transaksi: transactions.sesudah };
+    if (JSON.stringify(before.stocks) !== JSON.stringify(after.stocks)) {
+        sebelum.stok_awal = before.stocks;
+        sesudah.stok_awal = after.stocks;
+    }
+    const lists = [
+        ['katalog', diffCollection(before.catalog, after.catalog, getProductKey)],
+        ['riwayat_impor', diffCollection(before.batches, after.batches, getBatchKey)],
+        ['preset_pemetaan', diffCollection(before.presets, after.presets, getPresetKey)],
+        ['pelanggan', diffCollection(before.customers, after.customers, getCustomerKey)],
+        ['faktur', diffCollection(before.invoices, after.invoices, getInvoiceKey)],
+        ['biaya_operasional', diffCollection(before.expenses, after.expenses, getExpenseKey)],
+    ] as const;
+    for (const [key, change] of lists) {
+        if (change.sebelum.length > 0 || change.sesudah.length > 0) {
+            (sebelum[key] as unknown[]) = change.sebelum;
+            (sesudah[key] as unknown[]) = change.sesudah;
         }
+    }
+    const changedSettings = (Object.keys(after.settings) as (keyof AppSettings)[])
+        .filter(key => JSON.stringify(before.settings[key]) !== JSON.stringify(after.settings[key]));
+    if (changedSettings.length > 0) {
+        sebelum.pengaturan = Object.fromEntries(changedSettings.map(key => [key, before.settings[key]]));
+        sesudah.pengaturan = Object.fromEntries(changedSettings.map(key => [key, after.settings[key]]));
+    }
+    return { sebelum, sesudah };
+};
 
-        const jumlah_terjual = isSale ? parseFloat(formData.jumlah_terjual) : 0;
-        const stok_sisa = isSale ? 0 : parseFloat(formData.stok_sisa); // For adjustments
-        const harga_beli = isSale ? parseFloat(formData.harga_beli) : 0;
-        const harga_jual = isSale ? parseFloat(formData.harga_jual) : 0;
+/**
+ * Steps a workspace back (or forward) over a recorded change: the items in `from` are taken out,
+ * those in `to` put back, and the initial stock and settings `to` recorded are restored.
+ */
+const applyWorkspaceChange = (state: WorkspaceState, from: WorkspaceChange, to: WorkspaceChange): WorkspaceState => ({
+    data: applyCollectionChange(state.data, from.transaksi, to.transaksi, getTransactionKey),
+    stocks: to.stok_awal ?? state.stocks,
+    catalog: applyCollectionChange(state.catalog, from.katalog, to.katalog, getProductKey),
+    batches: applyCollectionChange(state.batches, from.riwayat_impor, to.riwayat_impor, getBatchKey),
+    settings: to.pengaturan ? { ...state.settings, ...to.pengaturan } : state.settings,
+    presets: applyCollectionChange(state.presets, from.preset_pemetaan, to.preset_pemetaan, getPresetKey),
+    customers: applyCollectionChange(state.customers, from.pelanggan, to.pelanggan, getCustomerKey),
+    invoices: applyCollectionChange(state.invoices, from.faktur, to.faktur, getInvoiceKey),
+    expenses: applyCollectionChange(state.expenses, from.biaya_operasional, to.biaya_operasional, getExpenseKey),
+});
 
-        if (isSale) {
-            if (isNaN(jumlah_terjual) || isNaN(harga_beli) || isNaN(harga_jual)) {
-                setError('Pastikan semua kolom angka diisi dengan benar untuk penjualan.');
-                return;
+
+const CSV_COLUMNS: SortKey[] = ['tanggal', 'jenis_transaksi', 'nama_produk', 'lokasi', 'lokasi_tujuan', 'jumlah_terjual', 'jumlah_masuk', 'harga_beli', 'harga_jual', 'total_penjualan', 'total_biaya', 'laba', 'stok_sisa', 'referensi', 'pelanggan', 'jatuh_tempo', 'diskon', 'diskon_transaksi', 'tarif_pajak', 'harga_termasuk_pajak', 'pajak'];
+// 'jenis_transaksi', 'jumlah_masuk', the location, customer, discount and tax columns are optional so older files still import.
+const REQUIRED_CSV_HEADERS: SortKey[] = ['tanggal', 'nama_produk', 'jumlah_terjual', 'harga_beli', 'harga_jual', 'total_penjualan', 'total_biaya', 'laba', 'stok_sisa'];
+const NUMERIC_COLUMNS: SortKey[] = ['jumlah_terjual', 'jumlah_masuk', 'harga_beli', 'harga_jual', 'total_penjualan', 'total_biaya', 'laba', 'stok_sisa', 'diskon', 'diskon_transaksi', 'tarif_pajak', 'pajak'];
+// Blank cells in these columns mean "none" (read as 0) rather than an invalid number: sales, e.g. from POS
+// exports, leave `jumlah_masuk` empty, and non-sales the discount and tax columns.
+const OPTIONAL_NUMERIC_COLUMNS: SortKey[] = ['jumlah_masuk', 'diskon', 'diskon_transaksi', 'tarif_pajak', 'pajak'];
+
+type CSVDelimiter = ',' | ';' | '\t';
+
+/**
+ * Decodes an uploaded file. Honours a UTF-8/UTF-16 byte order mark and falls back to
+ * Windows-1252 when the bytes are not valid UTF-8 (older Excel "CSV" exports).
+ */
+const decodeFileContent = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+        return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+    }
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+        return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+    }
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+        return new TextDecoder('windows-1252').decode(bytes);
+    }
+};
+
+/**
+ * Picks the delimiter that occurs most often (outside quotes) in the header line.
+ */
+const detectDelimiter = (text: string): CSVDelimiter => {
+    const counts: Record<CSVDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+    let inQuotes = false;
+    for (const char of text) {
+        if (char === '"') {
+            inQuotes = !inQuotes;
+        } else if (!inQuotes && (char === '\n' || char === '\r')) {
+            break;
+        } else if (!inQuotes && char in counts) {
+            counts[char as CSVDelimiter]++;
+        }
+    }
+    return (Object.keys(counts) as CSVDelimiter[]).reduce((a, b) => counts[b] > counts[a] ? b : a, ',');
+};
+
+/**
+ * Splits CSV text into rows of fields following RFC 4180: quoted fields may contain
+ * delimiters, line breaks and doubled quotes (""), and both LF and CRLF end a record.
+ * A leading UTF-8 BOM is dropped and blank lines are skipped.
+ */
+const parseCSVRows = (text: string, delimiter: CSVDelimiter, { t }: DisplayFormat): string[][] => {
+    const input = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0].trim() !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
             }
-            if (jumlah_terjual <= 0) {
-                setError('Jumlah terjual harus lebih dari 0.');
-                return;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\r' || char === '\n') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
             }
+            endRow();
         } else {
-            if (isNaN(stok_sisa)) {
-                setError('Jumlah stok untuk penyesuaian harus berupa angka.');
-                return;
+            field += char;
+        }
+    }
+    if (inQuotes) {
+        throw new Error(t('Format CSV tidak valid: terdapat tanda kutip yang tidak ditutup.'));
+    }
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+    return rows;
+};
+
+/**
+ * Parses a number written in either Indonesian ("1.250.000,50") or English ("1,250,000.50") notation.
+ * When only one kind of separator appears, `decimalSeparator` decides how it is read, except that
+ * digit groups of exactly three ("1.250.000") are always treated as thousands.
+ * @returns The parsed number, or NaN if the value is not numeric.
+ */
+const parseLocaleNumber = (value: string, decimalSeparator: ',' | '.' = '.'): number => {
+    let cleaned = value.replace(/^Rp\.?/i, '').replace(/\s/g, '');
+    if (cleaned === '') return NaN;
+
+    const lastComma = cleaned.lastIndexOf(',');
+    const lastDot = cleaned.lastIndexOf('.');
+    if (lastComma !== -1 && lastDot !== -1) {
+        // Both present: whichever comes last is the decimal separator.
+        cleaned = lastComma > lastDot
+            ? cleaned.replace(/\./g, '').replace(',', '.')
+            : cleaned.replace(/,/g, '');
+    } else if (lastComma !== -1 || lastDot !== -1) {
+        const separator = lastComma !== -1 ? ',' : '.';
+        const groupPattern = separator === ',' ? /^-?\d{1,3}(,\d{3})+$/ : /^-?\d{1,3}(\.\d{3})+$/;
+        const occurrences = cleaned.split(separator).length - 1;
+        const isThousands = occurrences > 1 || (separator !== decimalSeparator && groupPattern.test(cleaned));
+        cleaned = isThousands
+            ? cleaned.split(separator).join('')
+            : cleaned.replace(separator, '.');
+    }
+
+    return /^-?\d+(\.\d+)?$/.test(cleaned) ? parseFloat(cleaned) : NaN;
+};
+
+interface CSVTable {
+    header: string[];
+    rows: string[][];
+    decimalSeparator: ',' | '.';
+}
+
+/**
+ * Reads CSV text into a header row and data rows, detecting the delimiter and decimal notation.
+ */
+const readCSVTable = (text: string, display: DisplayFormat): CSVTable => {
+    const delimiter = detectDelimiter(text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text);
+    const rows = parseCSVRows(text, delimiter, display);
+    if (rows.length < 2) {
+        throw new Error(display.t('File CSV kosong atau hanya berisi header.'));
+    }
+    return {
+        header: rows[0].map(h => h.trim()),
+        rows: rows.slice(1),
+        // Semicolon-delimited files come from locales (such as id-ID) that use a decimal comma.
+        decimalSeparator: delimiter === ';' ? ',' : '.',
+    };
+};
+
+/**
+ * Converts an Excel date serial (days since 1899-12-30) to a YYYY-MM-DD string.
+ */
+const excelSerialToISODate = (serial: number): string => {
+    const date = new Date(Math.round((serial - 25569) * 86400 * 1000));
+    return date.toISOString().split('T')[0];
+};
+
+/**
+ * Reads one worksheet into the same table shape as a CSV file. Cells are taken raw, so numbers keep
+ * full precision and date cells arrive as Excel serials (converted when the `tanggal` field is read).
+ */
+const readWorksheetTable = (workbook: XLSX.WorkBook, sheetName: string, { t }: DisplayFormat): CSVTable => {
+    const rows: unknown[][] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, raw: true, defval: '', blankrows: false });
+    const stringRows = rows
+        .map(row => row.map(cell => cell === null || cell === undefined ? '' : String(cell)))
+        .filter(row => row.some(cell => cell.trim() !== ''));
+    if (stringRows.length < 2) {
+        throw new Error(t('Sheet "{sheet}" kosong atau hanya berisi header.', { sheet: sheetName }));
+    }
+    return {
+        header: stringRows[0].map(h => h.trim()),
+        rows: stringRows.slice(1),
+        decimalSeparator: '.',
+    };
+};
+
+const IMPORT_FIELDS: { key: SortKey; label: string; derivable: boolean; aliases: string[] }[] = [
+    { key: 'tanggal', label: 'Tanggal', derivable: false, aliases: ['tgl', 'date', 'tanggal_transaksi', 'order_date', 'waktu'] },
+    { key: 'nama_produk', label: 'Nama Produk / SKU', derivable: false, aliases: ['produk', 'nama_barang', 'barang', 'product', 'product_name', 'item', 'sku'] },
+    { key: 'jumlah_terjual', label: 'Jumlah Terjual', derivable: false, aliases: ['jumlah', 'qty', 'quantity', 'kuantitas', 'terjual'] },
+    { key: 'jenis_transaksi', label: 'Jenis Transaksi', derivable: true, aliases: ['jenis', 'tipe', 'type'] },
+    { key: 'jumlah_masuk', label: 'Jumlah Masuk / Transfer', derivable: true, aliases: ['qty_masuk', 'masuk', 'received'] },
+    { key: 'lokasi', label: 'Lokasi', derivable: true, aliases: ['gudang', 'outlet', 'cabang', 'toko', 'location', 'warehouse', 'lokasi_asal'] },
+    { key: 'lokasi_tujuan', label: 'Lokasi Tujuan (Transfer)', derivable: true, aliases: ['tujuan', 'gudang_tujuan', 'outlet_tujuan', 'destination'] },
+    { key: 'harga_beli', label: 'Harga Beli', derivable: true, aliases: ['hpp', 'modal', 'cost', 'unit_cost'] },
+    { key: 'harga_jual', label: 'Harga Jual', derivable: true, aliases: ['harga', 'price', 'unit_price', 'harga_satuan'] },
+    { key: 'total_penjualan', label: 'Total Penjualan', derivable: true, aliases: ['total', 'subtotal', 'omzet', 'amount', 'total_harga'] },
+    { key: 'total_biaya', label: 'Total Biaya', derivable: true, aliases: ['total_hpp', 'total_cost'] },
+    { key: 'laba', label: 'Laba', derivable: true, aliases: ['profit', 'keuntungan'] },
+    { key: 'stok_sisa', label: 'Stok Sisa', derivable: true, aliases: ['stok', 'stock', 'sisa_stok'] },
+    { key: 'referensi', label: 'Referensi (No. Nota)', derivable: true, aliases: ['ref', 'no_nota', 'nota', 'no_transaksi', 'invoice', 'order_id', 'no_pesanan'] },
+    { key: 'pelanggan', label: 'Pelanggan', derivable: true, aliases: ['customer', 'nama_pelanggan', 'pembeli', 'konsumen', 'buyer'] },
+    { key: 'jatuh_tempo', label: 'Jatuh Tempo (Penjualan Kredit)', derivable: true, aliases: ['tempo', 'due_date', 'tgl_jatuh_tempo', 'tanggal_jatuh_tempo'] },
+    { key: 'diskon', label: 'Diskon Baris', derivable: true, aliases: ['discount', 'potongan', 'diskon_item', 'line_discount'] },
+    { key: 'diskon_transaksi', label: 'Diskon Transaksi (Bagian Baris)', derivable: true, aliases: ['diskon_nota', 'potongan_nota', 'order_discount'] },
+    { key: 'tarif_pajak', label: 'Tarif Pajak (%)', derivable: true, aliases: ['tarif_ppn', 'ppn_persen', 'tax_rate', 'vat_rate'] },
+    { key: 'harga_termasuk_pajak', label: 'Harga Termasuk Pajak', derivable: true, aliases: ['termasuk_ppn', 'termasuk_pajak', 'tax_inclusive', 'price_includes_tax'] },
+    { key: 'pajak', label: 'Pajak (PPN)', derivable: true, aliases: ['ppn', 'tax', 'vat', 'nilai_ppn', 'tax_amount'] },
+];
+
+const TRUE_VALUES = ['ya', 'y', 'true', '1', 'yes'];
+const FALSE_VALUES = ['tidak', 't', 'false', '0', 'no', 'n', ''];
+
+const normalizeColumnName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Proposes a column mapping for a header row: a saved preset for the same set of columns wins,
+ * otherwise columns are matched by field name and then by common aliases.
+ */
+const guessColumnMapping = (header: string[], presets: ColumnMappingPreset[]): ColumnMapping => {
+    const signature = [...header].sort().join('|');
+    const preset = presets.find(p => [...p.kolom_sumber].sort().join('|') === signature);
+    if (preset) {
+        return preset.mapping;
+    }
+
+    const mapping: ColumnMapping = {};
+    const used = new Set<string>();
+    for (const field of IMPORT_FIELDS) {
+        const candidates = [field.key, ...field.aliases];
+        const match = header.find(h => !used.has(h) && candidates.includes(normalizeColumnName(h) as SortKey));
+        if (match) {
+            mapping[field.key] = match;
+            used.add(match);
+        }
+    }
+    return mapping;
+};
+
+const isMappingComplete = (mapping: ColumnMapping): boolean =>
+    IMPORT_FIELDS.every(f => f.derivable || mapping[f.key]);
+
+interface ParsedCSVRow {
+    rowNumber: number;
+    entry: SalesData | null;
+    errors: string[];
+    warnings: string[];
+}
+
+/**
+ * Converts CSV rows into transactions according to `mapping`. Prices that are not mapped fall back to the
+ * catalog's defaults; totals and profit that are not mapped are computed from quantity and prices.
+ * Every row is parsed independently: a row with invalid values gets `entry: null` and its errors listed,
+ * while the other rows are still returned. `error` is only set when the mapping itself is unusable.
+ */
+const parseCSV = (table: CSVTable, mapping: ColumnMapping, catalog: Product[], { t }: DisplayFormat): { rows: ParsedCSVRow[], error: string | null } => {
+    const missingFields = IMPORT_FIELDS.filter(f => !f.derivable && !mapping[f.key]).map(f => f.key);
+    if (missingFields.length > 0) {
+        return { rows: [], error: t('Kolom wajib belum dipetakan: {kolom}', { kolom: missingFields.join(', ') }) };
+    }
+
+    const rows = table.rows.map((fields, index) => {
+        const values = fields.map(v => v.trim());
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const entry: any = {
+            id: `id_csv_${Date.now()}_${Math.random()}_${index}`
+        };
+        for (const { key } of IMPORT_FIELDS) {
+            const column = mapping[key];
+            if (!column) continue;
+            const value = values[table.header.indexOf(column)] ?? '';
+            if (OPTIONAL_NUMERIC_COLUMNS.includes(key) && value === '') {
+                continue;
+            } else if (NUMERIC_COLUMNS.includes(key)) {
+                const numValue = parseLocaleNumber(value, table.decimalSeparator);
+                if (isNaN(numValue)) {
+                    errors.push(t("Nilai tidak valid pada kolom '{kolom}': '{nilai}'.", { kolom: column, nilai: value }));
+                } else if (numValue < 0 && key !== 'laba') {
+                    errors.push(t("Nilai pada kolom '{kolom}' tidak boleh negatif.", { kolom: column }));
+                }
+                entry[key] = numValue;
+            } else if (key === 'jenis_transaksi') {
+                const type = value.toLowerCase();
+                if (type === 'retur') {
+                    // A return has to point at its sale, which a file cannot do, so returns are recorded in the app.
+                    errors.push(t('Retur penjualan tidak dapat diimpor. Catat retur melalui formulir Retur Penjualan.'));
+                } else if (type && !isTransactionType(type)) {
+                    errors.push(t("Jenis transaksi tidak dikenal: '{nilai}'. Gunakan penjualan, pembelian, penyesuaian, atau transfer.", { nilai: value }));
+                }
+                entry[key] = type || undefined;
+            } else if (key === 'harga_termasuk_pajak') {
+                const flag = value.toLowerCase();
+                if (!TRUE_VALUES.includes(flag) && !FALSE_VALUES.includes(flag)) {
+                    errors.push(t("Nilai tidak valid pada kolom '{kolom}': '{nilai}'. Gunakan ya atau tidak.", { kolom: column, nilai: value }));
+                }
+                entry[key] = TRUE_VALUES.includes(flag) || undefined;
+            } else if ((key === 'tanggal' || key === 'jatuh_tempo') && /^\d{5}(\.\d+)?$/.test(value)) {
+                // A bare five-digit number in a date column is an Excel date serial.
+                entry[key] = excelSerialToISODate(parseFloat(value));
+            } else {
+                entry[key] = value || undefined;
             }
-             if (stok_sisa < 0) {
-                setError('Jumlah stok tidak boleh negatif.');
-                return;
+        }
+
+        if (!entry.nama_produk) {
+            errors.push(t('Nama produk kosong.'));
+        }
+        if (!entry.tanggal || isNaN(new Date(entry.tanggal).getTime())) {
+            errors.push(t("Tanggal tidak valid: '{nilai}'.", { nilai: entry.tanggal }));
+        }
+        if (entry.jatuh_tempo && isNaN(new Date(entry.jatuh_tempo).getTime())) {
+            errors.push(t("Tanggal jatuh tempo tidak valid: '{nilai}'.", { nilai: entry.jatuh_tempo }));
+        }
+        if (entry.jenis_transaksi === 'transfer') {
+            if (!entry.lokasi_tujuan) {
+                errors.push(t('Transfer membutuhkan lokasi tujuan.'));
+            } else if (entry.lokasi_tujuan === (entry.lokasi || DEFAULT_LOCATION)) {
+                errors.push(t('Lokasi tujuan transfer harus berbeda dari lokasi asal.'));
+            }
+        }
+        if (errors.length > 0) {
+            return { rowNumber: index + 2, entry: null, errors, warnings };
+        }
+
+        const trans = deriveMissingFields(normalizeTransaction(entry as SalesData), mapping, catalog);
+        if (!findProduct(catalog, trans.nama_produk)) {
+            warnings.push(t('Produk "{produk}" belum ada di katalog dan akan ditambahkan.', { produk: trans.nama_produk }));
+        }
+        if (trans.jenis_transaksi !== 'penjualan' && (trans.pelanggan || trans.jatuh_tempo)) {
+            warnings.push(t('Pelanggan dan jatuh tempo hanya berlaku untuk penjualan dan diabaikan.'));
+            delete trans.pelanggan;
+            delete trans.jatuh_tempo;
+        }
+        if (trans.jenis_transaksi !== 'penjualan' && (trans.diskon || trans.diskon_transaksi || trans.tarif_pajak || trans.pajak)) {
+            warnings.push(t('Diskon dan pajak hanya berlaku untuk penjualan dan diabaikan.'));
+            for (const key of ['diskon', 'diskon_transaksi', 'tarif_pajak', 'harga_termasuk_pajak', 'pajak'] as const) delete trans[key];
+        }
+        if (trans.jenis_transaksi === 'penjualan') {
+            if (trans.harga_jual < trans.harga_beli) {
+                warnings.push(t('Harga jual lebih rendah dari harga beli.'));
+            }
+            if ((trans.diskon ?? 0) + (trans.diskon_transaksi ?? 0) > trans.jumlah_terjual * trans.harga_jual) {
+                warnings.push(t('Diskon melebihi jumlah × harga jual.'));
+            }
+            if (mapping.total_penjualan && Math.abs(trans.total_penjualan - computeSaleAmounts(trans).total_penjualan) > 1) {
+                warnings.push(t('Total penjualan tidak sama dengan jumlah × harga jual setelah diskon dan pajak.'));
+            }
+        }
+        return { rowNumber: index + 2, entry: trans, errors, warnings };
+    });
+    return { rows, error: null };
+};
+
+const deriveMissingFields = (trans: SalesData, mapping: ColumnMapping, catalog: Product[]): SalesData => {
+    const product = findProduct(catalog, trans.nama_produk);
+    const isSale = trans.jenis_transaksi === 'penjualan';
+    const isPurchase = trans.jenis_transaksi === 'pembelian';
+
+    const harga_beli = mapping.harga_beli ? trans.harga_beli : product?.harga_beli_default || 0;
+    const harga_jual = mapping.harga_jual ? trans.harga_jual : product?.harga_jual_default || 0;
+    const amounts = isSale ? computeSaleAmounts({ ...trans, harga_jual }) : { total_penjualan: 0, pajak: 0 };
+    const total_penjualan = mapping.total_penjualan ? trans.total_penjualan : amounts.total_penjualan;
+    const total_biaya = mapping.total_biaya
+        ? trans.total_biaya
+        : isSale ? trans.jumlah_terjual * harga_beli : isPurchase ? trans.jumlah_masuk * harga_beli : 0;
+    const laba = mapping.laba ? trans.laba : isSale ? total_penjualan - total_biaya : 0;
+
+    return {
+        ...trans,
+        harga_beli,
+        harga_jual,
+        total_penjualan,
+        ...(isSale ? { pajak: mapping.pajak ? trans.pajak ?? 0 : amounts.pajak } : {}),
+        total_biaya,
+        laba,
+        // stok_sisa is recalculated by processAndValidateData; it only matters for adjustments.
+        stok_sisa: mapping.stok_sisa ? trans.stok_sisa : 0,
+    };
+};
+
+type DateRangePreset = 'semua' | 'hari_ini' | 'minggu_ini' | 'bulan_ini' | 'kustom';
+
+interface DateRangeFilter {
+    preset: DateRangePreset;
+    start: string;
+    end: string;
+}
+
+interface DateBounds {
+    start: string;
+    end: string;
+}
+
+const DATE_RANGE_LABELS: Record<DateRangePreset, string> = {
+    semua: 'Semua Waktu',
+    hari_ini: 'Hari Ini',
+    minggu_ini: 'Minggu Ini',
+    bulan_ini: 'Bulan Ini',
+    kustom: 'Rentang Kustom',
+};
+
+const toISODate = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (isoDate: string, days: number): string => {
+    const date = new Date(`${isoDate}T00:00:00`);
+    date.setDate(date.getDate() + days);
+    return toISODate(date);
+};
+
+/**
+ * Resolves a date range filter to inclusive YYYY-MM-DD bounds, together with the previous period of the
+ * same kind (yesterday, last week, last month, or the equally long span before a custom range).
+ * `current` is null when every date is included.
+ */
+const getDateRangeBounds = (filter: DateRangeFilter, today: Date = new Date()): { current: DateBounds | null, previous: DateBounds | null } => {
+    const todayISO = toISODate(today);
+    switch (filter.preset) {
+        case 'hari_ini':
+            return { current: { start: todayISO, end: todayISO }, previous: { start: addDays(todayISO, -1), end: addDays(todayISO, -1) } };
+        case 'minggu_ini': {
+            // Weeks start on Monday.
+            const start = addDays(todayISO, -((today.getDay() + 6) % 7));
+            return { current: { start, end: addDays(start, 6) }, previous: { start: addDays(start, -7), end: addDays(start, -1) } };
+        }
+        case 'bulan_ini': {
+            const start = toISODate(new Date(today.getFullYear(), today.getMonth(), 1));
+            const end = toISODate(new Date(today.getFullYear(), today.getMonth() + 1, 0));
+            const previousStart = toISODate(new Date(today.getFullYear(), today.getMonth() - 1, 1));
+            return { current: { start, end }, previous: { start: previousStart, end: addDays(start, -1) } };
+        }
+        case 'kustom': {
+            if (!filter.start && !filter.end) {
+                return { current: null, previous: null };
+            }
+            const current = { start: filter.start || '0000-01-01', end: filter.end || '9999-12-31' };
+            if (!filter.start || !filter.end) {
+                return { current, previous: null };
+            }
+            const length = Math.round((new Date(filter.end).getTime() - new Date(filter.start).getTime()) / 86400000) + 1;
+            return { current, previous: { start: addDays(filter.start, -length), end: addDays(filter.start, -1) } };
+        }
+        default:
+            return { current: null, previous: null };
+    }
+};
+
+const isWithinBounds = (tanggal: string, bounds: DateBounds | null): boolean => {
+    if (!bounds) return true;
+    const date = tanggal.slice(0, 10);
+    return date >= bounds.start && date <= bounds.end;
+};
+
+/**
+ * Aggregates the figures shown on the summary cards for a set of transactions.
+ */
+const computeSalesSummary = (data: SalesData[]) => {
+    const salesByProduct: Record<string, number> = {};
+    for (const item of data) {
+        if (item.jenis_transaksi === 'penjualan' && item.jumlah_terjual > 0) {
+            salesByProduct[item.nama_produk] = (salesByProduct[item.nama_produk] || 0) + item.jumlah_terjual;
+        } else if (item.jenis_transaksi === 'retur') {
+            salesByProduct[item.nama_produk] = (salesByProduct[item.nama_produk] || 0) - item.jumlah_masuk;
+        }
+    }
+
+    // Returns carry negative amounts, so these are net of returns.
+    const totalPenjualan = data.reduce((acc, item) => acc + item.total_penjualan, 0);
+    const totalLaba = data.reduce((acc, item) => acc + item.laba, 0);
+    const totalPembelian = data
+        .filter(item => item.jenis_transaksi === 'pembelian')
+        .reduce((acc, item) => acc + item.total_biaya, 0);
+
+    const produkTerlaris = Object.keys(salesByProduct).length > 0
+        ? Object.entries(salesByProduct).reduce((a, b) => a[1] > b[1] ? a : b)[0]
+        : 'N/A';
+
+    return { totalPenjualan, totalLaba, totalPembelian, produkTerlaris };
+};
+
+/**
+ * Percentage change from `previous` to `current`, or null when there is nothing to compare against.
+ */
+const calculateDelta = (current: number, previous: number | undefined): number | null => {
+    if (previous === undefined || previous === 0) return null;
+    return ((current - previous) / Math.abs(previous)) * 100;
+};
+
+type TimeGranularity = 'hari' | 'minggu' | 'bulan';
+
+interface TimeSeriesPoint {
+    period: string;
+    penjualan: number;
+    laba: number;
+    unit: number;
+    rataRata?: number;
+}
+
+/**
+ * Returns the period a date falls in: the date itself, the Monday of its week, or its YYYY-MM month.
+ */
+const getPeriodKey = (tanggal: string, granularity: TimeGranularity): string => {
+    const date = tanggal.slice(0, 10);
+    if (granularity === 'bulan') return date.slice(0, 7);
+    if (granularity === 'minggu') {
+        const day = new Date(`${date}T00:00:00`).getDay();
+        return addDays(date, -((day + 6) % 7));
+    }
+    return date;
+};
+
+const getNextPeriodKey = (period: string, granularity: TimeGranularity): string => {
+    if (granularity === 'bulan') {
+        const [year, month] = period.split('-').map(Number);
+        return toISODate(new Date(year, month, 1)).slice(0, 7);
+    }
+    return addDays(period, granularity === 'minggu' ? 7 : 1);
+};
+
+/**
+ * Totals sales, profit and units sold per period net of returns, including empty periods so the time axis has no gaps.
+ */
+const buildTimeSeries = (data: SalesData[], granularity: TimeGranularity): TimeSeriesPoint[] => {
+    const totals: Record<string, TimeSeriesPoint> = {};
+    for (const item of data) {
+        if (item.jenis_transaksi !== 'penjualan' && item.jenis_transaksi !== 'retur') continue;
+        const period = getPeriodKey(item.tanggal, granularity);
+        const point = totals[period] = totals[period] || { period, penjualan: 0, laba: 0, unit: 0 };
+        point.penjualan += item.total_penjualan;
+        point.laba += item.laba;
+        point.unit += item.jenis_transaksi === 'retur' ? -item.jumlah_masuk : item.jumlah_terjual;
+    }
+
+    const periods = Object.keys(totals).sort();
+    if (periods.length === 0) return [];
+
+    const series: TimeSeriesPoint[] = [];
+    const last = periods[periods.length - 1];
+    for (let period = periods[0]; period <= last; period = getNextPeriodKey(period, granularity)) {
+        series.push(totals[period] || { period, penjualan: 0, laba: 0, unit: 0 });
+    }
+    return series;
+};
+
+/**
+ * Adds a trailing moving average of sales over `window` periods to each point.
+ */
+const addMovingAverage = (series: TimeSeriesPoint[], window: number): TimeSeriesPoint[] =>
+    series.map((point, index) => {
+        const slice = series.slice(Math.max(0, index - window + 1), index + 1);
+        return { ...point, rataRata: slice.reduce((acc, p) => acc + p.penjualan, 0) / slice.length };
+    });
+const FORECAST_HISTORY_DAYS = 90;
+const FORECAST_MOVING_AVERAGE_DAYS = 14;
+const FORECAST_SMOOTHING_ALPHA = 0.3;
+const MAX_COVER_DAYS = 365;
+
+interface DemandForecast {
+    product: string;
+    stock: number;
+    averageDaily: number;
+    movingAverage: number;
+    smoothedDaily: number;
+    /** Sales on each weekday (Sunday first) relative to the average day; 1 when there is too little history. */
+    weekdayFactors: number[];
+    daysOfCover: number | null;
+    stockOutDate: string | null;
+}
+
+const getWeekday = (isoDate: string): number => new Date(`${isoDate}T00:00:00`).getDay();
+
+/**
+ * Estimates daily demand per product from the sales of the last `FORECAST_HISTORY_DAYS` days up to
+ * `referenceDate` and how long the current stock lasts at that pace.
+ *
+ * Daily sales are first divided by a weekday factor (how much a Monday, Tuesday, ... sells compared to
+ * an average day), smoothed exponentially, and the smoothed level is multiplied by the factor again for
+ * each future day. Days of cover is the number of days until that forecast uses up the stock;
+ * `null` means the product has not sold in the period.
+ */
+const buildDemandForecast = (data: SalesData[], stockLevels: Record<string, number>, referenceDate: string): DemandForecast[] => {
+    const windowStart = addDays(referenceDate, -(FORECAST_HISTORY_DAYS - 1));
+    const salesByProduct: Record<string, Record<string, number>> = {};
+    const firstSale: Record<string, string> = {};
+    for (const item of data) {
+        const day = item.tanggal.slice(0, 10);
+        if (item.jenis_transaksi !== 'penjualan' || day > referenceDate) continue;
+        if (!firstSale[item.nama_produk] || day < firstSale[item.nama_produk]) firstSale[item.nama_produk] = day;
+        if (day < windowStart) continue;
+        const sales = salesByProduct[item.nama_produk] = salesByProduct[item.nama_produk] || {};
+        sales[day] = (sales[day] || 0) + item.jumlah_terjual;
+    }
+
+    return Object.entries(stockLevels).map(([product, stock]) => {
+        // A product that started selling recently is measured from its first sale, not the whole window.
+        const start = firstSale[product] && firstSale[product] > windowStart ? firstSale[product] : windowStart;
+        const series: { weekday: number; qty: number }[] = [];
+        for (let day = start; day <= referenceDate; day = addDays(day, 1)) {
+            series.push({ weekday: getWeekday(day), qty: salesByProduct[product]?.[day] || 0 });
+        }
+
+        const averageDaily = series.reduce((acc, d) => acc + d.qty, 0) / series.length;
+        const recent = series.slice(-FORECAST_MOVING_AVERAGE_DAYS);
+        const movingAverage = recent.reduce((acc, d) => acc + d.qty, 0) / recent.length;
+
+        // Weekday seasonality needs at least two of every weekday to mean anything.
+        const weekdayFactors = Array(7).fill(1);
+        if (series.length >= 14 && averageDaily > 0) {
+            for (let weekday = 0; weekday < 7; weekday++) {
+                const days = series.filter(d => d.weekday === weekday);
+                weekdayFactors[weekday] = days.reduce((acc, d) => acc + d.qty, 0) / days.length / averageDaily;
+            }
+        }
+
+        let smoothedDaily = 0;
+        series
+            .filter(d => weekdayFactors[d.weekday] > 0)
+            .forEach((d, index) => {
+                const deseasonalized = d.qty / weekdayFactors[d.weekday];
+                smoothedDaily = index === 0 ? deseasonalized : FORECAST_SMOOTHING_ALPHA * deseasonalized + (1 - FORECAST_SMOOTHING_ALPHA) * smoothedDaily;
+            });
+
+        let daysOfCover: number | null = null;
+        if (stock <= 0) {
+            daysOfCover = 0;
+        } else if (smoothedDaily > 0) {
+            let remaining = stock;
+            for (let day = 1; day <= MAX_COVER_DAYS; day++) {
+                remaining -= smoothedDaily * weekdayFactors[getWeekday(addDays(referenceDate, day))];
+                if (remaining <= 0) {
+                    daysOfCover = day;
+                    break;
+                }
             }
+            daysOfCover = daysOfCover ?? MAX_COVER_DAYS;
+        }
+
+        return {
+            product,
+            stock,
+            averageDaily,
+            movingAverage,
+            smoothedDaily,
+            weekdayFactors,
+            daysOfCover,
+            stockOutDate: daysOfCover === null ? null : addDays(referenceDate, daysOfCover),
+        };
+    });
+};
+
+type AbcClass = 'A' | 'B' | 'C';
+type AbcMetric = 'penjualan' | 'laba';
+type MovementStatus = 'lancar' | 'lambat' | 'mati';
+
+// Products making up the first 80% of the total are class A, the next 15% class B and the rest class C.
+const ABC_CLASS_LIMITS = { A: 80, B: 95 };
+
+const ABC_METRIC_LABELS: Record<AbcMetric, string> = {
+    penjualan: 'Pendapatan',
+    laba: 'Laba',
+};
+
+const MOVEMENT_STATUS_LABELS: Record<MovementStatus, string> = {
+    lancar: 'Lancar',
+    lambat: 'Lambat',
+    mati: 'Stok Mati',
+};
+
+interface AbcRow {
+    product: string;
+    sku: string;
+    category: string;
+    units: number;
+    stock: number;
+    lastSale: string | null;
+    /** Days from the last sale to the reference date; null when the product never sold. */
+    daysSinceSale: number | null;
+    movement: MovementStatus;
+    penjualan: number;
+    laba: number;
+    /** Share of the total and running share in the Pareto order, per metric, in percent. */
+    share: Record<AbcMetric, number>;
+    cumulative: Record<AbcMetric, number>;
+    abcClass: Record<AbcMetric, AbcClass>;
+}
+
+/**
+ * Classifies products by their contribution to revenue and to profit. Products are ranked by each
+ * metric and classed by the running share of the total before them, so the product that crosses a
+ * limit still belongs to the higher class; products with nothing or a loss to contribute are class C.
+ * Movement compares the days since the last sale (from `history`) with the slow and dead thresholds.
+ */
+const buildAbcAnalysis = (
+    data: SalesData[],
+    history: SalesData[],
+    catalog: Product[],
+    stockLevels: Record<string, number>,
+    referenceDate: string,
+    slowDays: number,
+    deadDays: number
+): AbcRow[] => {
+    const totals: Record<string, { units: number, penjualan: number, laba: number }> = {};
+    for (const name of [...catalog.filter(p => p.aktif).map(p => p.nama), ...Object.keys(stockLevels)]) {
+        totals[name] = totals[name] || { units: 0, penjualan: 0, laba: 0 };
+    }
+    for (const item of data) {
+        if (item.jenis_transaksi !== 'penjualan' && item.jenis_transaksi !== 'retur') continue;
+        const row = totals[item.nama_produk] = totals[item.nama_produk] || { units: 0, penjualan: 0, laba: 0 };
+        row.units += item.jenis_transaksi === 'retur' ? -item.jumlah_masuk : item.jumlah_terjual;
+        row.penjualan += item.total_penjualan;
+        row.laba += item.laba;
+    }
+
+    const lastSales: Record<string, string> = {};
+    for (const item of history) {
+        const day = item.tanggal.slice(0, 10);
+        if (item.jenis_transaksi === 'penjualan' && day <= referenceDate && day > (lastSales[item.nama_produk] ?? '')) {
+            lastSales[item.nama_produk] = day;
+        }
+    }
+
+    const rows: AbcRow[] = Object.entries(totals).map(([product, total]) => {
+        const catalogProduct = findProduct(catalog, product);
+        const lastSale = lastSales[product] ?? null;
+        const daysSinceSale = lastSale === null
+            ? null
+            : Math.round((new Date(`${referenceDate}T00:00:00`).getTime() - new Date(`${lastSale}T00:00:00`).getTime()) / 86400000);
+        const movement: MovementStatus = daysSinceSale === null || daysSinceSale >= deadDays ? 'mati' : daysSinceSale >= slowDays ? 'lambat' : 'lancar';
+        return {
+            product,
+            sku: catalogProduct?.sku ?? '',
+            category: catalogProduct?.kategori ?? DEFAULT_CATEGORY,
+            units: total.units,
+            stock: stockLevels[product] ?? 0,
+            lastSale,
+            daysSinceSale,
+            movement,
+            penjualan: total.penjualan,
+            laba: total.laba,
+            share: { penjualan: 0, laba: 0 },
+            cumulative: { penjualan: 0, laba: 0 },
+            abcClass: { penjualan: 'C', laba: 'C' },
+        };
+    });
+
+    for (const metric of Object.keys(ABC_METRIC_LABELS) as AbcMetric[]) {
+        const ranked = [...rows].sort((a, b) => b[metric] - a[metric]);
+        const total = ranked.reduce((acc, row) => acc + Math.max(0, row[metric]), 0);
+        let running = 0;
+        for (const row of ranked) {
+            const before = running;
+            const value = Math.max(0, row[metric]);
+            running += total > 0 ? value / total * 100 : 0;
+            row.share[metric] = total > 0 ? value / total * 100 : 0;
+            row.cumulative[metric] = running;
+            row.abcClass[metric] = value <= 0 ? 'C' : before < ABC_CLASS_LIMITS.A ? 'A' : before < ABC_CLASS_LIMITS.B ? 'B' : 'C';
         }
+    }
+    return rows;
+};
+
+type AgingBucket = 'lancar' | 'hari_1_30' | 'hari_31_60' | 'hari_61_90' | 'hari_90_plus';
+
+const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+    lancar: 'Belum Jatuh Tempo',
+    hari_1_30: '1-30 Hari',
+    hari_31_60: '31-60 Hari',
+    hari_61_90: '61-90 Hari',
+    hari_90_plus: '> 90 Hari',
+};
+
+const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+    lunas: 'Lunas',
+    sebagian: 'Dibayar Sebagian',
+    belum_bayar: 'Belum Dibayar',
+};
+
+/**
+ * Amount received for a sale. Sales without a due date are cash sales and count as fully paid.
+ */
+const getAmountPaid = (trans: SalesData): number =>
+    trans.jatuh_tempo ? (trans.pembayaran ?? []).reduce((acc, p) => acc + p.jumlah, 0) : getSaleTotal(trans);
+
+const getAmountDue = (trans: SalesData): number => Math.max(0, getSaleTotal(trans) - getAmountPaid(trans));
+
+const getPaymentStatus = (trans: SalesData): PaymentStatus => {
+    if (getAmountDue(trans) === 0) return 'lunas';
+    return getAmountPaid(trans) > 0 ? 'sebagian' : 'belum_bayar';
+};
+
+const getAgingBucket = (dueDate: string, asOf: string): AgingBucket => {
+    const daysOverdue = Math.round((new Date(`${asOf}T00:00:00`).getTime() - new Date(`${dueDate.slice(0, 10)}T00:00:00`).getTime()) / 86400000);
+    if (daysOverdue <= 0) return 'lancar';
+    if (daysOverdue <= 30) return 'hari_1_30';
+    if (daysOverdue <= 60) return 'hari_31_60';
+    if (daysOverdue <= 90) return 'hari_61_90';
+    return 'hari_90_plus';
+};
+
+interface AgingRow {
+    customer: string;
+    buckets: Record<AgingBucket, number>;
+    total: number;
+}
+
+const emptyAgingBuckets = (): Record<AgingBucket, number> =>
+    ({ lancar: 0, hari_1_30: 0, hari_31_60: 0, hari_61_90: 0, hari_90_plus: 0 });
+
+/**
+ * Outstanding credit sales per customer, split by how many days past their due date they are on `asOf`.
+ */
+const buildAgingReport = (data: SalesData[], asOf: string, { t }: DisplayFormat): { rows: AgingRow[], totals: AgingRow } => {
+    const byCustomer: Record<string, AgingRow> = {};
+    const totals: AgingRow = { customer: t('Total'), buckets: emptyAgingBuckets(), total: 0 };
+    for (const item of data) {
+        if (item.jenis_transaksi !== 'penjualan' || !item.jatuh_tempo) continue;
+        const due = getAmountDue(item);
+        if (due === 0) continue;
+        const customer = item.pelanggan || t('Tanpa Pelanggan');
+        const row = byCustomer[customer] = byCustomer[customer] || { customer, buckets: emptyAgingBuckets(), total: 0 };
+        const bucket = getAgingBucket(item.jatuh_tempo, asOf);
+        row.buckets[bucket] += due;
+        row.total += due;
+        totals.buckets[bucket] += due;
+        totals.total += due;
+    }
+    return { rows: Object.values(byCustomer).sort((a, b) => b.total - a.total), totals };
+};
+
+const findCustomer = (customers: Customer[], name: string): Customer | undefined => {
+    const key = normalizeProductKey(name);
+    return customers.find(c => normalizeProductKey(c.nama) === key);
+};
+
+/**
+ * Directory entries for customer names on imported sales that are not in the directory yet.
+ */
+const createCustomersFromTransactions = (transactions: SalesData[], customers: Customer[]): Customer[] => {
+    const created: Customer[] = [];
+    for (const item of transactions) {
+        if (!item.pelanggan || findCustomer([...customers, ...created], item.pelanggan)) continue;
+        created.push({ id: `cust_${Date.now()}_${created.length}`, nama: item.pelanggan.trim(), telepon: '', alamat: '', tempo_hari: DEFAULT_CREDIT_TERM_DAYS });
+    }
+    return created;
+};
+
+const INVOICE_TYPE_LABELS: Record<InvoiceType, string> = {
+    faktur: 'Faktur',
+    struk: 'Struk Penjualan',
+};
+
+const INVOICE_NUMBER_PREFIXES: Record<InvoiceType, string> = {
+    faktur: 'INV',
+    struk: 'STR',
+};
+
+/**
+ * Next number in the document type's sequence for the year of `tanggal`, e.g. INV/2025/0007.
+ * The sequence restarts every year.
+ */
+const getNextInvoiceNumber = (invoices: Invoice[], jenis: InvoiceType, tanggal: string): string => {
+    const prefix = `${INVOICE_NUMBER_PREFIXES[jenis]}/${tanggal.slice(0, 4)}/`;
+    const lastSequence = invoices
+        .filter(invoice => invoice.nomor.startsWith(prefix))
+        .reduce((max, invoice) => Math.max(max, parseInt(invoice.nomor.slice(prefix.length), 10) || 0), 0);
+    return `${prefix}${String(lastSequence + 1).padStart(4, '0')}`;
+};
+
+/**
+ * Issues one invoice or receipt for a set of sales to the same customer, numbered after the ones already issued.
+ */
+const createInvoice = (sales: SalesData[], invoices: Invoice[], jenis: InvoiceType, tanggal: string, { t }: DisplayFormat): { invoice: Invoice | null, error: string | null } => {
+    if (sales.length === 0) {
+        return { invoice: null, error: t('Pilih minimal satu transaksi penjualan.') };
+    }
+    if (sales.some(item => item.jenis_transaksi !== 'penjualan')) {
+        return { invoice: null, error: t('{dokumen} hanya dapat dibuat untuk transaksi penjualan.', { dokumen: t(INVOICE_TYPE_LABELS[jenis]) }) };
+    }
+    const customerNames = [...new Set(sales.map(item => item.pelanggan || ''))];
+    if (customerNames.length > 1) {
+        return { invoice: null, error: t('Semua transaksi dalam satu dokumen harus untuk pelanggan yang sama.') };
+    }
+    const taxInclusive = sales.some(item => item.tarif_pajak && item.harga_termasuk_pajak);
+    if (sales.some(item => item.tarif_pajak && !item.harga_termasuk_pajak) && taxInclusive) {
+        return { invoice: null, error: t('Harga termasuk pajak dan belum termasuk pajak tidak dapat digabung dalam satu dokumen.') };
+    }
+
+    const ordered = [...sales].sort((a, b) => a.tanggal.localeCompare(b.tanggal));
+    const dueDates = ordered.map(item => item.jatuh_tempo).filter(Boolean).sort();
+    const pajak = ordered.reduce((acc, item) => acc + (item.pajak ?? 0), 0);
+    return {
+        invoice: {
+            id: `inv_${Date.now()}_${Math.random()}`,
+            nomor: getNextInvoiceNumber(invoices, jenis, tanggal),
+            jenis,
+            tanggal,
+            ...(customerNames[0] ? { pelanggan: customerNames[0] } : {}),
+            ...(dueDates.length > 0 ? { jatuh_tempo: dueDates.at(-1) } : {}),
+            baris: ordered.map(item => {
+                const diskon = (item.diskon ?? 0) + (item.diskon_transaksi ?? 0);
+                return { nama_produk: item.nama_produk, jumlah: item.jumlah_terjual, harga_jual: item.harga_jual, diskon, total: item.jumlah_terjual * item.harga_jual - diskon };
+            }),
+            total: ordered.reduce((acc, item) => acc + getSaleTotal(item), 0),
+            ...(pajak > 0 ? { pajak, harga_termasuk_pajak: taxInclusive } : {}),
+            dibayar: ordered.reduce((acc, item) => acc + getAmountPaid(item), 0),
+            transaksi: ordered.map(item => item.id),
+        },
+        error: null,
+    };
+};
+
+interface TaxReportRow {
+    periode: string;
+    tarif: number;
+    transaksi: number;
+    bruto: number;
+    diskon: number;
+    dpp: number;
+    pajak: number;
+    total: number;
+}
+
+/**
+ * Totals sales per month and tax rate: gross amount, discounts, tax base (DPP), tax and amount billed.
+ * Sales without tax are reported under a 0% rate so the report reconciles with total sales; returns count negatively.
+ */
+const buildTaxReport = (data: SalesData[]): { rows: TaxReportRow[], totals: TaxReportRow } => {
+    const groups: Record<string, TaxReportRow> = {};
+    const totals: TaxReportRow = { periode: '', tarif: 0, transaksi: 0, bruto: 0, diskon: 0, dpp: 0, pajak: 0, total: 0 };
+    for (const item of data) {
+        if (item.jenis_transaksi !== 'penjualan' && item.jenis_transaksi !== 'retur') continue;
+        const periode = getPeriodKey(item.tanggal, 'bulan');
+        const tarif = item.tarif_pajak ?? 0;
+        const key = `${periode}|${tarif}`;
+        const row = groups[key] = groups[key] || { periode, tarif, transaksi: 0, bruto: 0, diskon: 0, dpp: 0, pajak: 0, total: 0 };
+        const sign = item.jenis_transaksi === 'retur' ? -1 : 1;
+        const quantity = item.jenis_transaksi === 'retur' ? item.jumlah_masuk : item.jumlah_terjual;
+        const diskon = (item.diskon ?? 0) + (item.diskon_transaksi ?? 0);
+        for (const target of [row, totals]) {
+            target.transaksi += 1;
+            target.bruto += sign * quantity * item.harga_jual;
+            target.diskon += sign * diskon;
+            target.dpp += item.total_penjualan;
+            target.pajak += item.pajak ?? 0;
+            target.total += getSaleTotal(item);
+        }
+    }
+    const rows = Object.values(groups).sort((a, b) => a.periode.localeCompare(b.periode) || a.tarif - b.tarif);
+    return { rows, totals };
+};
+
+type PnlGranularity = 'bulan' | 'kuartal' | 'tahun';
+
+const PNL_GRANULARITY_LABELS: Record<PnlGranularity, string> = {
+    bulan: 'Bulanan',
+    kuartal: 'Kuartalan',
+    tahun: 'Tahunan',
+};
+
+// Suggested categories for the expense ledger; any other category can be typed in.
+const EXPENSE_CATEGORIES = ['Sewa', 'Gaji', 'Listrik & Air', 'Internet & Telepon', 'Transportasi', 'Pemasaran', 'Lain-lain'];
+
+/**
+ * Returns the reporting period of a date: its YYYY-MM month, YYYY-Qn quarter or YYYY year.
+ */
+const getPnlPeriodKey = (tanggal: string, granularity: PnlGranularity): string => {
+    if (granularity === 'bulan') return tanggal.slice(0, 7);
+    if (granularity === 'kuartal') return `${tanggal.slice(0, 4)}-Q${Math.floor((Number(tanggal.slice(5, 7)) - 1) / 3) + 1}`;
+    return tanggal.slice(0, 4);
+};
+
+interface PnlColumn {
+    periode: string;
+    pendapatan: number;
+    hpp: number;
+    labaKotor: number;
+    /** Gross profit as a percentage of revenue; null without revenue. */
+    marginKotor: number | null;
+    /** Operating expenses per category. */
+    biaya: Record<string, number>;
+    totalBiaya: number;
+    labaBersih: number;
+}
+
+const createPnlColumn = (periode: string): PnlColumn => ({
+    periode, pendapatan: 0, hpp: 0, labaKotor: 0, marginKotor: null, biaya: {}, totalBiaya: 0, labaBersih: 0,
+});
+
+/**
+ * Builds a profit and loss statement with one column per period that has sales, returns or expenses,
+ * plus a total column. Revenue and COGS are net of returns; operating expenses come from the ledger.
+ */
+const buildProfitAndLoss = (data: SalesData[], expenses: Expense[], granularity: PnlGranularity): { columns: PnlColumn[], total: PnlColumn, categories: string[] } => {
+    const columns: Record<string, PnlColumn> = {};
+    const total = createPnlColumn('');
+    const getColumn = (tanggal: string) => {
+        const periode = getPnlPeriodKey(tanggal, granularity);
+        return columns[periode] = columns[periode] || createPnlColumn(periode);
+    };
+    for (const item of data) {
+        if (item.jenis_transaksi !== 'penjualan' && item.jenis_transaksi !== 'retur') continue;
+        for (const column of [getColumn(item.tanggal), total]) {
+            column.pendapatan += item.total_penjualan;
+            column.hpp += item.total_biaya;
+        }
+    }
+    for (const expense of expenses) {
+        for (const column of [getColumn(expense.tanggal), total]) {
+            column.biaya[expense.kategori] = (column.biaya[expense.kategori] || 0) + expense.jumlah;
+            column.totalBiaya += expense.jumlah;
+        }
+    }
+    const sorted = Object.values(columns).sort((a, b) => a.periode.localeCompare(b.periode));
+    for (const column of [...sorted, total]) {
+        column.labaKotor = column.pendapatan - column.hpp;
+        column.marginKotor = column.pendapatan !== 0 ? column.labaKotor / column.pendapatan * 100 : null;
+        column.labaBersih = column.labaKotor - column.totalBiaya;
+    }
+    return { columns: sorted, total, categories: Object.keys(total.biaya).sort() };
+};
+
+
+const LANGUAGE_LABELS: Record<Language, string> = {
+    id: 'Bahasa Indonesia',
+    en: 'English',
+};
+
+const LOCALE_OPTIONS = ['id-ID', 'en-US', 'en-GB', 'en-SG', 'ms-MY'];
+
+const CURRENCY_OPTIONS = ['IDR', 'USD', 'SGD', 'MYR', 'EUR'];
+
+const DATE_FORMAT_OPTIONS: DateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks that `value` is an object whose `required` fields have the given types and whose `optional`
+ * fields, when present, do too.
+ */
+const hasFieldTypes = (value: unknown, required: Record<string, FieldType>, optional: Record<string, FieldType> = {}): value is Record<string, any> =>
+    isRecord(value)
+    && Object.entries(required).every(([key, type]) => typeof value[key] === type)
+    && Object.entries(optional).every(([key, type]) => value[key] === undefined || typeof value[key] === type);
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isCurrencyFormatSupported = (locale: string, currency: string): boolean => {
+    try {
+        new Intl.NumberFormat(locale, { style: 'currency', currency });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Reads stored or restored settings field by field. A value of the wrong shape falls back to its
+ * default, so that e.g. an unknown currency cannot stop every amount from being formatted.
+ */
+const normalizeSettings = (stored: unknown): AppSettings => {
+    const raw = isRecord(stored) ? stored : {};
+    const pick = <K extends keyof AppSettings>(key: K, isValid: (value: any) => boolean): AppSettings[K] =>
+        isValid(raw[key]) ? raw[key] : DEFAULT_SETTINGS[key];
+    const profile = isRecord(raw.profil_usaha) ? raw.profil_usaha : {};
+    const locale = pick('locale', value => typeof value === 'string' && isCurrencyFormatSupported(value, DEFAULT_SETTINGS.mata_uang));
+    return {
+        metode_biaya: pick('metode_biaya', value => typeof value === 'string' && Object.hasOwn(COSTING_METHOD_LABELS, value)),
+        daftar_lokasi: pick('daftar_lokasi', isStringList),
+        nama_pengguna: pick('nama_pengguna', value => typeof value === 'string'),
+        pengingat_backup_hari: pick('pengingat_backup_hari', value => Number.isFinite(value) && value >= 0),
+        profil_usaha: {
+            nama: typeof profile.nama === 'string' ? profile.nama : '',
+            alamat: typeof profile.alamat === 'string' ? profile.alamat : '',
+            npwp: typeof profile.npwp === 'string' ? profile.npwp : '',
+            logo: hasFieldTypes(profile.logo, { data: 'string', lebar: 'number', tinggi: 'number' }) ? profile.logo as BusinessProfile['logo'] : null,
+        },
+        bahasa: pick('bahasa', value => typeof value === 'string' && Object.hasOwn(LANGUAGE_LABELS, value)),
+        locale,
+        mata_uang: pick('mata_uang', value => typeof value === 'string' && isCurrencyFormatSupported(locale, value)),
+        format_tanggal: pick('format_tanggal', value => DATE_FORMAT_OPTIONS.includes(value)),
+        tarif_pajak: pick('tarif_pajak', value => Array.isArray(value) && value.every(rate => hasFieldTypes(rate, { nama: 'string', tarif: 'number' }))),
+        pajak_bawaan: pick('pajak_bawaan', value => typeof value === 'string'),
+        harga_termasuk_pajak: pick('harga_termasuk_pajak', value => typeof value === 'boolean'),
+    };
+};
+
+type DisplaySettings = Pick<AppSettings, 'bahasa' | 'locale' | 'mata_uang' | 'format_tanggal'>;
+
+/** The translator and formatters for one set of display settings. */
+interface DisplayFormat {
+    /**
+     * Translates a UI text. Texts are written in Indonesian and double as the translation key, so a text
+     * without an English entry stays Indonesian. `{name}` placeholders are filled in from `params`.
+     */
+    t: (text: string, params?: Record<string, string | number>) => string;
+    formatCurrency: (value: number) => string;
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+    /** Shows a YYYY-MM-DD date (or the date part of a timestamp) in the chosen date format. */
+    formatDate: (isoDate: string) => string;
+    formatDateTime: (timestamp: string) => string;
+}
+
+/**
+ * Builds the translator and formatters for `settings`. Components read the ones for the current settings
+ * from `DisplayFormatContext`; helpers that produce text take them as a parameter.
+ */
+const createDisplayFormat = ({ bahasa, locale, mata_uang, format_tanggal }: DisplaySettings): DisplayFormat => {
+    const t = (text: string, params: Record<string, string | number> = {}): string => {
+        const template = bahasa === 'en' ? (EN_TRANSLATIONS[text] ?? text) : text;
+        return template.replace(/\{(\w+)\}/g, (match, key) => key in params ? String(params[key]) : match);
+    };
+
+    const formatCurrency = (value: number) => {
+        // Rupiah amounts are whole numbers; other currencies keep their usual decimals.
+        const fractionDigits = mata_uang === 'IDR' ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {};
+        return new Intl.NumberFormat(locale, { style: 'currency', currency: mata_uang, ...fractionDigits }).format(value);
+    };
+
+    const formatNumber = (value: number, options: Intl.NumberFormatOptions = {}) => {
+        return new Intl.NumberFormat(locale, options).format(value);
+    };
+
+    const formatDate = (isoDate: string): string => {
+        const [year, month, day] = isoDate.slice(0, 10).split('-');
+        if (!day) return isoDate;
+        switch (format_tanggal) {
+            case 'DD/MM/YYYY': return `${day}/${month}/${year}`;
+            case 'MM/DD/YYYY': return `${month}/${day}/${year}`;
+            default: return `${year}-${month}-${day}`;
+        }
+    };
+
+    const formatDateTime = (timestamp: string): string => {
+        const date = new Date(timestamp);
+        return `${formatDate(toISODate(date))} ${date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })}`;
+    };
+
+    return { t, formatCurrency, formatNumber, formatDate, formatDateTime };
+};
+
+const DisplayFormatContext = createContext<DisplayFormat>(createDisplayFormat(DEFAULT_SETTINGS));
+
+const useDisplayFormat = (): DisplayFormat => useContext(DisplayFormatContext);
+
+/**
+ * Quotes a field when it contains the delimiter, a quote or a line break, doubling inner quotes (RFC 4180).
+ */
+const escapeCSVField = (value: unknown): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",;\t\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const link = document.createElement('a');
+    if (link.href) {
+        URL.revokeObjectURL(link.href);
+    }
+    link.href = URL.createObjectURL(blob);
+    link.setAttribute('download', filename);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+/**
+ * Exports a workbook with the transactions, the current stock levels and a per-product summary.
+ */
+const exportToXLSX = (data: SalesData[], stockLevels: StockLevels, catalog: Product[], filename: string) => {
+    const workbook = XLSX.utils.book_new();
+
+    const transactionRows = data.map(row => CSV_COLUMNS.map(key => row[key] ?? ''));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([CSV_COLUMNS, ...transactionRows]), 'Transaksi');
+
+    // One stock column per location, followed by the consolidated total.
+    const locations = Object.keys(stockLevels);
+    const stockRows = Object.entries(consolidateStockLevels(stockLevels)).map(([name, total]) => {
+        const product = findProduct(catalog, name);
+        return [
+            product?.sku ?? '', name, product?.kategori ?? DEFAULT_CATEGORY, product?.satuan ?? DEFAULT_UNIT,
+            ...locations.map(location => stockLevels[location][name] ?? 0),
+            total,
+        ];
+    });
+    XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([['sku', 'nama_produk', 'kategori', 'satuan', ...locations, 'total_stok'], ...stockRows]),
+        'Stok'
+    );
+
+    const summary: Record<string, { terjual: number; penjualan: number; biaya: number; laba: number }> = {};
+    for (const item of data) {
+        if (item.jenis_transaksi !== 'penjualan' && item.jenis_transaksi !== 'retur') continue;
+        const row = summary[item.nama_produk] = summary[item.nama_produk] || { terjual: 0, penjualan: 0, biaya: 0, laba: 0 };
+        row.terjual += item.jenis_transaksi === 'retur' ? -item.jumlah_masuk : item.jumlah_terjual;
+        row.penjualan += item.total_penjualan;
+        row.biaya += item.total_biaya;
+        row.laba += item.laba;
+    }
+    const summaryRows = Object.entries(summary).map(([name, row]) => [name, row.terjual, row.penjualan, row.biaya, row.laba]);
+    XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([['nama_produk', 'jumlah_terjual', 'total_penjualan', 'total_biaya', 'laba'], ...summaryRows]),
+        'Ringkasan Produk'
+    );
+
+    XLSX.writeFile(workbook, filename);
+};
+
+/**
+ * Builds RFC 4180 CSV text from a header and rows of values.
+ */
+const buildCSV = (header: string[], rows: unknown[][]): string =>
+    [header, ...rows].map(row => row.map(escapeCSVField).join(',')).join('\r\n');
+
+const exportToCSV = (data: SalesData[], filename: string) => {
+    if (data.length === 0) return;
+    const csvContent = buildCSV(CSV_COLUMNS, data.map(row => CSV_COLUMNS.map(key => row[key])));
+    // The BOM lets Excel detect UTF-8; readCSVTable strips it again on import.
+    downloadFile('\uFEFF' + csvContent, filename, 'text/csv;charset=utf-8;');
+};
+
+
+const exportPurchaseList = (suggestions: ReorderSuggestion[], filename: string) => {
+    const header = ['sku', 'nama_produk', 'satuan', 'stok_saat_ini', 'stok_minimum', 'titik_pesan_ulang', 'stok_target', 'jumlah_pesan', 'harga_beli', 'estimasi_biaya'];
+    const rows = suggestions.map(item => [
+        item.sku, item.product, item.unit, item.stock, item.rule.minimum, item.rule.reorderPoint, item.rule.target,
+        item.quantity, item.unitCost, item.quantity * item.unitCost,
+    ]);
+    downloadFile('\uFEFF' + buildCSV(header, rows), filename, 'text/csv;charset=utf-8;');
+};
+
+const exportTaxReport = (rows: TaxReportRow[], filename: string) => {
+    const header = ['periode', 'tarif_pajak', 'jumlah_transaksi', 'penjualan_bruto', 'diskon', 'dpp', 'pajak', 'total'];
+    downloadFile(
+        '\uFEFF' + buildCSV(header, rows.map(row => [row.periode, row.tarif, row.transaksi, row.bruto, row.diskon, row.dpp, row.pajak, row.total])),
+        filename,
+        'text/csv;charset=utf-8;'
+    );
+};
+
+const exportAbcAnalysis = (rows: AbcRow[], filename: string) => {
+    const header = [
+        'sku', 'nama_produk', 'kategori', 'unit_terjual', 'penjualan', 'persen_penjualan', 'kelas_penjualan',
+        'laba', 'persen_laba', 'kelas_laba', 'stok', 'penjualan_terakhir', 'hari_sejak_penjualan', 'status_pergerakan',
+    ];
+    const csvRows = rows.map(row => [
+        row.sku, row.product, row.category, row.units, row.penjualan, roundMoney(row.share.penjualan), row.abcClass.penjualan,
+        row.laba, roundMoney(row.share.laba), row.abcClass.laba, row.stock, row.lastSale ?? '', row.daysSinceSale ?? '', row.movement,
+    ]);
+    downloadFile('\uFEFF' + buildCSV(header, csvRows), filename, 'text/csv;charset=utf-8;');
+};
+
+const exportProfitAndLoss = (columns: PnlColumn[], total: PnlColumn, categories: string[], filename: string) => {
+    const all = [...columns, total];
+    const row = (label: string, value: (column: PnlColumn) => number | null) => [label, ...all.map(column => value(column) ?? '')];
+    const rows = [
+        row('pendapatan', column => column.pendapatan),
+        row('hpp', column => column.hpp),
+        row('laba_kotor', column => column.labaKotor),
+        row('margin_kotor_persen', column => column.marginKotor === null ? null : roundMoney(column.marginKotor)),
+        ...categories.map(category => row(`biaya_${category}`, column => column.biaya[category] || 0)),
+        row('total_biaya_operasional', column => column.totalBiaya),
+        row('laba_bersih', column => column.labaBersih),
+    ];
+    downloadFile('\uFEFF' + buildCSV(['pos', ...columns.map(column => column.periode), 'total'], rows), filename, 'text/csv;charset=utf-8;');
+};
+
+const PDF_PAGE_WIDTH = 595; // A4 in points
+const PDF_PAGE_HEIGHT = 842;
+const PDF_MARGIN = 50;
+
+// Helvetica glyph widths (per 1000 units) for the characters that appear in amounts and dates.
+const PDF_CHAR_WIDTHS: Record<string, number> = { ' ': 278, '\u00A0': 278, '.': 278, ',': 278, '/': 278, ':': 278, '-': 333, 'R': 722, 'p': 556 };
+
+const getPdfTextWidth = (text: string, size: number): number =>
+    [...text].reduce((acc, char) => acc + (PDF_CHAR_WIDTHS[char] ?? 556), 0) * size / 1000;
+
+/**
+ * Escapes a string for a PDF literal. The built-in fonts only cover Latin-1, so anything else becomes "?".
+ */
+const escapePdfText = (text: string): string =>
+    text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?').replace(/([\\()])/g, '\\$1');
+
+const encodeLatin1 = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+/**
+ * Writes a minimal PDF: one content stream per page, the standard Helvetica fonts and an optional JPEG
+ * drawn as /Im1. Needs no fonts or libraries, so it also works offline.
+ */
+const buildPdf = (pageContents: string[], image: BusinessProfile['logo']): Uint8Array => {
+    const objects: Uint8Array[][] = [];
+    const addObject = (...chunks: (string | Uint8Array)[]) => {
+        objects.push(chunks.map(chunk => typeof chunk === 'string' ? encodeLatin1(chunk) : chunk));
+    };
+    const firstPageId = image ? 6 : 5;
+    const pageIds = pageContents.map((_, i) => firstPageId + i * 2);
+
+    addObject('<< /Type /Catalog /Pages 2 0 R >>');
+    addObject(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    if (image) {
+        const bytes = encodeLatin1(atob(image.data.split(',')[1]));
+        addObject(
+            `<< /Type /XObject /Subtype /Image /Width ${image.lebar} /Height ${image.tinggi} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${bytes.length} >>\nstream\n`,
+            bytes,
+            '\nendstream'
+        );
+    }
+    const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >>${image ? ' /XObject << /Im1 5 0 R >>' : ''} >>`;
+    pageContents.forEach((content, i) => {
+        const stream = encodeLatin1(content);
+        addObject(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources ${resources} /Contents ${pageIds[i] + 1} 0 R >>`);
+        addObject(`<< /Length ${stream.length} >>\nstream\n`, stream, '\nendstream');
+    });
+
+    const parts: Uint8Array[] = [encodeLatin1('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')];
+    let offset = parts[0].length;
+    const offsets: number[] = [];
+    objects.forEach((chunks, i) => {
+        offsets.push(offset);
+        for (const chunk of [encodeLatin1(`${i + 1} 0 obj\n`), ...chunks, encodeLatin1('\nendobj\n')]) {
+            parts.push(chunk);
+            offset += chunk.length;
+        }
+    });
+    parts.push(encodeLatin1(
+        `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+        + offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')
+        + `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${offset}\n%%EOF\n`
+    ));
+
+    const pdf = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        pdf.set(part, position);
+        position += part.length;
+    }
+    return pdf;
+};
+
+/**
+ * Label, amount and emphasis of the rows below an invoice's lines. Tax is shown as a subtotal plus
+ * PPN when prices exclude it, and as a note under the total when they include it.
+ */
+const getInvoiceTotalRows = (invoice: Invoice, { t }: DisplayFormat): [string, number, boolean][] => {
+    const rows: [string, number, boolean][] = [];
+    if (invoice.pajak && !invoice.harga_termasuk_pajak) {
+        rows.push([t('Subtotal'), invoice.total - invoice.pajak, false], [t('PPN'), invoice.pajak, false]);
+    }
+    rows.push([t('Total'), invoice.total, true]);
+    if (invoice.pajak && invoice.harga_termasuk_pajak) {
+        rows.push([t('Termasuk PPN'), invoice.pajak, false]);
+    }
+    if (invoice.dibayar < invoice.total) {
+        rows.push([t('Dibayar'), invoice.dibayar, false], [t('Sisa Tagihan'), invoice.total - invoice.dibayar, true]);
+    }
+    return rows;
+};
+
+/**
+ * Lays out an invoice or receipt on A4 pages: business header, document details, the item table
+ * (repeated on every page it runs over to) and the totals.
+ */
+const buildInvoicePdf = (invoice: Invoice, profile: BusinessProfile, display: DisplayFormat): Uint8Array => {
+    const { t, formatCurrency, formatNumber, formatDate } = display;
+    const right = PDF_PAGE_WIDTH - PDF_MARGIN;
+    const text = (x: number, y: number, value: string, size = 10, bold = false) =>
+        `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(value)}) Tj ET`;
+    const textRight = (x: number, y: number, value: string, size = 10, bold = false) =>
+        text(x - getPdfTextWidth(value, size), y, value, size, bold);
+    const rule = (y: number) => `0.7 G 0.5 w ${PDF_MARGIN} ${y} m ${right} ${y} l S 0 G`;
+    // A discount column is only added when some line has a discount.
+    const hasDiscount = invoice.baris.some(line => line.diskon);
+    const columns = hasDiscount
+        ? { no: PDF_MARGIN, produk: PDF_MARGIN + 28, jumlah: 290, harga: 375, diskon: 460, total: right }
+        : { no: PDF_MARGIN, produk: PDF_MARGIN + 28, jumlah: 350, harga: 450, diskon: 0, total: right };
+    const maxNameLength = hasDiscount ? 34 : 45;
+
+    const pages: string[][] = [];
+    let ops: string[] = [];
+    let y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+
+    // Header: logo, business details and the document details on the right.
+    let headerX = PDF_MARGIN;
+    if (profile.logo) {
+        const height = 50;
+        const width = Math.min(120, profile.logo.lebar * height / profile.logo.tinggi);
+        ops.push(`q ${width.toFixed(2)} 0 0 ${height} ${PDF_MARGIN} ${y - height} cm /Im1 Do Q`);
+        headerX += width + 12;
+    }
+    const businessLines = [
+        ...profile.alamat.split('\n').filter(line => line.trim()),
+        ...(profile.npwp ? [`NPWP: ${profile.npwp}`] : []),
+    ];
+    ops.push(text(headerX, y - 14, profile.nama || t('Nama Usaha'), 14, true));
+    businessLines.forEach((line, i) => ops.push(text(headerX, y - 30 - i * 12, line, 9)));
+    ops.push(textRight(right, y - 16, t(INVOICE_TYPE_LABELS[invoice.jenis]).toUpperCase(), 16, true));
+    ops.push(textRight(right, y - 34, `No. ${invoice.nomor}`));
+    ops.push(textRight(right, y - 48, `${t('Tanggal')}: ${formatDate(invoice.tanggal)}`));
+    if (invoice.jatuh_tempo) ops.push(textRight(right, y - 62, `${t('Jatuh Tempo')}: ${formatDate(invoice.jatuh_tempo)}`));
+    y -= Math.max(80, 40 + businessLines.length * 12);
+
+    ops.push(rule(y));
+    y -= 20;
+    if (invoice.pelanggan) {
+        ops.push(text(PDF_MARGIN, y, `${t('Kepada')}:`, 10, true), text(PDF_MARGIN + 50, y, invoice.pelanggan));
+        y -= 24;
+    }
+
+    const tableHeader = () => {
+        ops.push(`0.93 g ${PDF_MARGIN} ${y - 6} ${right - PDF_MARGIN} 18 re f 0 g`);
+        ops.push(
+            text(columns.no + 4, y, t('No'), 9, true),
+            text(columns.produk, y, t('Produk'), 9, true),
+            textRight(columns.jumlah, y, t('Jumlah'), 9, true),
+            textRight(columns.harga, y, t('Harga'), 9, true),
+            ...(hasDiscount ? [textRight(columns.diskon, y, t('Diskon'), 9, true)] : []),
+            textRight(columns.total - 4, y, t('Total'), 9, true)
+        );
+        y -= 20;
+    };
+    tableHeader();
+
+    invoice.baris.forEach((line, i) => {
+        if (y < PDF_MARGIN + 100) {
+            pages.push(ops);
+            ops = [];
+            y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+            tableHeader();
+        }
+        ops.push(
+            text(columns.no + 4, y, String(i + 1)),
+            // Long names are cut before they run into the quantity column.
+            text(columns.produk, y, line.nama_produk.length > maxNameLength ? `${line.nama_produk.slice(0, maxNameLength - 3)}...` : line.nama_produk),
+            textRight(columns.jumlah, y, formatNumber(line.jumlah)),
+            textRight(columns.harga, y, formatCurrency(line.harga_jual)),
+            ...(hasDiscount ? [textRight(columns.diskon, y, line.diskon ? formatCurrency(line.diskon) : '-')] : []),
+            textRight(columns.total - 4, y, formatCurrency(line.total))
+        );
+        y -= 18;
+    });
+
+    ops.push(rule(y + 10));
+    y -= 8;
+    getInvoiceTotalRows(invoice, display).forEach(([label, amount, bold]) => {
+        ops.push(textRight(columns.harga, y, label, 10, bold), textRight(columns.total - 4, y, formatCurrency(amount), 10, bold));
+        y -= 16;
+    });
+    ops.push(text(PDF_MARGIN, y - 20, t('Terima kasih atas pembelian Anda.'), 9));
+    pages.push(ops);
+
+    if (pages.length > 1) {
+        pages.forEach((pageOps, i) => pageOps.push(textRight(right, PDF_MARGIN / 2, t('Halaman {halaman} dari {jumlah}', { halaman: i + 1, jumlah: pages.length }), 8)));
+    }
+    return buildPdf(pages.map(pageOps => pageOps.join('\n')), profile.logo);
+};
+
+const getInvoiceFileName = (invoice: Invoice): string => `${invoice.nomor.replace(/\//g, '-')}.pdf`;
+
+/**
+ * Shrinks an uploaded logo and re-encodes it as JPEG (on white, for transparent PNGs) so the PDF can embed it directly.
+ */
+const readLogoFile = (file: File, { t }: DisplayFormat): Promise<BusinessProfile['logo']> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => {
+        const image = new Image();
+        image.onerror = () => reject(new Error(t('File logo bukan gambar yang dapat dibaca.')));
+        image.onload = () => {
+            const scale = Math.min(1, 300 / Math.max(image.width, image.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(image.width * scale));
+            canvas.height = Math.max(1, Math.round(image.height * scale));
+            const context = canvas.getContext('2d');
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, canvas.width, canvas.height);
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+            resolve({ data: canvas.toDataURL('image/jpeg', 0.9), lebar: canvas.width, tinggi: canvas.height });
+        };
+        image.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+});
+
+const BACKUP_FORMAT = 'erp-penjualan-backup';
+const BACKUP_VERSION = 1;
+
+type RestoreMode = 'ganti' | 'gabung';
+
+const createBackup = (workspace: WorkspaceState): WorkspaceBackup => ({
+    format: BACKUP_FORMAT,
+    versi: BACKUP_VERSION,
+    dibuat: new Date().toISOString(),
+    transaksi: workspace.data,
+    stok_awal: workspace.stocks,
+    katalog: workspace.catalog,
+    pengaturan: workspace.settings,
+    preset_pemetaan: workspace.presets,
+    riwayat_impor: workspace.batches,
+    pelanggan: workspace.customers,
+    faktur: workspace.invoices,
+    biaya_operasional: workspace.expenses,
+});
+
+const isValidDate = (value: unknown): boolean => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+// Checks only what restoring relies on; `normalizeTransaction` fills in what older versions did not record.
+const isBackupTransaction = (row: unknown): row is SalesData =>
+    isRecord(row) && typeof row.id === 'string' && typeof row.nama_produk === 'string' && isValidDate(row.tanggal)
+    && NUMERIC_COLUMNS.every(key => row[key] === undefined || typeof row[key] === 'number');
+
+// The list sections of a backup, with the check each item must pass before the backup can be restored.
+const BACKUP_SECTIONS: { key: keyof WorkspaceBackup; label: string; isValid: (item: unknown) => boolean }[] = [
+    {
+        key: 'katalog',
+        label: 'Katalog produk',
+        isValid: item => hasFieldTypes(
+            item,
+            { sku: 'string', nama: 'string', kategori: 'string', satuan: 'string', harga_beli_default: 'number', harga_jual_default: 'number', aktif: 'boolean' },
+            { stok_minimum: 'number', titik_pesan_ulang: 'number', stok_target: 'number' }
+        ),
+    },
+    {
+        key: 'preset_pemetaan',
+        label: 'Preset pemetaan',
+        isValid: item => hasFieldTypes(item, { nama: 'string' })
+            && isStringList(item.kolom_sumber)
+            && isRecord(item.mapping) && Object.values(item.mapping).every(column => typeof column === 'string'),
+    },
+    {
+        key: 'riwayat_impor',
+        label: 'Riwayat Impor',
+        isValid: item => hasFieldTypes(item, { id: 'string', nama_file: 'string', tanggal_impor: 'string', jumlah_baris: 'number' })
+            && (item.pelanggan_baru === undefined || isStringList(item.pelanggan_baru)),
+    },
+    {
+        key: 'pelanggan',
+        label: 'Daftar Pelanggan',
+        isValid: item => hasFieldTypes(item, { id: 'string', nama: 'string', telepon: 'string', alamat: 'string', tempo_hari: 'number' }),
+    },
+    {
+        key: 'faktur',
+        label: 'Faktur & Struk',
+        isValid: item => hasFieldTypes(
+            item,
+            { id: 'string', nomor: 'string', total: 'number', dibayar: 'number' },
+            { pelanggan: 'string', jatuh_tempo: 'string', pajak: 'number', harga_termasuk_pajak: 'boolean' }
+        )
+            && typeof item.jenis === 'string' && Object.hasOwn(INVOICE_TYPE_LABELS, item.jenis)
+            && isValidDate(item.tanggal)
+            && isStringList(item.transaksi)
+            && Array.isArray(item.baris) && item.baris.every((line: unknown) => hasFieldTypes(
+                line,
+                { nama_produk: 'string', jumlah: 'number', harga_jual: 'number', total: 'number' },
+                { diskon: 'number' }
+            )),
+    },
+    {
+        key: 'biaya_operasional',
+        label: 'Biaya Operasional',
+        isValid: item => hasFieldTypes(item, { id: 'string', kategori: 'string', keterangan: 'string', jumlah: 'number' }) && isValidDate(item.tanggal),
+    },
+];
+
+/**
+ * Reads and validates a backup file. Backups from older versions are brought up to the current shape;
+ * anything that is not a backup of this app, or is newer than this app understands, is rejected.
+ */
+const parseBackup = (text: string, { t }: DisplayFormat): { backup: WorkspaceBackup | null, error: string | null } => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return { backup: null, error: t('File bukan file backup yang valid (JSON tidak dapat dibaca).') };
+    }
+    if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+        return { backup: null, error: t('File ini bukan file backup dari Dashboard ERP Penjualan.') };
+    }
+    if (typeof raw.versi !== 'number' || raw.versi > BACKUP_VERSION) {
+        return { backup: null, error: t('Versi backup {versi} tidak didukung. Perbarui aplikasi untuk memulihkan file ini.', { versi: raw.versi }) };
+    }
+    if (!Array.isArray(raw.transaksi)) {
+        return { backup: null, error: t('File backup tidak berisi daftar transaksi.') };
+    }
+
+    const invalidIndex = raw.transaksi.findIndex((row: unknown) => !isBackupTransaction(row));
+    if (invalidIndex !== -1) {
+        return { backup: null, error: t('Transaksi ke-{nomor} pada file backup tidak valid.', { nomor: invalidIndex + 1 }) };
+    }
+
+    const stocks = raw.stok_awal === undefined ? {} : raw.stok_awal;
+    if (!isRecord(stocks)) {
+        return { backup: null, error: t('Bagian "{bagian}" pada file backup tidak valid.', { bagian: t('Stok awal') }) };
+    }
+    const stockLevels = normalizeStockLevels(stocks);
+    if (!Object.values(stockLevels).every(levels => isRecord(levels) && Object.values(levels).every(value => Number.isFinite(value)))) {
+        return { backup: null, error: t('Bagian "{bagian}" pada file backup tidak valid.', { bagian: t('Stok awal') }) };
+    }
+
+    // Each item has passed its section's check.
+    const sections: Record<string, unknown[]> = {};
+    for (const { key, label, isValid } of BACKUP_SECTIONS) {
+        // Backups made before a section existed leave it out.
+        const items = raw[key] === undefined ? [] : raw[key];
+        if (!Array.isArray(items)) {
+            return { backup: null, error: t('Bagian "{bagian}" pada file backup tidak valid.', { bagian: t(label) }) };
+        }
+        const invalidItem = items.findIndex(item => !isValid(item));
+        if (invalidItem !== -1) {
+            return { backup: null, error: t('Data ke-{nomor} pada bagian "{bagian}" file backup tidak valid.', { nomor: invalidItem + 1, bagian: t(label) }) };
+        }
+        sections[key] = items;
+    }
+
+    return {
+        backup: {
+            format: BACKUP_FORMAT,
+            versi: BACKUP_VERSION,
+            dibuat: typeof raw.dibuat === 'string' ? raw.dibuat : '',
+            transaksi: raw.transaksi.map(normalizeTransaction),
+            stok_awal: stockLevels,
+            katalog: sections.katalog as Product[],
+            pengaturan: normalizeSettings(raw.pengaturan),
+            preset_pemetaan: sections.preset_pemetaan as ColumnMappingPreset[],
+            riwayat_impor: sections.riwayat_impor as ImportBatch[],
+            pelanggan: sections.pelanggan as Customer[],
+            faktur: sections.faktur as Invoice[],
+            biaya_operasional: sections.biaya_operasional as Expense[],
+        },
+        error: null,
+    };
+};
+
+/**
+ * Merges the invoices of a backup into the current ones by id, the backup's copy winning. Numbers restart
+ * per workspace, so a backup invoice whose number is already taken by another document gets the next free one.
+ */
+const mergeInvoices = (current: Invoice[], incoming: Invoice[]): { invoices: Invoice[], renumbered: { dari: string; ke: string }[] } => {
+    const invoices = [...applyCollectionChange(current, [], incoming.filter(invoice => current.some(i => i.id === invoice.id)), getInvoiceKey)];
+    const renumbered: { dari: string; ke: string }[] = [];
+    for (const invoice of incoming) {
+        if (current.some(i => i.id === invoice.id)) continue;
+        if (!invoices.some(i => i.nomor === invoice.nomor)) {
+            invoices.push(invoice);
+            continue;
+        }
+        const nomor = getNextInvoiceNumber(invoices, invoice.jenis, invoice.tanggal);
+        renumbered.push({ dari: invoice.nomor, ke: nomor });
+        invoices.push({ ...invoice, nomor });
+    }
+    return { invoices, renumbered };
+};
+
+/**
+ * Builds the workspace that restoring `backup` would produce. Replacing takes the backup as is;
+ * merging keeps the current workspace and adds the backup on top, with the backup's version of a
+ * transaction, initial stock or invoice winning where both have one. Settings are kept on a merge,
+ * apart from the backup's locations being added.
+ */
+const buildRestoredWorkspace = (current: WorkspaceState, backup: WorkspaceBackup, mode: RestoreMode): WorkspaceState => {
+    if (mode === 'ganti') {
+        return {
+            data: backup.transaksi,
+            stocks: backup.stok_awal,
+            catalog: backup.katalog,
+            batches: backup.riwayat_impor,
+            settings: backup.pengaturan,
+            presets: backup.preset_pemetaan,
+            customers: backup.pelanggan,
+            invoices: backup.faktur,
+            expenses: backup.biaya_operasional,
+        };
+    }
+    const backupIds = new Set(backup.transaksi.map(item => item.id));
+    const batchIds = new Set(current.batches.map(batch => batch.id));
+    return {
+        data: [...current.data.filter(item => !backupIds.has(item.id)), ...backup.transaksi],
+        stocks: mergeStockLevels(current.stocks, backup.stok_awal),
+        catalog: [...current.catalog, ...backup.katalog.filter(product => !findProduct(current.catalog, product.nama) && !findProduct(current.catalog, product.sku))],
+        batches: [...current.batches, ...backup.riwayat_impor.filter(batch => !batchIds.has(batch.id))],
+        settings: { ...current.settings, daftar_lokasi: [...new Set([...current.settings.daftar_lokasi, ...backup.pengaturan.daftar_lokasi])] },
+        presets: [...current.presets, ...backup.preset_pemetaan.filter(preset => !current.presets.some(p => p.nama === preset.nama))],
+        customers: [...current.customers, ...backup.pelanggan.filter(customer => !findCustomer(current.customers, customer.nama))],
+        invoices: mergeInvoices(current.invoices, backup.faktur).invoices,
+        expenses: [...current.expenses, ...backup.biaya_operasional.filter(expense => !current.expenses.some(e => e.id === expense.id))],
+    };
+};
+
+interface RestoreSummary {
+    added: number;
+    changed: number;
+    removed: number;
+    newProducts: number;
+    stockChanges: number;
+}
+
+const summarizeRestore = (current: WorkspaceState, restored: WorkspaceState): RestoreSummary => {
+    const { sebelum, sesudah } = diffWorkspace(current, restored);
+    const beforeIds = new Set(sebelum.transaksi.map(item => item.id));
+    const afterIds = new Set(sesudah.transaksi.map(item => item.id));
+    const before = current.stocks;
+    const after = restored.stocks;
+    let stockChanges = 0;
+    for (const location of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        for (const product of new Set([...Object.keys(before[location] || {}), ...Object.keys(after[location] || {})])) {
+            if (before[location]?.[product] !== after[location]?.[product]) stockChanges++;
+        }
+    }
+    return {
+        added: sesudah.transaksi.filter(item => !beforeIds.has(item.id)).length,
+        changed: sesudah.transaksi.filter(item => beforeIds.has(item.id)).length,
+        removed: sebelum.transaksi.filter(item => !afterIds.has(item.id)).length,
+        newProducts: restored.catalog.filter(product => !findProduct(current.catalog, product.nama)).length,
+        stockChanges,
+    };
+};
+
+const isBackupDue = (lastBackup: string | null, reminderDays: number, today: Date = new Date()): boolean => {
+    if (reminderDays <= 0) return false;
+    if (!lastBackup) return true;
+    return today.getTime() - new Date(lastBackup).getTime() >= reminderDays * 24 * 60 * 60 * 1000;
+};
+
+
+// --- Storage ---
+
+const DB_NAME = 'erpDashboard';
+const DB_VERSION = 1;
+const STORE_TRANSACTIONS = 'transaksi';
+// Everything else (initial stock, catalog, settings, ...) is one record per storage key.
+const STORE_VALUES = 'nilai';
+
+const STORED_VALUE_KEYS = [
+    STORAGE_KEY_STOCK,
+    STORAGE_KEY_PRODUCTS,
+    STORAGE_KEY_MAPPING_PRESETS,
+    STORAGE_KEY_BATCHES,
+    STORAGE_KEY_SETTINGS,
+    STORAGE_KEY_AUDIT_LOG,
+    STORAGE_KEY_LAST_BACKUP,
+    STORAGE_KEY_CUSTOMERS,
+    STORAGE_KEY_INVOICES,
+    STORAGE_KEY_EXPENSES,
+];
+
+/**
+ * Schema migrations keyed by the version they upgrade to. They run in order inside the upgrade
+ * transaction, so bumping `DB_VERSION` only needs a new entry here.
+ */
+const DB_MIGRATIONS: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+    1: (db) => {
+        const transactions = db.createObjectStore(STORE_TRANSACTIONS, { keyPath: 'id' });
+        transactions.createIndex('tanggal', 'tanggal');
+        transactions.createIndex('nama_produk', 'nama_produk');
+        db.createObjectStore(STORE_VALUES);
+    },
+};
+
+/** A transaction as stored; `urutan` keeps the order of same-day rows across reloads. */
+type StoredTransaction = SalesData & { urutan?: number };
+
+/**
+ * Gives each transaction the sequence number it is stored with. Stored rows are read back in sequence
+ * order and then sorted by date, so within a date the sequence has to follow `data`. New rows, and rows
+ * that would land out of order (e.g. moved to another date), get a number after every one in use.
+ */
+const assignStorageSequence = (data: SalesData[], stored: StoredTransaction[]): StoredTransaction[] => {
+    const previous = new Map(stored.map(item => [item.id, item.urutan]));
+    let lastSequence = stored.reduce((max, item) => Math.max(max, item.urutan ?? 0), 0);
+    const lastByDate = new Map<number, number>();
+    return data.map(item => {
+        const time = new Date(item.tanggal).getTime();
+        let urutan = previous.get(item.id);
+        if (urutan === undefined || urutan <= (lastByDate.get(time) ?? -Infinity)) urutan = ++lastSequence;
+        lastByDate.set(time, urutan);
+        return { ...item, urutan };
+    });
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+                    DB_MIGRATIONS[version](request.result, request.transaction);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+    return databasePromise;
+};
+
+/**
+ * Moves a workspace saved by earlier versions (JSON blobs in localStorage) into IndexedDB.
+ * The localStorage keys are only removed once the copy has been committed, so this runs once.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+    const legacyData = localStorage.getItem(STORAGE_KEY_DATA);
+    const legacyValues = STORED_VALUE_KEYS
+        .map(key => [key, localStorage.getItem(key)] as const)
+        .filter(([, value]) => value !== null);
+    if (legacyData === null && legacyValues.length === 0) return;
+
+    const transaction = db.transaction([STORE_TRANSACTIONS, STORE_VALUES], 'readwrite');
+    const transactions = transaction.objectStore(STORE_TRANSACTIONS);
+    (legacyData ? JSON.parse(legacyData) : []).forEach((row: SalesData, index: number) => {
+        transactions.put({ ...row, id: row.id || `id_migrasi_${index}`, urutan: index + 1 });
+    });
+    for (const [key, value] of legacyValues) {
+        transaction.objectStore(STORE_VALUES).put(JSON.parse(value), key);
+    }
+    await transactionDone(transaction);
+
+    [STORAGE_KEY_DATA, ...STORED_VALUE_KEYS].forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Reads the whole workspace: every stored transaction in the order it was saved, and every stored value by key.
+ * The store itself is read rather than the `tanggal` index, which leaves out rows without a valid date.
+ */
+const loadStoredWorkspace = async (): Promise<{ data: StoredTransaction[], values: Record<string, unknown> }> => {
+    const db = await openDatabase();
+    await migrateFromLocalStorage(db);
+
+    const transaction = db.transaction([STORE_TRANSACTIONS, STORE_VALUES], 'readonly');
+    const valueStore = transaction.objectStore(STORE_VALUES);
+    const [data, keys, values] = await Promise.all([
+        requestToPromise<StoredTransaction[]>(transaction.objectStore(STORE_TRANSACTIONS).getAll()),
+        requestToPromise(valueStore.getAllKeys()),
+        requestToPromise(valueStore.getAll()),
+    ]);
+    // Rows saved before sequence numbers existed come first, in key order.
+    data.sort((a, b) => (a.urutan ?? 0) - (b.urutan ?? 0));
+    return { data, values: Object.fromEntries(keys.map((key, index) => [String(key), values[index]])) };
+};
+
+const saveStoredValue = async (key: string, value: unknown) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_VALUES, 'readwrite');
+    transaction.objectStore(STORE_VALUES).put(value, key);
+    await transactionDone(transaction);
+};
+
+/**
+ * Writes only the transaction records that differ between what is stored and the new data,
+ * and deletes the ones that are gone.
+ */
+const saveTransactionChanges = async (stored: StoredTransaction[], next: StoredTransaction[]) => {
+    const storedRows = new Map(stored.map(item => [item.id, JSON.stringify(item)]));
+    const nextIds = new Set(next.map(item => item.id));
+    const changed = next.filter(item => storedRows.get(item.id) !== JSON.stringify(item));
+    const removed = stored.filter(item => !nextIds.has(item.id));
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_TRANSACTIONS, 'readwrite');
+    const store = transaction.objectStore(STORE_TRANSACTIONS);
+    changed.forEach(item => store.put(item));
+    removed.forEach(item => store.delete(item.id));
+    await transactionDone(transaction);
+};
+
+
+// --- SVG Icons ---
+
+const MoneyIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 6V5m0 14v-1m-7-7h14" />
+    </svg>
+);
+
+const ChartBarIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+    </svg>
+);
+
+const StarIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.364 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.196-1.538-1.118l1.518-4.674a1 1 0 00-.364-1.118L2.98 9.11c-.783-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+    </svg>
+);
+
+const ArchiveIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-1.414 1.414a1 1 0 01-1.414 0l-1.414-1.414a1 1 0 00-.707-.293H8m12 0a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7a2 2 0 002 2h2.586a1 1 0 00.707-.293l1.414-1.414a1 1 0 011.414 0l1.414 1.414a1 1 0 00.707.293H18a2 2 0 002-2z" />
+    </svg>
+);
+
+const TruckIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path d="M9 17a2 2 0 11-4 0 2 2 0 014 0zM19 17a2 2 0 11-4 0 2 2 0 014 0z" />
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0" />
+    </svg>
+);
+
+const ChevronUpIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+    </svg>
+);
+
+const ChevronDownIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+    </svg>
+);
+
+// --- Components ---
+
+const SummaryCard = ({ title, value, icon, color, delta = null }: { title: string; value: string; icon: React.ReactNode; color: string; delta?: number | null }) => {
+    const { t, formatNumber } = useDisplayFormat();
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg flex items-center space-x-4">
+            <div className={`p-3 rounded-full ${color}`}>
+                {icon}
+            </div>
+            <div>
+                <p className="text-slate-500 text-sm font-medium">{title}</p>
+                <p className="text-2xl font-bold text-slate-800">{value}</p>
+                {delta !== null && (
+                    <p className={`text-xs font-semibold ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {delta >= 0 ? '▲' : '▼'} {t('{persen}% vs periode sebelumnya', { persen: formatNumber(Math.round(Math.abs(delta) * 10) / 10) })}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const SalesTrendChart = ({ data, catalog }: { data: SalesData[]; catalog: Product[] }) => {
+    const { t, formatCurrency, formatNumber, formatDate } = useDisplayFormat();
+    const [granularity, setGranularity] = useState<TimeGranularity>('hari');
+    const [filter, setFilter] = useState('');
+    const [showMovingAverage, setShowMovingAverage] = useState(true);
+    const [movingAverageWindow, setMovingAverageWindow] = useState(7);
+
+    const series: TimeSeriesPoint[] = useMemo(() => {
+        // The filter value is either "produk:<name>" or "kategori:<category>".
+        const [filterType, filterValue] = filter.split(/:(.*)/s);
+        const selected = data.filter(item => {
+            if (filterType === 'produk') return item.nama_produk === filterValue;
+            if (filterType === 'kategori') return getProductCategory(catalog, item.nama_produk) === filterValue;
+            return true;
+        });
+        const points = buildTimeSeries(selected, granularity);
+        return showMovingAverage ? addMovingAverage(points, movingAverageWindow) : points;
+    }, [data, catalog, granularity, filter, showMovingAverage, movingAverageWindow]);
+
+    const categories = [...new Set(catalog.map(p => p.kategori))].sort();
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h3 className="text-xl font-bold text-slate-800">{t('Tren Penjualan & Laba')}</h3>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <select value={granularity} onChange={(e) => setGranularity(e.target.value as TimeGranularity)} className="px-2 py-1 border border-slate-300 rounded-md">
+                        <option value="hari">{t('Harian')}</option>
+                        <option value="minggu">{t('Mingguan')}</option>
+                        <option value="bulan">{t('Bulanan')}</option>
+                    </select>
+                    <select value={filter} onChange={(e) => setFilter(e.target.value)} className="px-2 py-1 border border-slate-300 rounded-md">
+                        <option value="">{t('Semua Produk')}</option>
+                        <optgroup label={t('Kategori')}>
+                            {categories.map(c => <option key={c} value={`kategori:${c}`}>{c}</option>)}
+                        </optgroup>
+                        <optgroup label={t('Produk')}>
+                            {catalog.map(p => <option key={p.sku} value={`produk:${p.nama}`}>{p.nama}</option>)}
+                        </optgroup>
+                    </select>
+                    <label className="flex items-center gap-1 text-slate-700">
+                        <input type="checkbox" checked={showMovingAverage} onChange={(e) => setShowMovingAverage(e.target.checked)} />
+                        {t('Rata-rata bergerak')}
+                    </label>
+                    {showMovingAverage && (
+                        <input
+                            type="number"
+                            min="2"
+                            value={movingAverageWindow}
+                            onChange={(e) => setMovingAverageWindow(Math.max(2, parseInt(e.target.value, 10) || 2))}
+                            className="w-16 px-2 py-1 border border-slate-300 rounded-md"
+                            title={t('Jumlah periode')}
+                        />
+                    )}
+                </div>
+            </div>
+            {series.length > 0 ? (
+                <ResponsiveContainer width="100%" height={350}>
+                    <ComposedChart data={series} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="period" tickFormatter={(period: string) => granularity === 'bulan' ? period : formatDate(period)} />
+                        <YAxis yAxisId="nilai" />
+                        <YAxis yAxisId="unit" orientation="right" />
+                        <Tooltip
+                            labelFormatter={(period: string) => granularity === 'bulan' ? period : formatDate(period)}
+                            formatter={(value: number, name: string) => name === t('Unit Terjual') ? formatNumber(value) : formatCurrency(value)}
+                        />
+                        <Legend />
+                        <Bar yAxisId="unit" dataKey="unit" fill="#cbd5e1" name={t('Unit Terjual')} />
+                        <Line yAxisId="nilai" type="monotone" dataKey="penjualan" stroke="#8884d8" name={t('Penjualan')} dot={false} />
+                        <Line yAxisId="nilai" type="monotone" dataKey="laba" stroke="#82ca9d" name={t('Laba')} dot={false} />
+                        {showMovingAverage && (
+                            <Line yAxisId="nilai" type="monotone" dataKey="rataRata" stroke="#f97316" strokeDasharray="5 5" name={t('Rata-rata {jumlah} Periode', { jumlah: movingAverageWindow })} dot={false} />
+                        )}
+                    </ComposedChart>
+                </ResponsiveContainer>
+            ) : (
+                <p className="text-slate-500 italic text-center py-12">{t('Belum ada penjualan pada periode ini.')}</p>
+            )}
+        </div>
+    );
+};
+
+const DateRangeSelector = ({ value, onChange }: { value: DateRangeFilter; onChange: (filter: DateRangeFilter) => void }) => {
+    const { t } = useDisplayFormat();
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select
+                value={value.preset}
+                onChange={(e) => onChange({ ...value, preset: e.target.value as DateRangePreset })}
+                className="px-3 py-2 text-sm border border-slate-300 rounded-md bg-white shadow-sm"
+            >
+                {(Object.keys(DATE_RANGE_LABELS) as DateRangePreset[]).map(preset => (
+                    <option key={preset} value={preset}>{t(DATE_RANGE_LABELS[preset])}</option>
+                ))}
+            </select>
+            {value.preset === 'kustom' && (
+                <>
+                    <input
+                        type="date"
+                        value={value.start}
+                        onChange={(e) => onChange({ ...value, start: e.target.value })}
+                        className="px-2 py-2 text-sm border border-slate-300 rounded-md bg-white shadow-sm"
+                    />
+                    <span className="text-slate-500">{t('s/d')}</span>
+                    <input
+                        type="date"
+                        value={value.end}
+                        onChange={(e) => onChange({ ...value, end: e.target.value })}
+                        className="px-2 py-2 text-sm border border-slate-300 rounded-md bg-white shadow-sm"
+                    />
+                </>
+            )}
+        </div>
+    );
+};
+
+interface StockStatusItem {
+    product: string;
+    stock: number;
+    category: string;
+    belowMinimum?: boolean;
+}
+
+const StockStatusList = ({ items, groupByCategory, itemClassName, emptyMessage }: { items: StockStatusItem[]; groupByCategory: boolean; itemClassName: string; emptyMessage: string }) => {
+    const { t, formatNumber } = useDisplayFormat();
+    if (items.length === 0) {
+        return <p className="text-slate-500 italic text-center py-4">{emptyMessage}</p>;
+    }
+
+    const renderItem = (item: StockStatusItem) => (
+        <li key={item.product} className={`flex justify-between p-2 rounded ${itemClassName}`}>
+            <span className="font-medium">
+                {item.product}
+                {item.belowMinimum && item.stock > 0 && <span className="ml-2 text-xs font-semibold text-red-600">{t('di bawah minimum')}</span>}
+            </span>
+            <span className="font-bold">{formatNumber(item.stock)}</span>
+        </li>
+    );
+
+    if (!groupByCategory) {
+        return <ul className="space-y-2 text-sm max-h-48 overflow-y-auto pr-2">{items.map(renderItem)}</ul>;
+    }
+
+    const groups: Record<string, StockStatusItem[]> = {};
+    for (const item of items) {
+        (groups[item.category] = groups[item.category] || []).push(item);
+    }
+
+    return (
+        <div className="text-sm max-h-48 overflow-y-auto pr-2 space-y-3">
+            {Object.keys(groups).sort().map(category => (
+                <div key={category}>
+                    <p className="text-xs font-semibold uppercase text-slate-500 mb-1">{category}</p>
+                    <ul className="space-y-2">{groups[category].map(renderItem)}</ul>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const GroupBySelect = ({ value, onChange }) => {
+    const { t } = useDisplayFormat();
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="px-2 py-1 text-sm border border-slate-300 rounded-md"
+        >
+            <option value="produk">{t('Per Produk')}</option>
+            <option value="kategori">{t('Per Kategori')}</option>
+        </select>
+    );
+};
+
+/**
+ * Product x location stock matrix with a consolidated total per product.
+ */
+const StockByLocationTable = ({ stockLevels, locations }: { stockLevels: StockLevels; locations: string[] }) => {
+    const { t, formatNumber } = useDisplayFormat();
+    const totals = consolidateStockLevels(stockLevels);
+    const products = Object.keys(totals).sort((a, b) => a.localeCompare(b));
+
+    return (
+        <div className="overflow-x-auto mt-6">
+            <h4 className="font-semibold text-slate-700 mb-3">{t('Stok per Lokasi')}</h4>
+            <table className="w-full text-sm text-left text-slate-500">
+                <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                    <tr>
+                        <th scope="col" className="px-4 py-2">{t('Produk')}</th>
+                        {locations.map(location => <th key={location} scope="col" className="px-4 py-2 text-right">{location}</th>)}
+                        <th scope="col" className="px-4 py-2 text-right">{t('Total')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {products.map(product => (
+                        <tr key={product} className="border-b">
+                            <td className="px-4 py-2 font-medium text-slate-900 whitespace-nowrap">{product}</td>
+                            {locations.map(location => {
+                                const stock = stockLevels[location]?.[product] ?? 0;
+                                return (
+                                    <td key={location} className={`px-4 py-2 text-right ${stock <= 0 ? 'text-red-600' : ''}`}>{formatNumber(stock)}</td>
+                                );
+                            })}
+                            <td className="px-4 py-2 text-right font-bold text-slate-800">{formatNumber(totals[product])}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const WEEKDAY_LABELS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+const DemandForecastTable = ({ forecasts, referenceDate }: { forecasts: DemandForecast[]; referenceDate: string }) => {
+    const { t, formatNumber, formatDate } = useDisplayFormat();
+    // Products running out soonest first; products without sales last.
+    const sorted = [...forecasts].sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity));
+    const formatRate = (value: number) => formatNumber(value, { maximumFractionDigits: 1 });
+
+    return (
+        <div className="overflow-x-auto mt-6">
+            <h4 className="font-semibold text-slate-700 mb-1">{t('Perkiraan Ketahanan Stok')}</h4>
+            <p className="text-xs text-slate-500 mb-3">
+                {t('Berdasarkan penjualan {hari} hari terakhir s.d. {tanggal}, dengan pola penjualan per hari dalam seminggu.', { hari: FORECAST_HISTORY_DAYS, tanggal: formatDate(referenceDate) })}
+            </p>
+            <table className="w-full text-sm text-left text-slate-500">
+                <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                    <tr>
+                        <th scope="col" className="px-4 py-2">{t('Produk')}</th>
+                        <th scope="col" className="px-4 py-2 text-right">{t('Stok')}</th>
+                        <th scope="col" className="px-4 py-2 text-right">{t('Rata-rata / Hari')}</th>
+                        <th scope="col" className="px-4 py-2 text-right">{t('Rata-rata {hari} Hari', { hari: FORECAST_MOVING_AVERAGE_DAYS })}</th>
+                        <th scope="col" className="px-4 py-2 text-right">{t('Prakiraan / Hari')}</th>
+                        <th scope="col" className="px-4 py-2 text-right">{t('Cukup Untuk')}</th>
+                        <th scope="col" className="px-4 py-2">{t('Perkiraan Habis')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {sorted.map(forecast => {
+                        const peakWeekday = forecast.weekdayFactors.indexOf(Math.max(...forecast.weekdayFactors));
+                        const coverClass = forecast.daysOfCover === null
+                            ? ''
+                            : forecast.daysOfCover <= 7 ? 'text-red-600 font-bold' : forecast.daysOfCover <= 14 ? 'text-orange-600 font-semibold' : '';
+                        return (
+                            <tr key={forecast.product} className="border-b">
+                                <td className="px-4 py-2 font-medium text-slate-900 whitespace-nowrap">{forecast.product}</td>
+                                <td className="px-4 py-2 text-right">{formatNumber(forecast.stock)}</td>
+                                <td className="px-4 py-2 text-right">{formatRate(forecast.averageDaily)}</td>
+                                <td className="px-4 py-2 text-right">{formatRate(forecast.movingAverage)}</td>
+                                <td
+                                    className="px-4 py-2 text-right"
+                                    title={forecast.weekdayFactors.some(f => f !== 1) ? t('Penjualan tertinggi pada hari {hari}', { hari: t(WEEKDAY_LABELS[peakWeekday]) }) : undefined}
+                                >
+                                    {formatRate(forecast.smoothedDaily)}
+                                </td>
+                                <td className={`px-4 py-2 text-right ${coverClass}`}>
+                                    {forecast.daysOfCover === null
+                                        ? '-'
+                                        : forecast.daysOfCover >= MAX_COVER_DAYS
+                                            ? `> ${t('{jumlah} hari', { jumlah: formatNumber(MAX_COVER_DAYS) })}`
+                                            : t('{jumlah} hari', { jumlah: formatNumber(forecast.daysOfCover) })}
+                                </td>
+                                <td className={`px-4 py-2 whitespace-nowrap ${coverClass}`}>
+                                    {forecast.stockOutDate === null ? t('Belum ada penjualan') : forecast.daysOfCover >= MAX_COVER_DAYS ? '-' : formatDate(forecast.stockOutDate)}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const ManualEntryForm = ({ onAddEntry, products, locations, customers, settings }: { onAddEntry: (entry: SalesData) => string | null; products: Product[]; locations: string[]; customers: Customer[]; settings: AppSettings }) => {
+    const { t, formatCurrency } = useDisplayFormat();
+    const today = new Date().toISOString().split('T')[0];
+    const emptyForm = {
+        tanggal: today,
+        nama_produk: '',
+        lokasi: locations[0] || DEFAULT_LOCATION,
+        lokasi_tujuan: '', // Used for transfers
+        jumlah_terjual: '',
+        jumlah_masuk: '', // Used for purchases / goods receipts and transfers
+        harga_beli: '',
+        harga_jual: '',
+        stok_sisa: '', // Used for stock adjustments
+        pelanggan: '', // Used for sales
+        kredit: false, // Credit sale, paid later
+        jatuh_tempo: '',
+        uang_muka: '', // Down payment on a credit sale
+        diskon: '', // Line discount on a sale
+        jenis_diskon: 'nominal' as DiscountType,
+        pajak: settings.pajak_bawaan, // Name of the tax rate, empty for no tax
+        harga_termasuk_pajak: settings.harga_termasuk_pajak,
+        entryType: 'penjualan' as TransactionType
+    };
+    const [formData, setFormData] = useState(emptyForm);
+    const [error, setError] = useState('');
+
+    const handleChange = (e) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+        setError('');
+    };
+
+    // The due date follows the sale date and the customer's credit term until it is set by hand.
+    const getDefaultDueDate = (tanggal: string, customerName: string) =>
+        addDays(tanggal, findCustomer(customers, customerName)?.tempo_hari ?? DEFAULT_CREDIT_TERM_DAYS);
+
+    const handleCreditChange = (e) => {
+        const kredit = e.target.checked;
+        setFormData(prev => ({ ...prev, kredit, jatuh_tempo: kredit ? getDefaultDueDate(prev.tanggal, prev.pelanggan) : '' }));
+        setError('');
+    };
+
+    const handleTaxInclusiveChange = (e) => {
+        const harga_termasuk_pajak = e.target.checked;
+        setFormData(prev => ({ ...prev, harga_termasuk_pajak }));
+        setError('');
+    };
+
+    /** The sale as entered so far, with the discount resolved to an amount and the tax rate applied. */
+    const buildSaleAmounts = (jumlah_terjual: number, harga_jual: number) => {
+        const diskon = resolveDiscount(jumlah_terjual * harga_jual, parseFloat(formData.diskon || '0'), formData.jenis_diskon);
+        const tarif_pajak = settings.tarif_pajak.find(rate => rate.nama === formData.pajak)?.tarif ?? 0;
+        const fields = { jumlah_terjual, harga_jual, diskon, tarif_pajak, harga_termasuk_pajak: tarif_pajak > 0 && formData.harga_termasuk_pajak };
+        return { ...fields, ...computeSaleAmounts({ ...fields } as SalesData) };
+    };
+
+    const handleCustomerChange = (e) => {
+        const pelanggan = e.target.value;
+        setFormData(prev => ({ ...prev, pelanggan, jatuh_tempo: prev.kredit ? getDefaultDueDate(prev.tanggal, pelanggan) : '' }));
+        setError('');
+    };
+
+    const handleProductChange = (e) => {
+        const product = products.find(p => p.nama === e.target.value);
+        // Pre-fill the catalog's default prices; they can still be overridden per transaction.
+        setFormData(prev => ({
+            ...prev,
+            nama_produk: e.target.value,
+            harga_beli: product ? String(product.harga_beli_default) : prev.harga_beli,
+            harga_jual: product ? String(product.harga_jual_default) : prev.harga_jual,
+        }));
+        setError('');
+    };
+
+    const handleSubmit = (e) => {
+        e.preventDefault();
+        
+        const entryType = formData.entryType;
+        const isSale = entryType === 'penjualan';
+        const isPurchase = entryType === 'pembelian';
+        const isTransfer = entryType === 'transfer';
+        
+        const nama_produk = formData.nama_produk;
+        if (!nama_produk) {
+            setError(t('Pilih produk dari katalog terlebih dahulu.'));
+            return;
+        }
+
+        const jumlah_terjual = isSale ? parseFloat(formData.jumlah_terjual) : 0;
+        const jumlah_masuk = isPurchase || isTransfer ? parseFloat(formData.jumlah_masuk) : 0;
+        const stok_sisa = entryType === 'penyesuaian' ? parseFloat(formData.stok_sisa) : 0; // For adjustments
+        const harga_beli = isSale || isPurchase ? parseFloat(formData.harga_beli) : 0;
+        const harga_jual = isSale ? parseFloat(formData.harga_jual) : 0;
+
+        const uang_muka = isSale && formData.kredit ? parseFloat(formData.uang_muka || '0') : 0;
+        const saleAmounts = isSale ? buildSaleAmounts(jumlah_terjual, harga_jual) : null;
+
+        if (isSale) {
+            if (isNaN(jumlah_terjual) || isNaN(harga_beli) || isNaN(harga_jual)) {
+                setError(t('Pastikan semua kolom angka diisi dengan benar untuk penjualan.'));
+                return;
+            }
+            if (jumlah_terjual <= 0) {
+                setError(t('Jumlah terjual harus lebih dari 0.'));
+                return;
+            }
+            const diskonValue = parseFloat(formData.diskon || '0');
+            if (isNaN(diskonValue) || diskonValue < 0 || (formData.jenis_diskon === 'persen' && diskonValue > 100)) {
+                setError(t('Diskon harus antara 0 dan 100% atau 0 dan jumlah × harga jual.'));
+                return;
+            }
+            if (saleAmounts.diskon > jumlah_terjual * harga_jual) {
+                setError(t('Diskon tidak boleh melebihi jumlah × harga jual.'));
+                return;
+            }
+            if (formData.kredit) {
+                if (!formData.pelanggan) {
+                    setError(t('Penjualan kredit membutuhkan pelanggan.'));
+                    return;
+                }
+                if (!formData.jatuh_tempo || formData.jatuh_tempo < formData.tanggal) {
+                    setError(t('Tanggal jatuh tempo tidak boleh sebelum tanggal penjualan.'));
+                    return;
+                }
+                if (isNaN(uang_muka) || uang_muka < 0 || uang_muka > saleAmounts.total_penjualan + saleAmounts.pajak) {
+                    setError(t('Uang muka harus antara 0 dan total penjualan.'));
+                    return;
+                }
+            }
+        } else if (isPurchase) {
+            if (isNaN(jumlah_masuk) || isNaN(harga_beli)) {
+                setError(t('Pastikan jumlah masuk dan harga beli diisi dengan benar untuk pembelian.'));
+                return;
+            }
+            if (jumlah_masuk <= 0) {
+                setError(t('Jumlah masuk harus lebih dari 0.'));
+                return;
+            }
+        } else if (isTransfer) {
+            if (!formData.lokasi_tujuan || formData.lokasi_tujuan === formData.lokasi) {
+                setError(t('Pilih lokasi tujuan yang berbeda dari lokasi asal.'));
+                return;
+            }
+            if (isNaN(jumlah_masuk) || jumlah_masuk <= 0) {
+                setError(t('Jumlah transfer harus lebih dari 0.'));
+                return;
+            }
+        } else {
+            if (isNaN(stok_sisa)) {
+                setError(t('Jumlah stok untuk penyesuaian harus berupa angka.'));
+                return;
+            }
+             if (stok_sisa < 0) {
+                setError(t('Jumlah stok tidak boleh negatif.'));
+                return;
+            }
+        }
+
+        const total_penjualan = isSale ? saleAmounts.total_penjualan : 0;
+        // A purchase carries its own cost: the value of the goods received.
+        const total_biaya = isSale ? jumlah_terjual * harga_beli : isPurchase ? jumlah_masuk * harga_beli : 0;
+        const laba = isSale ? total_penjualan - total_biaya : 0;
+
+        const newEntry: SalesData = {
+            id: `id_manual_${Date.now()}_${Math.random()}`,
+            tanggal: formData.tanggal,
+            jenis_transaksi: entryType,
+            nama_produk,
+            lokasi: formData.lokasi,
+            ...(isTransfer ? { lokasi_tujuan: formData.lokasi_tujuan } : {}),
+            ...(isSale && formData.pelanggan ? { pelanggan: formData.pelanggan } : {}),
+            ...(isSale && formData.kredit ? {
+                jatuh_tempo: formData.jatuh_tempo,
+                pembayaran: uang_muka > 0 ? [{ id: `pay_${Date.now()}`, tanggal: formData.tanggal, jumlah: uang_muka }] : [],
+            } : {}),
+            jumlah_terjual,
+            jumlah_masuk,
+            harga_beli,
+            harga_jual,
+            ...(isSale && saleAmounts.diskon > 0 ? { diskon: saleAmounts.diskon } : {}),
+            ...(isSale && saleAmounts.tarif_pajak > 0 ? { tarif_pajak: saleAmounts.tarif_pajak, harga_termasuk_pajak: saleAmounts.harga_termasuk_pajak } : {}),
+            total_penjualan,
+            ...(isSale ? { pajak: saleAmounts.pajak } : {}),
+            total_biaya,
+            laba,
+            stok_sisa, // Will be recalculated, but need a value for adjustment type
+        };
+
+        const addError = onAddEntry(newEntry);
+        if (addError) {
+            setError(addError);
+        } else {
+            // Reset form
+            setFormData(emptyForm);
+        }
+    };
+
+    const previewQuantity = parseFloat(formData.jumlah_terjual);
+    const previewPrice = parseFloat(formData.harga_jual);
+    const salePreview = formData.entryType === 'penjualan' && previewQuantity > 0 && previewPrice >= 0
+        ? buildSaleAmounts(previewQuantity, previewPrice)
+        : null;
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-100 mb-4">{t('Input Data Manual')}</h3>
+            <form onSubmit={handleSubmit}>
+                {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative mb-4" role="alert">{error}</div>}
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {/* Date */}
+                    <div>
+                        <label htmlFor="tanggal" className="block text-sm font-medium text-slate-300 mb-1">{t('Tanggal')}</label>
+                        <input
+                            type="date"
+                            id="tanggal"
+                            name="tanggal"
+                            value={formData.tanggal}
+                            onChange={handleChange}
+                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            required
+                        />
+                    </div>
+
+                    {/* Product */}
+                    <div>
+                        <label htmlFor="nama_produk" className="block text-sm font-medium text-slate-300 mb-1">{t('Produk')}</label>
+                        <select
+                            id="nama_produk"
+                            name="nama_produk"
+                            value={formData.nama_produk}
+                            onChange={handleProductChange}
+                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            required
+                        >
+                            <option value="">{t('-- Pilih Produk --')}</option>
+                            {Object.entries(groupProductsByCategory(products)).map(([category, items]) => (
+                                <optgroup key={category} label={category}>
+                                    {items.map(p => <option key={p.sku} value={p.nama}>{p.nama} ({p.sku})</option>)}
+                                </optgroup>
+                            ))}
+                        </select>
+                        {products.length === 0 && (
+                            <p className="text-xs text-slate-400 mt-1">{t('Katalog produk masih kosong. Tambahkan produk melalui Katalog Produk.')}</p>
+                        )}
+                    </div>
+
+                    {/* Entry Type */}
+                    <div>
+                        <label htmlFor="entryType" className="block text-sm font-medium text-slate-300 mb-1">{t('Jenis Input')}</label>
+                        <select
+                            id="entryType"
+                            name="entryType"
+                            value={formData.entryType}
+                            onChange={handleChange}
+                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                            <option value="penjualan">{t('Penjualan')}</option>
+                            <option value="pembelian">{t('Pembelian / Penerimaan Barang')}</option>
+                            <option value="penyesuaian">{t('Penyesuaian Stok')}</option>
+                            <option value="transfer">{t('Transfer Antar Lokasi')}</option>
+                        </select>
+                    </div>
+
+                    {/* Location */}
+                    <div>
+                        <label htmlFor="lokasi" className="block text-sm font-medium text-slate-300 mb-1">{formData.entryType === 'transfer' ? t('Lokasi Asal') : t('Lokasi')}</label>
+                        <select
+                            id="lokasi"
+                            name="lokasi"
+                            value={formData.lokasi}
+                            onChange={handleChange}
+                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                            {locations.map(location => <option key={location} value={location}>{location}</option>)}
+                        </select>
+                    </div>
+
+                    {formData.entryType === 'transfer' && (
+                        <>
+                            {/* Destination */}
+                            <div>
+                                <label htmlFor="lokasi_tujuan" className="block text-sm font-medium text-slate-300 mb-1">{t('Lokasi Tujuan')}</label>
+                                <select
+                                    id="lokasi_tujuan"
+                                    name="lokasi_tujuan"
+                                    value={formData.lokasi_tujuan}
+                                    onChange={handleChange}
+                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                    <option value="">{t('Pilih lokasi tujuan')}</option>
+                                    {locations.filter(location => location !== formData.lokasi).map(location => (
+                                        <option key={location} value={location}>{location}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {/* Jumlah Transfer */}
+                            <div>
+                                <label htmlFor="jumlah_masuk" className="block text-sm font-medium text-slate-300 mb-1">{t('Jumlah Transfer')}</label>
+                                <input
+                                    type="number"
+                                    id="jumlah_masuk"
+                                    name="jumlah_masuk"
+                                    value={formData.jumlah_masuk}
+                                    onChange={handleChange}
+                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                    min="0"
+                                />
+                            </div>
+                        </>
+                    )}
+
+                    {formData.entryType === 'pembelian' && (
+                        <>
+                            {/* Jumlah Masuk */}
+                            <div>
+                                <label htmlFor="jumlah_masuk" className="block text-sm font-medium text-slate-300 mb-1">{t('Jumlah Masuk')}</label>
+                                <input
+                                    type="number"
+                                    id="jumlah_masuk"
+                                    name="jumlah_masuk"
+                                    value={formData.jumlah_masuk}
+                                    onChange={handleChange}
+                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                    min="0"
+                                />
+                            </div>
+
+                            {/* Harga Beli */}
+                            <div>
+                                <label htmlFor="harga_beli" className="block text-sm font-medium text-slate-300 mb-1">{t('Harga Beli (per item)')}</label>
+                                <input
+                                    type="number"
+                                    id="harga_beli"
+                                    name="harga_beli"
+                                    value={formData.harga_beli}
+                                    onChange={handleChange}
+                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                    min="0"
+                                />
+                            </div>
+                        </>
+                    )}
+
+                    {formData.entryType === 'penjualan' && (
+                        <>
+                            {/* Jumlah Terjual */}
+                            <div>
+                                <label htmlFor="jumlah_terjual" className="block text-sm font-medium text-slate-300 mb-1">{t('Jumlah Terjual')}</label>
+                                <input
+                                    type="number"
+                                    id="jumlah_terjual"
+                                    name="jumlah_terjual"
+                                    value={formData.jumlah_terjual}
+                                    onChange={handleChange}
+                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                    min="0"
+                                />
+                            </div>
+
+                            {/* Harga Beli */}
+                            <div>
+                                <label htmlFor="harga_beli" className="block text-sm font-medium text-slate-300 mb-1">{t('Harga Beli (per item)')}</label>
+                                <input
+                                    type="number"
+                                    id="harga_beli"
+                                    name="harga_beli"
+                                    value={formData.harga_beli}
+                                    onChange={handleChange}
+                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                    min="0"
+                                />
+                            </div>
+
+                            {/* Harga Jual */}
+                            <div>
+                                <label htmlFor="harga_jual" className="block text-sm font-medium text-slate-300 mb-1">{t('Harga Jual (per item)')}</label>
+                                <input
+                                    type="number"
+                                    id="harga_jual"
+                                    name="harga_jual"
+                                    value={formData.harga_jual}
+                                    onChange={handleChange}
+                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                    min="0"
+                                />
+                            </div>
+
+                            {/* Diskon */}
+                            <div>
+                                <label htmlFor="diskon" className="block text-sm font-medium text-slate-300 mb-1">{t('Diskon (opsional)')}</label>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="number"
+                                        id="diskon"
+                                        name="diskon"
+                                        value={formData.diskon}
+                                        onChange={handleChange}
+                                        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                        min="0"
+                                    />
+                                    <select
+                                        name="jenis_diskon"
+                                        value={formData.jenis_diskon}
+                                        onChange={handleChange}
+                                        aria-label={t('Jenis diskon')}
+                                        className="px-2 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                    >
+                                        <option value="nominal">{t('Nominal')}</option>
+                                        <option value="persen">%</option>
+                                    </select>
+                                </div>
+                            </div>
+
+                            {/* Pajak */}
+                            <div>
+                                <label htmlFor="pajak" className="block text-sm font-medium text-slate-300 mb-1">{t('Pajak')}</label>
+                                <select
+                                    id="pajak"
+                                    name="pajak"
+                                    value={formData.pajak}
+                                    onChange={handleChange}
+                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                    <option value="">{t('Tanpa Pajak')}</option>
+                                    {settings.tarif_pajak.map(rate => <option key={rate.nama} value={rate.nama}>{rate.nama}</option>)}
+                                </select>
+                            </div>
+
+                            {/* Harga Termasuk Pajak */}
+                            <div className="flex items-end pb-2">
+                                <label className="flex items-center gap-2 text-sm font-medium text-slate-300">
+                                    <input type="checkbox" checked={formData.harga_termasuk_pajak} onChange={handleTaxInclusiveChange} disabled={!formData.pajak} />
+                                    {t('Harga jual sudah termasuk pajak')}
+                                </label>
+                            </div>
+
+                            {/* Pelanggan */}
+                            <div>
+                                <label htmlFor="pelanggan" className="block text-sm font-medium text-slate-300 mb-1">{t('Pelanggan (opsional)')}</label>
+                                <select
+                                    id="pelanggan"
+                                    name="pelanggan"
+                                    value={formData.pelanggan}
+                                    onChange={handleCustomerChange}
+                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                    <option value="">{t('Umum')}</option>
+                                    {customers.map(customer => <option key={customer.id} value={customer.nama}>{customer.nama}</option>)}
+                                </select>
+                            </div>
+
+                            {/* Kredit */}
+                            <div className="flex items-end pb-2">
+                                <label className="flex items-center gap-2 text-sm font-medium text-slate-300">
+                                    <input type="checkbox" checked={formData.kredit} onChange={handleCreditChange} />
+                                    {t('Penjualan kredit (tempo)')}
+                                </label>
+                            </div>
+
+                            {formData.kredit && (
+                                <>
+                                    {/* Jatuh Tempo */}
+                                    <div>
+                                        <label htmlFor="jatuh_tempo" className="block text-sm font-medium text-slate-300 mb-1">{t('Jatuh Tempo')}</label>
+                                        <input
+                                            type="date"
+                                            id="jatuh_tempo"
+                                            name="jatuh_tempo"
+                                            value={formData.jatuh_tempo}
+                                            onChange={handleChange}
+                                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                    </div>
+
+                                    {/* Uang Muka */}
+                                    <div>
+                                        <label htmlFor="uang_muka" className="block text-sm font-medium text-slate-300 mb-1">{t('Uang Muka (opsional)')}</label>
+                                        <input
+                                            type="number"
+                                            id="uang_muka"
+                                            name="uang_muka"
+                                            value={formData.uang_muka}
+                                            onChange={handleChange}
+                                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                            min="0"
+                                        />
+                                    </div>
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    {formData.entryType === 'penyesuaian' && (
+                        // Stock Adjustment
+                        <div>
+                            <label htmlFor="stok_sisa" className="block text-sm font-medium text-slate-300 mb-1">{t('Jumlah Stok Baru')}</label>
+                            <input
+                                type="number"
+                                id="stok_sisa"
+                                name="stok_sisa"
+                                value={formData.stok_sisa}
+                                onChange={handleChange}
+                                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                min="0"
+                            />
+                        </div>
+                    )}
+                </div>
+
+                {salePreview && (
+                    <p className="text-sm text-slate-400 mt-4">
+                        {t('DPP {dpp} + PPN {pajak} = Total {total}', { dpp: formatCurrency(salePreview.total_penjualan), pajak: formatCurrency(salePreview.pajak), total: formatCurrency(salePreview.total_penjualan + salePreview.pajak) })}
+                        {salePreview.diskon > 0 && ` · ${t('Diskon {diskon}', { diskon: formatCurrency(salePreview.diskon) })}`}
+                    </p>
+                )}
+                
+                <div className="mt-6">
+                    <button type="submit" className="w-full bg-indigo-600 text-white font-bold py-2 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+                        {t('Tambah Data')}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+const SalesReturnForm = ({ data, onAddReturn }: { data: SalesData[]; onAddReturn: (saleId: string, jumlah: number, kondisi: ReturnCondition, tanggal: string) => string | null }) => {
+    const { t, formatCurrency, formatNumber, formatDate } = useDisplayFormat();
+    const today = toISODate(new Date());
+    const [search, setSearch] = useState('');
+    const [saleId, setSaleId] = useState('');
+    const [jumlah, setJumlah] = useState('');
+    const [kondisi, setKondisi] = useState<ReturnCondition>('layak_jual');
+    const [tanggal, setTanggal] = useState(today);
+    const [error, setError] = useState('');
+
+    const returned: Record<string, number> = useMemo(() => getReturnedQuantities(data), [data]);
+    // Sales that still have units to return, newest first.
+    const returnableSales: SalesData[] = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        return data
+            .filter(item => item.jenis_transaksi === 'penjualan' && item.jumlah_terjual > (returned[item.id] ?? 0))
+            .filter(item => !query || `${item.nama_produk} ${item.pelanggan ?? ''} ${item.tanggal}`.toLowerCase().includes(query))
+            .sort((a, b) => b.tanggal.localeCompare(a.tanggal));
+    }, [data, returned, search]);
+
+    // Units written off through damaged returns, with the cost that was lost.
+    const damaged: { produk: string, jumlah: number, nilai: number }[] = useMemo(() => {
+        const totals: Record<string, { produk: string, jumlah: number, nilai: number }> = {};
+        for (const item of data) {
+            if (item.jenis_transaksi !== 'retur' || item.kondisi_retur !== 'rusak') continue;
+            const row = totals[item.nama_produk] = totals[item.nama_produk] || { produk: item.nama_produk, jumlah: 0, nilai: 0 };
+            row.jumlah += item.jumlah_masuk;
+            row.nilai += item.jumlah_masuk * item.harga_beli;
+        }
+        return Object.values(totals).sort((a, b) => b.nilai - a.nilai);
+    }, [data]);
+
+    const sale = returnableSales.find(item => item.id === saleId);
+    const returnable = sale ? sale.jumlah_terjual - (returned[sale.id] ?? 0) : 0;
+    const quantity = parseFloat(jumlah);
+
+    const handleSubmit = (e) => {
+        e.preventDefault();
+        const addError = onAddReturn(saleId, quantity, kondisi, tanggal);
+        if (addError) {
+            setError(addError);
+        } else {
+            setSaleId('');
+            setJumlah('');
+            setError('');
+        }
+    };
+
+    const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-4">{t('Retur Penjualan')}</h3>
+            <form onSubmit={handleSubmit} className="space-y-3">
+                {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+                <input
+                    type="text"
+                    placeholder={t('Cari produk, pelanggan atau tanggal')}
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className={inputClass}
+                />
+                <select
+                    value={saleId}
+                    onChange={(e) => { setSaleId(e.target.value); setError(''); }}
+                    className={inputClass}
+                    aria-label={t('Penjualan asal')}
+                >
+                    <option value="">{t('-- Pilih Penjualan --')}</option>
+                    {returnableSales.map(item => (
+                        <option key={item.id} value={item.id}>
+                            {formatDate(item.tanggal)} · {item.nama_produk} · {formatNumber(item.jumlah_terjual)} × {formatCurrency(item.harga_jual)}{item.pelanggan ? ` · ${item.pelanggan}` : ''}
+                        </option>
+                    ))}
+                </select>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div>
+                        <label htmlFor="jumlah_retur" className="block text-sm font-medium text-slate-700 mb-1">{t('Jumlah Retur')}</label>
+                        <input id="jumlah_retur" type="number" min="0" max={returnable || undefined} value={jumlah} onChange={(e) => { setJumlah(e.target.value); setError(''); }} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="kondisi_retur" className="block text-sm font-medium text-slate-700 mb-1">{t('Kondisi Barang')}</label>
+                        <select id="kondisi_retur" value={kondisi} onChange={(e) => setKondisi(e.target.value as ReturnCondition)} className={inputClass}>
+                            {(Object.keys(RETURN_CONDITION_LABELS) as ReturnCondition[]).map(condition => (
+                                <option key={condition} value={condition}>{t(RETURN_CONDITION_LABELS[condition])}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="tanggal_retur" className="block text-sm font-medium text-slate-700 mb-1">{t('Tanggal Retur')}</label>
+                        <input id="tanggal_retur" type="date" value={tanggal} onChange={(e) => { setTanggal(e.target.value); setError(''); }} className={inputClass} />
+                    </div>
+                </div>
+                {sale && (
+                    <p className="text-sm text-slate-500">
+                        {t('Dapat diretur: {jumlah}.', { jumlah: formatNumber(returnable) })}
+                        {quantity > 0 && quantity <= returnable && ` ${t('Nilai retur: {nilai}.', { nilai: formatCurrency(getSaleTotal(sale) * quantity / sale.jumlah_terjual) })}`}
+                    </p>
+                )}
+                <button type="submit" className="w-full bg-indigo-600 text-white font-bold py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors">
+                    {t('Catat Retur')}
+                </button>
+            </form>
+
+            {damaged.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-slate-200">
+                    <h4 className="text-sm font-medium text-slate-700 mb-2">{t('Barang Rusak (Dihapusbukukan)')}</h4>
+                    <ul className="space-y-1 text-sm">
+                        {damaged.map(row => (
+                            <li key={row.produk} className="flex justify-between bg-slate-50 p-2 rounded-md">
+                                <span className="font-medium text-slate-700">{row.produk}</span>
+                                <span className="text-slate-600">{t('{jumlah} unit · {nilai}', { jumlah: formatNumber(row.jumlah), nilai: formatCurrency(row.nilai) })}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const InitialStockManager = ({ initialStocks, onUpdateStocks, products, locations }) => {
+    const { t } = useDisplayFormat();
+    const [location, setLocation] = useState(locations[0] || DEFAULT_LOCATION);
+    const [newProduct, setNewProduct] = useState('');
+    const [newStock, setNewStock] = useState('');
+
+    const stocks: Record<string, number> = initialStocks[location] || {};
+
+    const updateStock = (productName: string, stockAmount: number) => {
+        onUpdateStocks({ ...initialStocks, [location]: { ...stocks, [productName]: stockAmount } });
+    };
+
+    const handleAddStock = () => {
+        const productName = newProduct;
+        const stockAmount = parseInt(newStock, 10);
+        if (productName && !isNaN(stockAmount) && stockAmount >= 0) {
+            updateStock(productName, stockAmount);
+            setNewProduct('');
+            setNewStock('');
+        }
+    };
+    
+    const handleStockChange = (productName, value) => {
+        const stockAmount = parseInt(value, 10);
+        if (!isNaN(stockAmount) && stockAmount >= 0) {
+            updateStock(productName, stockAmount);
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <div className="flex justify-between items-center mb-4 gap-4">
+                <h3 className="text-xl font-bold text-slate-800">{t('Kelola Stok Awal')}</h3>
+                <select
+                    value={location}
+                    onChange={(e) => setLocation(e.target.value)}
+                    className="px-3 py-1.5 border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    aria-label={t('Lokasi stok awal')}
+                >
+                    {locations.map(loc => <option key={loc} value={loc}>{loc}</option>)}
+                </select>
+            </div>
+            <div className="space-y-3 max-h-60 overflow-y-auto pr-2">
+                {Object.keys(stocks).length > 0 ? Object.entries(stocks).map(([name, amount]) => (
+                    <div key={name} className="flex items-center justify-between bg-slate-50 p-2 rounded-md">
+                        <span className="font-medium text-slate-700">{name}</span>
+                        <input 
+                            type="number"
+                            value={amount}
+                            onChange={(e) => handleStockChange(name, e.target.value)}
+                            className="w-24 text-right px-2 py-1 border border-slate-300 rounded-md"
+                        />
+                    </div>
+                )) : <p className="text-slate-500 italic">{t('Belum ada stok awal yang diatur untuk {lokasi}.', { lokasi: location })}</p>}
+            </div>
+            <div className="flex gap-4 mt-4 pt-4 border-t border-slate-200">
+                <select
+                    value={newProduct}
+                    onChange={(e) => setNewProduct(e.target.value)}
+                    className="flex-grow px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                    <option value="">{t('-- Pilih Produk --')}</option>
+                    {products.filter(p => stocks[p.nama] === undefined).map(p => (
+                        <option key={p.sku} value={p.nama}>{p.nama} ({p.sku})</option>
+                    ))}
+                </select>
+                <input
+                    type="number"
+                    placeholder={t('Jumlah Stok Awal')}
+                    value={newStock}
+                    onChange={(e) => setNewStock(e.target.value)}
+                    className="w-40 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    min="0"
+                />
+                <button 
+                    onClick={handleAddStock}
+                    className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+                >
+                    {t('Tambah')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const REORDER_FIELDS: { key: 'stok_minimum' | 'titik_pesan_ulang' | 'stok_target'; rule: keyof StockRule; label: string }[] = [
+    { key: 'stok_minimum', rule: 'minimum', label: 'Min.' },
+    { key: 'titik_pesan_ulang', rule: 'reorderPoint', label: 'Pesan Ulang' },
+    { key: 'stok_target', rule: 'target', label: 'Target' },
+];
+
+const ReorderSettingsManager = ({ catalog, onUpdateCatalog }) => {
+    const { t } = useDisplayFormat();
+    const [error, setError] = useState('');
+
+    const handleChange = (sku: string, field: 'stok_minimum' | 'titik_pesan_ulang' | 'stok_target', value: string) => {
+        const amount = value === '' ? undefined : parseFloat(value);
+        if (amount !== undefined && (isNaN(amount) || amount < 0)) return;
+
+        const product: Product = { ...catalog.find(p => p.sku === sku), [field]: amount };
+        const rule = getStockRule([product], product.nama);
+        if (rule.minimum > rule.reorderPoint || rule.reorderPoint > rule.target) {
+            setError(t('"{produk}": stok minimum ≤ titik pesan ulang ≤ stok target.', { produk: product.nama }));
+        } else {
+            setError('');
+        }
+        onUpdateCatalog(catalog.map(p => p.sku === sku ? product : p));
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Titik Pesan Ulang')}</h3>
+            <p className="text-sm text-slate-500 mb-4">
+                {t('Kosongkan untuk memakai bawaan: pesan ulang saat stok ≤ {titik}, target {target}.', { titik: DEFAULT_REORDER_POINT, target: DEFAULT_REORDER_POINT * 2 })}
+            </p>
+            {error && <p className="text-sm text-orange-600 mb-2">{error}</p>}
+            <div className="max-h-60 overflow-y-auto pr-2">
+                {catalog.length > 0 ? (
+                    <table className="w-full text-sm text-left text-slate-500">
+                        <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                            <tr>
+                                <th scope="col" className="px-2 py-2">{t('Produk')}</th>
+                                {REORDER_FIELDS.map(field => <th key={field.key} scope="col" className="px-2 py-2 text-right">{t(field.label)}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {catalog.filter(p => p.aktif).map(product => (
+                                <tr key={product.sku} className="border-b">
+                                    <td className="px-2 py-2 font-medium text-slate-700">{product.nama}</td>
+                                    {REORDER_FIELDS.map(field => (
+                                        <td key={field.key} className="px-2 py-2 text-right">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={product[field.key] ?? ''}
+                                                placeholder={String(getStockRule([product], product.nama)[field.rule])}
+                                                onChange={(e) => handleChange(product.sku, field.key, e.target.value)}
+                                                className="w-20 text-right px-2 py-1 border border-slate-300 rounded-md"
+                                                aria-label={`${t(field.label)} ${product.nama}`}
+                                            />
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : <p className="text-slate-500 italic">{t('Katalog produk masih kosong.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+const ReorderList = ({ suggestions, locationLabel }: { suggestions: ReorderSuggestion[]; locationLabel: string }) => {
+    const { t, formatCurrency, formatNumber } = useDisplayFormat();
+    const totalCost = suggestions.reduce((acc, item) => acc + item.quantity * item.unitCost, 0);
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div>
+                    <h3 className="text-xl font-bold text-slate-800">{t('Saran Pembelian')}</h3>
+                    <p className="text-sm text-slate-500">{locationLabel} · {t('estimasi biaya {biaya}', { biaya: formatCurrency(totalCost) })}</p>
+                </div>
+                <button
+                    onClick={() => exportPurchaseList(suggestions, `daftar_pembelian_${toISODate(new Date())}.csv`)}
+                    disabled={suggestions.length === 0}
+                    className="bg-green-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-green-700 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                    {t('Ekspor Daftar Pembelian')}
+                </button>
+            </div>
+            {suggestions.length > 0 ? (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-500">
+                        <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                            <tr>
+                                <th scope="col" className="px-4 py-2">{t('Produk')}</th>
+                                <th scope="col" className="px-4 py-2 text-right">{t('Stok')}</th>
+                                <th scope="col" className="px-4 py-2 text-right">{t('Pesan Ulang')}</th>
+                                <th scope="col" className="px-4 py-2 text-right">{t('Target')}</th>
+                                <th scope="col" className="px-4 py-2 text-right">{t('Jumlah Pesan')}</th>
+                                <th scope="col" className="px-4 py-2 text-right">{t('Estimasi Biaya')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {suggestions.map(item => (
+                                <tr key={item.product} className={`border-b ${item.urgent ? 'bg-red-50' : ''}`}>
+                                    <td className="px-4 py-2 font-medium text-slate-900">
+                                        {item.product}
+                                        {item.urgent && <span className="ml-2 text-xs font-semibold text-red-600">{t('mendesak')}</span>}
+                                    </td>
+                                    <td className="px-4 py-2 text-right">{formatNumber(item.stock)}</td>
+                                    <td className="px-4 py-2 text-right">{formatNumber(item.rule.reorderPoint)}</td>
+                                    <td className="px-4 py-2 text-right">{formatNumber(item.rule.target)}</td>
+                                    <td className="px-4 py-2 text-right font-bold text-slate-800">{formatNumber(item.quantity)} {item.unit}</td>
+                                    <td className="px-4 py-2 text-right">{formatCurrency(item.quantity * item.unitCost)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ) : <p className="text-slate-500 italic">{t('Tidak ada produk yang perlu dipesan.')}</p>}
+        </div>
+    );
+};
+
+const ProductCatalogManager = ({ catalog, onUpdateCatalog }) => {
+    const { t } = useDisplayFormat();
+    const emptyProduct = { sku: '', nama: '', kategori: '', satuan: DEFAULT_UNIT, harga_beli_default: '', harga_jual_default: '' };
+    const [newProduct, setNewProduct] = useState(emptyProduct);
+    const [error, setError] = useState('');
+
+    const handleNewChange = (e) => {
+        const { name, value } = e.target;
+        setNewProduct(prev => ({ ...prev, [name]: value }));
+        setError('');
+    };
+
+    const handleAddProduct = () => {
+        const nama = newProduct.nama.trim().replace(/\s+/g, ' ');
+        const sku = newProduct.sku.trim().toUpperCase() || generateSku(catalog);
+        const harga_beli_default = parseFloat(newProduct.harga_beli_default) || 0;
+        const harga_jual_default = parseFloat(newProduct.harga_jual_default) || 0;
+
+        if (!nama) {
+            setError(t('Nama produk tidak boleh kosong.'));
+            return;
+        }
+        if (findProduct(catalog, nama)) {
+            setError(t('Produk "{produk}" sudah ada di katalog.', { produk: nama }));
+            return;
+        }
+        if (findProduct(catalog, sku)) {
+            setError(t('Kode SKU "{sku}" sudah digunakan.', { sku }));
+            return;
+        }
+        if (harga_beli_default < 0 || harga_jual_default < 0) {
+            setError(t('Harga default tidak boleh negatif.'));
+            return;
+        }
+
+        onUpdateCatalog([...catalog, {
+            sku,
+            nama,
+            kategori: newProduct.kategori.trim() || DEFAULT_CATEGORY,
+            satuan: newProduct.satuan.trim() || DEFAULT_UNIT,
+            harga_beli_default,
+            harga_jual_default,
+            aktif: true,
+        }]);
+        setNewProduct(emptyProduct);
+    };
+
+    const handleProductChange = (sku: string, field: keyof Product, value: string | number | boolean) => {
+        onUpdateCatalog(catalog.map(p => p.sku === sku ? { ...p, [field]: value } : p));
+    };
+
+    const categories = [...new Set(catalog.map(p => p.kategori))];
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-4">{t('Katalog Produk')}</h3>
+            {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative mb-4" role="alert">{error}</div>}
+            <div className="max-h-72 overflow-y-auto pr-2">
+                {catalog.length > 0 ? (
+                    <table className="w-full text-sm text-left text-slate-500">
+                        <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                            <tr>
+                                <th className="px-2 py-2">SKU</th>
+                                <th className="px-2 py-2">{t('Nama')}</th>
+                                <th className="px-2 py-2">{t('Kategori')}</th>
+                                <th className="px-2 py-2">{t('Satuan')}</th>
+                                <th className="px-2 py-2 text-right">{t('Harga Beli')}</th>
+                                <th className="px-2 py-2 text-right">{t('Harga Jual')}</th>
+                                <th className="px-2 py-2 text-center">{t('Aktif')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {catalog.map(p => (
+                                <tr key={p.sku} className={`border-b ${p.aktif ? '' : 'opacity-50'}`}>
+                                    <td className="px-2 py-1 font-mono text-xs">{p.sku}</td>
+                                    <td className="px-2 py-1 font-medium text-slate-900">{p.nama}</td>
+                                    <td className="px-2 py-1">
+                                        <input
+                                            type="text"
+                                            list="category-list"
+                                            value={p.kategori}
+                                            onChange={(e) => handleProductChange(p.sku, 'kategori', e.target.value)}
+                                            className="w-28 px-2 py-1 border border-slate-300 rounded-md"
+                                        />
+                                    </td>
+                                    <td className="px-2 py-1">
+                                        <input
+                                            type="text"
+                                            value={p.satuan}
+                                            onChange={(e) => handleProductChange(p.sku, 'satuan', e.target.value)}
+                                            className="w-16 px-2 py-1 border border-slate-300 rounded-md"
+                                        />
+                                    </td>
+                                    <td className="px-2 py-1">
+                                        <input
+                                            type="number"
+                                            value={p.harga_beli_default}
+                                            onChange={(e) => handleProductChange(p.sku, 'harga_beli_default', parseFloat(e.target.value) || 0)}
+                                            className="w-24 text-right px-2 py-1 border border-slate-300 rounded-md"
+                                            min="0"
+                                        />
+                                    </td>
+                                    <td className="px-2 py-1">
+                                        <input
+                                            type="number"
+                                            value={p.harga_jual_default}
+                                            onChange={(e) => handleProductChange(p.sku, 'harga_jual_default', parseFloat(e.target.value) || 0)}
+                                            className="w-24 text-right px-2 py-1 border border-slate-300 rounded-md"
+                                            min="0"
+                                        />
+                                    </td>
+                                    <td className="px-2 py-1 text-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={p.aktif}
+                                            onChange={(e) => handleProductChange(p.sku, 'aktif', e.target.checked)}
+                                        />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : <p className="text-slate-500 italic">{t('Belum ada produk di katalog.')}</p>}
+                <datalist id="category-list">
+                    {categories.map(c => <option key={c} value={c} />)}
+                </datalist>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-4 pt-4 border-t border-slate-200">
+                <input type="text" name="sku" placeholder={t('SKU (opsional)')} value={newProduct.sku} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                <input type="text" name="nama" placeholder={t('Nama Produk')} value={newProduct.nama} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                <input type="text" name="kategori" list="category-list" placeholder={t('Kategori')} value={newProduct.kategori} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                <input type="text" name="satuan" placeholder={t('Satuan (pcs, kg, ...)')} value={newProduct.satuan} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                <input type="number" name="harga_beli_default" placeholder={t('Harga Beli Default')} value={newProduct.harga_beli_default} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" min="0" />
+                <input type="number" name="harga_jual_default" placeholder={t('Harga Jual Default')} value={newProduct.harga_jual_default} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" min="0" />
+            </div>
+            <button
+                onClick={handleAddProduct}
+                className="mt-3 w-full bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+            >
+                {t('Tambah Produk')}
+            </button>
+        </div>
+    );
+};
+
+const CustomerManager = ({ customers, onUpdateCustomers }: { customers: Customer[]; onUpdateCustomers: (customers: Customer[]) => void }) => {
+    const { t } = useDisplayFormat();
+    const emptyCustomer = { nama: '', telepon: '', alamat: '', tempo_hari: String(DEFAULT_CREDIT_TERM_DAYS) };
+    const [newCustomer, setNewCustomer] = useState(emptyCustomer);
+    const [error, setError] = useState('');
+
+    const handleNewChange = (e) => {
+        const { name, value } = e.target;
+        setNewCustomer(prev => ({ ...prev, [name]: value }));
+        setError('');
+    };
+
+    const handleAddCustomer = () => {
+        const nama = newCustomer.nama.trim().replace(/\s+/g, ' ');
+        const tempo_hari = parseInt(newCustomer.tempo_hari, 10);
+        if (!nama) {
+            setError(t('Nama pelanggan wajib diisi.'));
+            return;
+        }
+        if (findCustomer(customers, nama)) {
+            setError(t('Pelanggan "{nama}" sudah ada.', { nama }));
+            return;
+        }
+        if (isNaN(tempo_hari) || tempo_hari < 0) {
+            setError(t('Tempo pembayaran harus berupa angka 0 atau lebih.'));
+            return;
+        }
+        onUpdateCustomers([...customers, { id: `cust_${Date.now()}`, nama, telepon: newCustomer.telepon.trim(), alamat: newCustomer.alamat.trim(), tempo_hari }]);
+        setNewCustomer(emptyCustomer);
+    };
+
+    const handleCustomerChange = (id: string, field: 'telepon' | 'alamat' | 'tempo_hari', value: string) => {
+        if (field === 'tempo_hari') {
+            const days = parseInt(value, 10);
+            if (isNaN(days) || days < 0) return;
+            onUpdateCustomers(customers.map(c => c.id === id ? { ...c, tempo_hari: days } : c));
+            return;
+        }
+        onUpdateCustomers(customers.map(c => c.id === id ? { ...c, [field]: value } : c));
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Daftar Pelanggan')}</h3>
+            <p className="text-sm text-slate-500 mb-4">{t('Tempo menentukan jatuh tempo bawaan untuk penjualan kredit.')}</p>
+            {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 mb-4">
+                <input type="text" name="nama" placeholder={t('Nama')} value={newCustomer.nama} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md" />
+                <input type="text" name="telepon" placeholder={t('Telepon')} value={newCustomer.telepon} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md" />
+                <input type="text" name="alamat" placeholder={t('Alamat')} value={newCustomer.alamat} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md" />
+                <div className="flex gap-2">
+                    <input type="number" name="tempo_hari" min="0" placeholder={t('Tempo (hari)')} value={newCustomer.tempo_hari} onChange={handleNewChange} className="w-24 px-3 py-2 border border-slate-300 rounded-md" aria-label={t('Tempo (hari)')} />
+                    <button onClick={handleAddCustomer} className="flex-grow bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors">
+                        {t('Tambah')}
+                    </button>
+                </div>
+            </div>
+            <div className="max-h-60 overflow-y-auto pr-2">
+                {customers.length > 0 ? (
+                    <table className="w-full text-sm text-left text-slate-500">
+                        <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                            <tr>
+                                <th scope="col" className="px-2 py-2">{t('Nama')}</th>
+                                <th scope="col" className="px-2 py-2">{t('Telepon')}</th>
+                                <th scope="col" className="px-2 py-2">{t('Alamat')}</th>
+                                <th scope="col" className="px-2 py-2 text-right">{t('Tempo (hari)')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {customers.map(customer => (
+                                <tr key={customer.id} className="border-b">
+                                    <td className="px-2 py-2 font-medium text-slate-700">{customer.nama}</td>
+                                    <td className="px-2 py-2">
+                                        <input type="text" value={customer.telepon} onChange={(e) => handleCustomerChange(customer.id, 'telepon', e.target.value)} className="w-full px-2 py-1 border border-slate-300 rounded-md" aria-label={`${t('Telepon')} ${customer.nama}`} />
+                                    </td>
+                                    <td className="px-2 py-2">
+                                        <input type="text" value={customer.alamat} onChange={(e) => handleCustomerChange(customer.id, 'alamat', e.target.value)} className="w-full px-2 py-1 border border-slate-300 rounded-md" aria-label={`${t('Alamat')} ${customer.nama}`} />
+                                    </td>
+                                    <td className="px-2 py-2 text-right">
+                                        <input type="number" min="0" value={customer.tempo_hari} onChange={(e) => handleCustomerChange(customer.id, 'tempo_hari', e.target.value)} className="w-20 text-right px-2 py-1 border border-slate-300 rounded-md" aria-label={`${t('Tempo')} ${customer.nama}`} />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : <p className="text-slate-500 italic">{t('Belum ada pelanggan.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+// The Pareto chart shows the top products only; shares are still of the full total.
+const PARETO_CHART_LIMIT = 30;
+
+const ABC_CLASS_STYLES: Record<AbcClass, string> = {
+    A: 'bg-green-100 text-green-800',
+    B: 'bg-amber-100 text-amber-800',
+    C: 'bg-slate-200 text-slate-700',
+};
+
+const AbcAnalysis = ({ data, history, catalog, stockLevels, referenceDate }: { data: SalesData[]; history: SalesData[]; catalog: Product[]; stockLevels: Record<string, number>; referenceDate: string }) => {
+    const { t, formatCurrency, formatNumber, formatDate } = useDisplayFormat();
+    const [metric, setMetric] = useState<AbcMetric>('penjualan');
+    const [slowDays, setSlowDays] = useState(30);
+    const [deadDays, setDeadDays] = useState(90);
+
+    const rows: AbcRow[] = useMemo(
+        () => buildAbcAnalysis(data, history, catalog, stockLevels, referenceDate, slowDays, deadDays),
+        [data, history, catalog, stockLevels, referenceDate, slowDays, deadDays]
+    );
+    const ranked = [...rows].sort((a, b) => a.cumulative[metric] - b.cumulative[metric] || b[metric] - a[metric]);
+    const classSummary = (['A', 'B', 'C'] as AbcClass[]).map(abcClass => {
+        const members = rows.filter(row => row.abcClass[metric] === abcClass);
+        return { abcClass, count: members.length, share: members.reduce((acc, row) => acc + row.share[metric], 0) };
+    });
+    // Products with stock on hand that have not sold for a while, longest first; never sold comes first.
+    const idleStock = rows
+        .filter(row => row.stock > 0 && row.movement !== 'lancar')
+        .sort((a, b) => (b.daysSinceSale ?? Infinity) - (a.daysSinceSale ?? Infinity));
+    const getStockValue = (row: AbcRow) => row.stock * (findProduct(catalog, row.product)?.harga_beli_default ?? 0);
+    const formatPercent = (value: number) => `${formatNumber(value, { maximumFractionDigits: 1 })}%`;
+    const metricLabel = t(ABC_METRIC_LABELS[metric]);
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <div>
+                    <h3 className="text-xl font-bold text-slate-800">{t('Analisis ABC / Pareto')}</h3>
+                    <p className="text-sm text-slate-500">{t('Kelas A: 80% pertama dari total, B: 15% berikutnya, C: sisanya.')}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <select value={metric} onChange={(e) => setMetric(e.target.value as AbcMetric)} className="px-2 py-1 border border-slate-300 rounded-md" aria-label={t('Dasar klasifikasi')}>
+                        {(Object.keys(ABC_METRIC_LABELS) as AbcMetric[]).map(key => <option key={key} value={key}>{t('Berdasarkan {dasar}', { dasar: t(ABC_METRIC_LABELS[key]) })}</option>)}
+                    </select>
+                    <button
+                        onClick={() => exportAbcAnalysis(ranked, `analisis_abc_${toISODate(new Date())}.csv`)}
+                        disabled={rows.length === 0}
+                        className="bg-green-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-green-700 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed"
+                    >
+                        {t('Ekspor Klasifikasi')}
+                    </button>
+                </div>
+            </div>
+
+            {rows.length > 0 ? (
+                <>
+                    <div className="grid grid-cols-3 gap-3 mb-4">
+                        {classSummary.map(({ abcClass, count, share }) => (
+                            <div key={abcClass} className={`p-3 rounded-lg ${ABC_CLASS_STYLES[abcClass]}`}>
+                                <p className="text-lg font-bold">{t('Kelas {kelas}', { kelas: abcClass })}</p>
+                                <p className="text-sm">{t('{jumlah} produk · {persen} dari {dasar}', { jumlah: formatNumber(count), persen: formatPercent(share), dasar: metricLabel.toLowerCase() })}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <ResponsiveContainer width="100%" height={320}>
+                        <ComposedChart data={ranked.slice(0, PARETO_CHART_LIMIT)} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="product" interval={0} angle={-30} textAnchor="end" height={80} tick={{ fontSize: 11 }} />
+                            <YAxis yAxisId="nilai" />
+                            <YAxis yAxisId="persen" orientation="right" domain={[0, 100]} unit="%" />
+                            <Tooltip formatter={(value: number, name: string) => name === metricLabel ? formatCurrency(value) : formatPercent(value)} />
+                            <Legend />
+                            <Bar yAxisId="nilai" dataKey={metric} fill="#6366f1" name={metricLabel} />
+                            <Line yAxisId="persen" type="monotone" dataKey={(row: AbcRow) => row.cumulative[metric]} stroke="#f97316" name={t('Kumulatif %')} dot={false} />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                    {ranked.length > PARETO_CHART_LIMIT && (
+                        <p className="text-xs text-slate-500 mb-2">{t('Grafik menampilkan {jumlah} produk teratas dari {total}.', { jumlah: PARETO_CHART_LIMIT, total: formatNumber(ranked.length) })}</p>
+                    )}
+
+                    <div className="overflow-x-auto max-h-96 mt-4">
+                        <table className="w-full text-sm text-left text-slate-500">
+                            <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3">{t('Produk')}</th>
+                                    <th scope="col" className="px-4 py-3 text-right">{metricLabel}</th>
+                                    <th scope="col" className="px-4 py-3 text-right">{t('Porsi')}</th>
+                                    <th scope="col" className="px-4 py-3 text-right">{t('Kumulatif')}</th>
+                                    <th scope="col" className="px-4 py-3 text-center">{t('Kelas Penjualan')}</th>
+                                    <th scope="col" className="px-4 py-3 text-center">{t('Kelas Laba')}</th>
+                                    <th scope="col" className="px-4 py-3 text-right">{t('Hari Sejak Terjual')}</th>
+                                    <th scope="col" className="px-4 py-3">{t('Pergerakan')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ranked.map(row => (
+                                    <tr key={row.product} className="border-b">
+                                        <td className="px-4 py-2 font-medium text-slate-700">{row.product}</td>
+                                        <td className={`px-4 py-2 text-right ${row[metric] < 0 ? 'text-red-600' : ''}`}>{formatCurrency(row[metric])}</td>
+                                        <td className="px-4 py-2 text-right">{formatPercent(row.share[metric])}</td>
+                                        <td className="px-4 py-2 text-right">{formatPercent(row.cumulative[metric])}</td>
+                                        {(Object.keys(ABC_METRIC_LABELS) as AbcMetric[]).map(key => (
+                                            <td key={key} className="px-4 py-2 text-center">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${ABC_CLASS_STYLES[row.abcClass[key]]}`}>{row.abcClass[key]}</span>
+                                            </td>
+                                        ))}
+                                        <td className="px-4 py-2 text-right">{row.daysSinceSale === null ? '-' : formatNumber(row.daysSinceSale)}</td>
+                                        <td className={`px-4 py-2 ${row.movement === 'mati' ? 'text-red-600 font-semibold' : row.movement === 'lambat' ? 'text-orange-600' : ''}`}>{t(MOVEMENT_STATUS_LABELS[row.movement])}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex flex-wrap items-center justify-between gap-3 mt-6 mb-2">
+                        <h4 className="text-sm font-medium text-slate-700">{t('Stok Lambat & Stok Mati')}</h4>
+                        <div className="flex items-center gap-2 text-sm text-slate-600">
+                            <label htmlFor="hari_lambat">{t('Lambat setelah')}</label>
+                            <input id="hari_lambat" type="number" min="1" value={slowDays} onChange={(e) => setSlowDays(Math.max(1, parseInt(e.target.value, 10) || 1))} className="w-16 px-2 py-1 border border-slate-300 rounded-md" />
+                            <label htmlFor="hari_mati">{t('hari, mati setelah')}</label>
+                            <input id="hari_mati" type="number" min="1" value={deadDays} onChange={(e) => setDeadDays(Math.max(1, parseInt(e.target.value, 10) || 1))} className="w-16 px-2 py-1 border border-slate-300 rounded-md" />
+                            <span>{t('hari tanpa penjualan')}</span>
+                        </div>
+                    </div>
+                    {idleStock.length > 0 ? (
+                        <ul className="space-y-1 text-sm">
+                            {idleStock.map(row => (
+                                <li key={row.product} className={`flex flex-wrap justify-between gap-2 p-2 rounded-md ${row.movement === 'mati' ? 'bg-red-50' : 'bg-orange-50'}`}>
+                                    <span className="font-medium text-slate-700">{row.product} <span className="text-xs text-slate-500">({t(MOVEMENT_STATUS_LABELS[row.movement])})</span></span>
+                                    <span className="text-slate-600">
+                                        {row.lastSale ? t('Terakhir terjual {tanggal}', { tanggal: formatDate(row.lastSale) }) : t('Belum pernah terjual')}
+                                        {' · '}{t('stok {jumlah} senilai {nilai}', { jumlah: formatNumber(row.stock), nilai: formatCurrency(getStockValue(row)) })}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-slate-500">{t('Semua produk yang masih memiliki stok terjual dalam {jumlah} hari terakhir.', { jumlah: slowDays })}</p>
+                    )}
+                </>
+            ) : (
+                <p className="text-sm text-slate-500">{t('Belum ada produk untuk dianalisis.')}</p>
+            )}
+        </div>
+    );
+};
+
+const ExpenseLedger = ({ expenses, onUpdateExpenses }: { expenses: Expense[]; onUpdateExpenses: (expenses: Expense[]) => void }) => {
+    const { t, formatCurrency, formatDate } = useDisplayFormat();
+    const emptyExpense = { tanggal: toISODate(new Date()), kategori: EXPENSE_CATEGORIES[0], keterangan: '', jumlah: '' };
+    const [newExpense, setNewExpense] = useState(emptyExpense);
+    const [error, setError] = useState('');
+
+    const sortedExpenses: Expense[] = useMemo(() => [...expenses].sort((a, b) => b.tanggal.localeCompare(a.tanggal)), [expenses]);
+
+    const handleNewChange = (e) => {
+        const { name, value } = e.target;
+        setNewExpense(prev => ({ ...prev, [name]: value }));
+        setError('');
+    };
+
+    const handleAddExpense = () => {
+        const kategori = newExpense.kategori.trim().replace(/\s+/g, ' ');
+        const jumlah = parseFloat(newExpense.jumlah);
+        if (!newExpense.tanggal) {
+            setError(t('Tanggal biaya wajib diisi.'));
+            return;
+        }
+        if (!kategori) {
+            setError(t('Kategori biaya wajib diisi.'));
+            return;
+        }
+        if (isNaN(jumlah) || jumlah <= 0) {
+            setError(t('Jumlah biaya harus lebih besar dari 0.'));
+            return;
+        }
+        onUpdateExpenses([...expenses, { id: `exp_${Date.now()}`, tanggal: newExpense.tanggal, kategori, keterangan: newExpense.keterangan.trim(), jumlah: roundMoney(jumlah) }]);
+        setNewExpense({ ...emptyExpense, tanggal: newExpense.tanggal, kategori });
+    };
+
+    const handleDeleteExpense = (expense: Expense) => {
+        if (window.confirm(t('Hapus biaya {kategori} sebesar {jumlah}?', { kategori: expense.kategori, jumlah: formatCurrency(expense.jumlah) }))) {
+            onUpdateExpenses(expenses.filter(e => e.id !== expense.id));
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Biaya Operasional')}</h3>
+            <p className="text-sm text-slate-500 mb-4">{t('Sewa, gaji, listrik dan biaya lain di luar harga pokok penjualan.')}</p>
+            {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 mb-4">
+                <input type="date" name="tanggal" value={newExpense.tanggal} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md" aria-label={t('Tanggal')} />
+                <input type="text" name="kategori" list="expense-categories" placeholder={t('Kategori')} value={newExpense.kategori} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md" />
+                <datalist id="expense-categories">
+                    {EXPENSE_CATEGORIES.map(category => <option key={category} value={category} />)}
+                </datalist>
+                <input type="text" name="keterangan" placeholder={t('Keterangan')} value={newExpense.keterangan} onChange={handleNewChange} className="px-3 py-2 border border-slate-300 rounded-md" />
+                <div className="flex gap-2">
+                    <input type="number" name="jumlah" min="0" placeholder={t('Nominal')} value={newExpense.jumlah} onChange={handleNewChange} className="w-28 px-3 py-2 border border-slate-300 rounded-md" />
+                    <button onClick={handleAddExpense} className="flex-grow bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors">
+                        {t('Tambah')}
+                    </button>
+                </div>
+            </div>
+            <div className="max-h-60 overflow-y-auto pr-2">
+                {sortedExpenses.length > 0 ? (
+                    <table className="w-full text-sm text-left text-slate-500">
+                        <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                            <tr>
+                                <th scope="col" className="px-2 py-2">{t('Tanggal')}</th>
+                                <th scope="col" className="px-2 py-2">{t('Kategori')}</th>
+                                <th scope="col" className="px-2 py-2">{t('Keterangan')}</th>
+                                <th scope="col" className="px-2 py-2 text-right">{t('Nominal')}</th>
+                                <th scope="col" className="px-2 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {sortedExpenses.map(expense => (
+                                <tr key={expense.id} className="border-b">
+                                    <td className="px-2 py-2 whitespace-nowrap">{formatDate(expense.tanggal)}</td>
+                                    <td className="px-2 py-2 font-medium text-slate-700">{expense.kategori}</td>
+                                    <td className="px-2 py-2">{expense.keterangan || '-'}</td>
+                                    <td className="px-2 py-2 text-right">{formatCurrency(expense.jumlah)}</td>
+                                    <td className="px-2 py-2 text-right">
+                                        <button onClick={() => handleDeleteExpense(expense)} className="font-medium text-red-600 hover:underline">{t('Hapus')}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : <p className="text-slate-500 italic">{t('Belum ada biaya operasional.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+const ProfitLossTable = ({ columns, total, categories }: { columns: PnlColumn[]; total: PnlColumn; categories: string[] }) => {
+    const { t, formatCurrency, formatNumber } = useDisplayFormat();
+    const all = [...columns, total];
+    const formatMargin = (value: number | null) => value === null ? '-' : `${formatNumber(value, { maximumFractionDigits: 1 })}%`;
+    // Net profit change against the previous column; the total column has no comparison.
+    const formatChange = (index: number) => {
+        if (index === 0 || index >= columns.length) return '';
+        const previous = columns[index - 1].labaBersih;
+        if (previous === 0) return '-';
+        const change = (columns[index].labaBersih - previous) / Math.abs(previous) * 100;
+        return `${change > 0 ? '+' : ''}${formatNumber(change, { maximumFractionDigits: 1 })}%`;
+    };
+    const rows: { label: string; values: string[]; className?: string; indent?: boolean }[] = [
+        { label: t('Pendapatan'), values: all.map(column => formatCurrency(column.pendapatan)) },
+        { label: t('Harga Pokok Penjualan'), values: all.map(column => formatCurrency(-column.hpp)) },
+        { label: t('Laba Kotor'), values: all.map(column => formatCurrency(column.labaKotor)), className: 'font-semibold text-slate-800 bg-slate-50' },
+        { label: t('Margin Kotor'), values: all.map(column => formatMargin(column.marginKotor)) },
+        ...categories.map(category => ({ label: category, values: all.map(column => column.biaya[category] ? formatCurrency(-column.biaya[category]) : '-'), indent: true })),
+        { label: t('Total Biaya Operasional'), values: all.map(column => formatCurrency(-column.totalBiaya)), className: 'font-semibold text-slate-800' },
+        { label: t('Laba Bersih'), values: all.map(column => formatCurrency(column.labaBersih)), className: 'font-bold text-slate-800 bg-slate-50' },
+        { label: t('Perubahan Laba Bersih'), values: all.map((_, index) => formatChange(index)) },
+    ];
+
+    return (
+        <table className="w-full text-sm text-left text-slate-500">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                <tr>
+                    <th scope="col" className="px-4 py-3">{t('Pos')}</th>
+                    {columns.map(column => <th key={column.periode} scope="col" className="px-4 py-3 text-right whitespace-nowrap">{column.periode}</th>)}
+                    <th scope="col" className="px-4 py-3 text-right">{t('Total')}</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(row => (
+                    <tr key={row.label} className={`border-b ${row.className || ''}`}>
+                        <td className={`py-2 whitespace-nowrap ${row.indent ? 'pl-8 pr-4' : 'px-4 font-medium text-slate-700'}`}>{row.label}</td>
+                        {row.values.map((value, index) => <td key={index} className="px-4 py-2 text-right whitespace-nowrap">{value}</td>)}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+const ProfitLossReport = ({ data, expenses, profile }: { data: SalesData[]; expenses: Expense[]; profile: BusinessProfile }) => {
+    const { t, formatDate } = useDisplayFormat();
+    const [granularity, setGranularity] = useState<PnlGranularity>('bulan');
+    const [isPrinting, setIsPrinting] = useState(false);
+    const statement: { columns: PnlColumn[], total: PnlColumn, categories: string[] } = useMemo(() => buildProfitAndLoss(data, expenses, granularity), [data, expenses, granularity]);
+    const hasData = statement.columns.length > 0;
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <div>
+                    <h3 className="text-xl font-bold text-slate-800">{t('Laporan Laba Rugi')}</h3>
+                    <p className="text-sm text-slate-500">{t('Pendapatan bersih retur, HPP dan biaya operasional per periode.')}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <select value={granularity} onChange={(e) => setGranularity(e.target.value as PnlGranularity)} className="px-3 py-2 border border-slate-300 rounded-md text-sm" aria-label={t('Periode')}>
+                        {(Object.keys(PNL_GRANULARITY_LABELS) as PnlGranularity[]).map(key => <option key={key} value={key}>{t(PNL_GRANULARITY_LABELS[key])}</option>)}
+                    </select>
+                    <button
+                        onClick={() => setIsPrinting(true)}
+                        disabled={!hasData}
+                        className="px-4 py-2 rounded-md border border-indigo-600 text-indigo-600 font-semibold hover:bg-indigo-50 text-sm disabled:border-slate-400 disabled:text-slate-400 disabled:cursor-not-allowed"
+                    >
+                        {t('Cetak')}
+                    </button>
+                    <button
+                        onClick={() => exportProfitAndLoss(statement.columns, statement.total, statement.categories, `laba_rugi_${toISODate(new Date())}.csv`)}
+                        disabled={!hasData}
+                        className="bg-green-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-green-700 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed"
+                    >
+                        {t('Ekspor Laba Rugi')}
+                    </button>
+                </div>
+            </div>
+            {hasData ? (
+                <div className="overflow-x-auto">
+                    <ProfitLossTable columns={statement.columns} total={statement.total} categories={statement.categories} />
+                </div>
+            ) : (
+                <p className="text-sm text-slate-500">{t('Belum ada penjualan atau biaya pada periode ini.')}</p>
+            )}
+            {isPrinting && (
+                <div className="fixed inset-0 bg-slate-900/60 flex items-center justify-center p-4 z-50 print-container">
+                    <div className="bg-white rounded-2xl shadow-lg w-full max-w-5xl max-h-full overflow-y-auto">
+                        <div className="flex justify-end gap-3 p-4 border-b border-slate-200 no-print">
+                            <button onClick={() => setIsPrinting(false)} className="px-4 py-2 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50">
+                                {t('Tutup')}
+                            </button>
+                            <button onClick={() => window.print()} className="px-4 py-2 rounded-md bg-indigo-600 text-white font-semibold hover:bg-indigo-700">
+                                {t('Cetak')}
+                            </button>
+                        </div>
+                        <div id="report-print" className="p-8">
+                            <p className="text-lg font-bold text-slate-800">{profile.nama || t('Laporan Laba Rugi')}</p>
+                            <p className="text-sm text-slate-500 mb-4">{t('Laporan Laba Rugi')} · {t(PNL_GRANULARITY_LABELS[granularity])} · {t('Dicetak {tanggal}', { tanggal: formatDate(toISODate(new Date())) })}</p>
+                            <ProfitLossTable columns={statement.columns} total={statement.total} categories={statement.categories} />
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const TaxReport = ({ data }: { data: SalesData[] }) => {
+    const { t, formatCurrency, formatNumber } = useDisplayFormat();
+    const report: { rows: TaxReportRow[], totals: TaxReportRow } = useMemo(() => buildTaxReport(data), [data]);
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <div>
+                    <h3 className="text-xl font-bold text-slate-800">{t('Ringkasan Pajak')}</h3>
+                    <p className="text-sm text-slate-500">{t('Penjualan, diskon, DPP dan PPN per bulan dan tarif pajak.')}</p>
+                </div>
+                <button
+                    onClick={() => exportTaxReport(report.rows, `laporan_pajak_${toISODate(new Date())}.csv`)}
+                    disabled={report.rows.length === 0}
+                    className="bg-green-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-green-700 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                    {t('Ekspor Laporan Pajak')}
+                </button>
+            </div>
+            {report.rows.length > 0 ? (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-500">
+                        <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                            <tr>
+                                <th scope="col" className="px-4 py-3">{t('Periode')}</th>
+                                <th scope="col" className="px-4 py-3 text-right">{t('Tarif')}</th>
+                                <th scope="col" className="px-4 py-3 text-right">{t('Transaksi')}</th>
+                                <th scope="col" className="px-4 py-3 text-right">{t('Penjualan Bruto')}</th>
+                                <th scope="col" className="px-4 py-3 text-right">{t('Diskon')}</th>
+                                <th scope="col" className="px-4 py-3 text-right">{t('DPP')}</th>
+                                <th scope="col" className="px-4 py-3 text-right">{t('PPN')}</th>
+                                <th scope="col" className="px-4 py-3 text-right">{t('Total')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {[...report.rows, report.totals].map(row => {
+                                const isTotal = row === report.totals;
+                                return (
+                                    <tr key={isTotal ? 'total' : `${row.periode}|${row.tarif}`} className={`border-b ${isTotal ? 'font-bold text-slate-800 bg-slate-50' : ''}`}>
+                                        <td className="px-4 py-2 font-medium text-slate-700">{isTotal ? t('Total') : row.periode}</td>
+                                        <td className="px-4 py-2 text-right">{isTotal ? '' : `${formatNumber(row.tarif)}%`}</td>
+                                        <td className="px-4 py-2 text-right">{formatNumber(row.transaksi)}</td>
+                                        <td className="px-4 py-2 text-right">{formatCurrency(row.bruto)}</td>
+                                        <td className="px-4 py-2 text-right">{row.diskon > 0 ? formatCurrency(row.diskon) : '-'}</td>
+                                        <td className="px-4 py-2 text-right">{formatCurrency(row.dpp)}</td>
+                                        <td className="px-4 py-2 text-right">{formatCurrency(row.pajak)}</td>
+                                        <td className="px-4 py-2 text-right">{formatCurrency(row.total)}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <p className="text-sm text-slate-500">{t('Belum ada penjualan pada periode ini.')}</p>
+            )}
+        </div>
+    );
+};
+
+const ReceivablesReport = ({ data, asOf, onRecordPayment }: { data: SalesData[]; asOf: string; onRecordPayment: (id: string, payment: SalePayment) => void }) => {
+    const display = useDisplayFormat();
+    const { t, formatCurrency, formatDate } = display;
+    const [payments, setPayments] = useState<Record<string, { jumlah: string; tanggal: string }>>({});
+    const [error, setError] = useState('');
+
+    // The report carries translated row labels, so it is rebuilt when the language changes.
+    const aging: { rows: AgingRow[], totals: AgingRow } = useMemo(() => buildAgingReport(data, asOf, display), [data, asOf, display]);
+    const openSales: SalesData[] = useMemo(
+        () => data
+            .filter(item => item.jenis_transaksi === 'penjualan' && item.jatuh_tempo && getAmountDue(item) > 0)
+            .sort((a, b) => a.jatuh_tempo.localeCompare(b.jatuh_tempo)),
+        [data]
+    );
+
+    const getDraft = (id: string) => payments[id] ?? { jumlah: '', tanggal: asOf };
+
+    const handleDraftChange = (id: string, field: 'jumlah' | 'tanggal', value: string) => {
+        setPayments(prev => ({ ...prev, [id]: { ...getDraft(id), [field]: value } }));
+        setError('');
+    };
+
+    const handleRecord = (sale: SalesData) => {
+        const draft = getDraft(sale.id);
+        const jumlah = parseFloat(draft.jumlah);
+        if (isNaN(jumlah) || jumlah <= 0 || jumlah > getAmountDue(sale)) {
+            setError(t('Pembayaran untuk {pelanggan} harus lebih dari 0 dan paling banyak {sisa}.', { pelanggan: sale.pelanggan, sisa: formatCurrency(getAmountDue(sale)) }));
+            return;
+        }
+        if (!draft.tanggal || draft.tanggal < sale.tanggal.slice(0, 10)) {
+            setError(t('Tanggal pembayaran tidak boleh sebelum tanggal penjualan.'));
+            return;
+        }
+        onRecordPayment(sale.id, { id: `pay_${Date.now()}`, tanggal: draft.tanggal, jumlah });
+        setPayments(prev => {
+            const { [sale.id]: _, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const bucketKeys = Object.keys(AGING_BUCKET_LABELS) as AgingBucket[];
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Piutang Usaha')}</h3>
+            <p className="text-sm text-slate-500 mb-4">{t('Umur piutang per {tanggal}.', { tanggal: formatDate(asOf) })}</p>
+            {aging.rows.length > 0 ? (
+                <>
+                    <div className="overflow-x-auto mb-6">
+                        <table className="w-full text-sm text-left text-slate-500">
+                            <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3">{t('Pelanggan')}</th>
+                                    {bucketKeys.map(bucket => <th key={bucket} scope="col" className="px-4 py-3 text-right">{t(AGING_BUCKET_LABELS[bucket])}</th>)}
+                                    <th scope="col" className="px-4 py-3 text-right">{t('Total')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...aging.rows, aging.totals].map(row => (
+                                    <tr key={row.customer} className={`border-b ${row === aging.totals ? 'font-bold text-slate-800 bg-slate-50' : ''}`}>
+                                        <td className="px-4 py-2 font-medium text-slate-700">{row.customer}</td>
+                                        {bucketKeys.map(bucket => (
+                                            <td key={bucket} className={`px-4 py-2 text-right ${bucket !== 'lancar' && row.buckets[bucket] > 0 ? 'text-red-600' : ''}`}>
+                                                {row.buckets[bucket] > 0 ? formatCurrency(row.buckets[bucket]) : '-'}
+                                            </td>
+                                        ))}
+                                        <td className="px-4 py-2 text-right">{formatCurrency(row.total)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <h4 className="text-sm font-medium text-slate-700 mb-2">{t('Penjualan Kredit Belum Lunas')}</h4>
+                    {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+                    <div className="overflow-x-auto max-h-96">
+                        <table className="w-full text-sm text-left text-slate-500">
+                            <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3">{t('Tanggal')}</th>
+                                    <th scope="col" className="px-4 py-3">{t('Pelanggan')}</th>
+                                    <th scope="col" className="px-4 py-3">{t('Produk')}</th>
+                                    <th scope="col" className="px-4 py-3 text-right">{t('Total')}</th>
+                                    <th scope="col" className="px-4 py-3 text-right">{t('Dibayar')}</th>
+                                    <th scope="col" className="px-4 py-3 text-right">{t('Sisa')}</th>
+                                    <th scope="col" className="px-4 py-3">{t('Jatuh Tempo')}</th>
+                                    <th scope="col" className="px-4 py-3">{t('Status')}</th>
+                                    <th scope="col" className="px-4 py-3">{t('Catat Pembayaran')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {openSales.map(sale => {
+                                    const draft = getDraft(sale.id);
+                                    const overdue = getAgingBucket(sale.jatuh_tempo, asOf) !== 'lancar';
+                                    return (
+                                        <tr key={sale.id} className="border-b">
+                                            <td className="px-4 py-2">{formatDate(sale.tanggal)}</td>
+                                            <td className="px-4 py-2 font-medium text-slate-700">{sale.pelanggan || '-'}</td>
+                                            <td className="px-4 py-2">{sale.nama_produk}</td>
+                                            <td className="px-4 py-2 text-right">{formatCurrency(getSaleTotal(sale))}</td>
+                                            <td className="px-4 py-2 text-right">{formatCurrency(getAmountPaid(sale))}</td>
+                                            <td className="px-4 py-2 text-right font-semibold">{formatCurrency(getAmountDue(sale))}</td>
+                                            <td className={`px-4 py-2 ${overdue ? 'text-red-600 font-semibold' : ''}`}>{formatDate(sale.jatuh_tempo)}</td>
+                                            <td className="px-4 py-2">{t(PAYMENT_STATUS_LABELS[getPaymentStatus(sale)])}</td>
+                                            <td className="px-4 py-2">
+                                                <div className="flex gap-2">
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        placeholder={t('Nominal')}
+                                                        value={draft.jumlah}
+                                                        onChange={(e) => handleDraftChange(sale.id, 'jumlah', e.target.value)}
+                                                        className="w-28 px-2 py-1 border border-slate-300 rounded-md"
+                                                        aria-label={t('Jumlah pembayaran {pelanggan}', { pelanggan: sale.pelanggan })}
+                                                    />
+                                                    <input
+                                                        type="date"
+                                                        value={draft.tanggal}
+                                                        onChange={(e) => handleDraftChange(sale.id, 'tanggal', e.target.value)}
+                                                        className="px-2 py-1 border border-slate-300 rounded-md"
+                                                        aria-label={t('Tanggal pembayaran {pelanggan}', { pelanggan: sale.pelanggan })}
+                                                    />
+                                                    <button onClick={() => handleRecord(sale)} className="font-medium text-indigo-600 hover:underline">
+                                                        {t('Simpan')}
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            ) : <p className="text-slate-500 italic">{t('Tidak ada piutang yang belum dibayar.')}</p>}
+        </div>
+    );
+};
+
+const SheetPicker = ({ workbook, fileName, onSelect, onCancel }) => {
+    const { t, formatNumber } = useDisplayFormat();
+    return (
+        <div className="fixed inset-0 bg-slate-900/60 flex items-center justify-center p-4 z-50">
+            <div className="bg-white p-6 rounded-2xl shadow-lg w-full max-w-md">
+                <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Pilih Sheet')}</h3>
+                <p className="text-slate-500 text-sm mb-4">{t('{file} berisi beberapa sheet. Pilih sheet yang berisi data transaksi.', { file: fileName })}</p>
+                <div className="space-y-2">
+                    {workbook.SheetNames.map(name => {
+                        const range = workbook.Sheets[name]['!ref'];
+                        const rowCount = range ? XLSX.utils.decode_range(range).e.r : 0;
+                        return (
+                            <button
+                                key={name}
+                                onClick={() => onSelect(name)}
+                                className="w-full flex justify-between items-center px-4 py-2 bg-slate-50 rounded-md hover:bg-indigo-50 text-left"
+                            >
+                                <span className="font-medium text-slate-700">{name}</span>
+                                <span className="text-xs text-slate-500">{t('{jumlah} baris data', { jumlah: formatNumber(rowCount) })}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+                <div className="flex justify-end mt-4">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50">
+                        {t('Batal')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ColumnMappingWizard = ({ table, fileName, initialMapping, presets, onSavePresets, onConfirm, onCancel }) => {
+    const { t, formatNumber } = useDisplayFormat();
+    const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+    const [presetName, setPresetName] = useState('');
+    const sampleRows: string[][] = table.rows.slice(0, 3);
+
+    const handleFieldChange = (key: SortKey, column: string) => {
+        setMapping(prev => ({ ...prev, [key]: column || undefined }));
+    };
+
+    const handleLoadPreset = (name: string) => {
+        const preset = presets.find(p => p.nama === name);
+        if (preset) {
+            setMapping(preset.mapping);
+            setPresetName(preset.nama);
+        }
+    };
+
+    const handleSavePreset = () => {
+        const nama = presetName.trim();
+        if (!nama) return;
+        const preset: ColumnMappingPreset = { nama, kolom_sumber: table.header, mapping };
+        onSavePresets([...presets.filter(p => p.nama !== nama), preset]);
+    };
+
+    const handleDeletePreset = () => {
+        onSavePresets(presets.filter(p => p.nama !== presetName));
+        setPresetName('');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/60 flex items-center justify-center p-4 z-50">
+            <div className="bg-white p-6 rounded-2xl shadow-lg w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Pemetaan Kolom CSV')}</h3>
+                <p className="text-slate-500 text-sm mb-4">
+                    {t('{file}: {kolom} kolom terdeteksi, {baris} baris. Pilih kolom sumber untuk setiap field.', { file: fileName, kolom: table.header.length, baris: formatNumber(table.rows.length) })}
+                    {' '}{t('Field yang tidak dipetakan akan dihitung otomatis dari jumlah dan harga.')}
+                </p>
+
+                {/* Detected columns */}
+                <div className="overflow-x-auto mb-6">
+                    <table className="w-full text-xs text-left text-slate-500">
+                        <thead className="text-slate-700 uppercase bg-slate-50">
+                            <tr>{table.header.map(h => <th key={h} className="px-3 py-2 whitespace-nowrap">{h}</th>)}</tr>
+                        </thead>
+                        <tbody>
+                            {sampleRows.map((row, i) => (
+                                <tr key={i} className="border-b">
+                                    {table.header.map((h, j) => <td key={h} className="px-3 py-1 whitespace-nowrap">{row[j]}</td>)}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                {/* Field mapping */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {IMPORT_FIELDS.map(field => (
+                        <div key={field.key} className="flex items-center justify-between gap-3">
+                            <label htmlFor={`map-${field.key}`} className="text-sm font-medium text-slate-700">
+                                {t(field.label)}{!field.derivable && <span className="text-red-500"> *</span>}
+                            </label>
+                            <select
+                                id={`map-${field.key}`}
+                                value={mapping[field.key] || ''}
+                                onChange={(e) => handleFieldChange(field.key, e.target.value)}
+                                className="w-48 px-2 py-1 text-sm border border-slate-300 rounded-md"
+                            >
+                                <option value="">{field.derivable ? t('(Hitung otomatis)') : t('-- Pilih Kolom --')}</option>
+                                {table.header.map(h => <option key={h} value={h}>{h}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Presets */}
+                <div className="flex flex-wrap items-center gap-3 mt-6 pt-4 border-t border-slate-200">
+                    <select
+                        value=""
+                        onChange={(e) => handleLoadPreset(e.target.value)}
+                        className="px-2 py-2 text-sm border border-slate-300 rounded-md"
+                    >
+                        <option value="">{t('Muat preset...')}</option>
+                        {presets.map(p => <option key={p.nama} value={p.nama}>{p.nama}</option>)}
+                    </select>
+                    <input
+                        type="text"
+                        placeholder={t('Nama preset (mis. Export POS)')}
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        className="flex-grow px-3 py-2 text-sm border border-slate-300 rounded-md"
+                    />
+                    <button onClick={handleSavePreset} className="bg-slate-600 text-white text-sm font-semibold px-4 py-2 rounded-md hover:bg-slate-700 transition-colors">
+                        {t('Simpan Preset')}
+                    </button>
+                    {presets.some(p => p.nama === presetName) && (
+                        <button onClick={handleDeletePreset} className="text-sm font-medium text-red-600 hover:underline">
+                            {t('Hapus Preset')}
+                        </button>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-3 mt-6">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50">
+                        {t('Batal')}
+                    </button>
+                    <button
+                        onClick={() => onConfirm(mapping)}
+                        disabled={!isMappingComplete(mapping)}
+                        className="bg-indigo-600 text-white font-bold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                    >
+                        {t('Impor Data')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+type ImportRowStatus = 'ok' | 'parse_error' | 'duplicate' | 'stock_violation' | 'warning';
+
+const IMPORT_STATUS_LABELS: Record<ImportRowStatus, string> = {
+    ok: 'OK',
+    parse_error: 'Error Format',
+    duplicate: 'Duplikat',
+    stock_violation: 'Stok Negatif',
+    warning: 'Peringatan',
+};
+
+const IMPORT_STATUS_BADGES: Record<ImportRowStatus, string> = {
+    ok: 'bg-green-100 text-green-700',
+    parse_error: 'bg-red-100 text-red-700',
+    duplicate: 'bg-purple-100 text-purple-700',
+    stock_violation: 'bg-orange-100 text-orange-700',
+    warning: 'bg-yellow-100 text-yellow-700',
+};
+
+const ImportPreview = ({ table, mapping, fileName, existingData, initialStocks, catalog, costing, onImport, onCancel }) => {
+    const display = useDisplayFormat();
+    const { t, formatNumber } = display;
+    const [rows, setRows] = useState<string[][]>(table.rows);
+    const [skipped, setSkipped] = useState<Set<number>>(new Set());
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+    const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+    const [duplicateMode, setDuplicateMode] = useState<'skip' | 'replace'>('skip');
+
+    const parsedRows: ParsedCSVRow[] = useMemo(
+        () => parseCSV({ ...table, rows }, mapping, catalog, display).rows,
+        [table, rows, mapping, catalog, display]
+    );
+
+    // Existing transactions matching each parsed row's fingerprint, keyed by row index.
+    const duplicatesByIndex: Record<number, string[]> = useMemo(() => {
+        const existingByFingerprint: Record<string, string[]> = {};
+        for (const trans of existingData) {
+            const fingerprint = getTransactionFingerprint(trans);
+            (existingByFingerprint[fingerprint] = existingByFingerprint[fingerprint] || []).push(trans.id);
+        }
+        const duplicates: Record<number, string[]> = {};
+        parsedRows.forEach((row, index) => {
+            if (!row.entry) return;
+            const resolved = resolveProductNames([row.entry], catalog).data[0];
+            const matches = existingByFingerprint[getTransactionFingerprint(resolved)];
+            if (matches) {
+                duplicates[index] = matches;
+            }
+        });
+        return duplicates;
+    }, [parsedRows, existingData, catalog]);
+
+    const isIncluded = (index: number) =>
+        !skipped.has(index) && (duplicateMode === 'replace' || !duplicatesByIndex[index]);
+
+    const replacedIds: string[] = duplicateMode === 'replace'
+        ? Object.entries(duplicatesByIndex).filter(([index]) => !skipped.has(Number(index))).flatMap(([, ids]) => ids)
+        : [];
+
+    // Validate stock over the existing data plus every row that would be imported, reporting all violations.
+    const { violationsById, existingViolations } = useMemo(() => {
+        const candidates = parsedRows
+            .filter((row, index) => row.entry && isIncluded(index))
+            .map(row => row.entry as SalesData);
+        const replaced = new Set(replacedIds);
+        const remainingData = existingData.filter(trans => !replaced.has(trans.id));
+        const inferredStocks = inferInitialStocks(candidates, initialStocks);
+        const { violations } = processAndValidateData([...remainingData, ...candidates], mergeStockLevels(initialStocks, inferredStocks), costing, display, true);
+        const candidateIds = new Set(candidates.map(c => c.id));
+        return {
+            violationsById: Object.fromEntries(violations.filter(v => candidateIds.has(v.id)).map(v => [v.id, v.message])),
+            existingViolations: violations.filter(v => !candidateIds.has(v.id)),
+        };
+    }, [parsedRows, skipped, duplicateMode, duplicatesByIndex, existingData, initialStocks, costing, display]);
+
+    const rowReports = parsedRows.map((row, index) => {
+        const messages = [...row.errors, ...row.warnings];
+        let status: ImportRowStatus = 'ok';
+        if (row.errors.length > 0) {
+            status = 'parse_error';
+        } else if (duplicatesByIndex[index]) {
+            status = 'duplicate';
+            messages.unshift(duplicateMode === 'replace'
+                ? t('Sudah ada di data ({jumlah} baris); data lama akan diganti.', { jumlah: duplicatesByIndex[index].length })
+                : t('Sudah ada di data ({jumlah} baris); baris ini akan dilewati.', { jumlah: duplicatesByIndex[index].length }));
+            if (row.entry && violationsById[row.entry.id]) {
+                messages.push(violationsById[row.entry.id]);
+            }
+        } else if (row.entry && violationsById[row.entry.id]) {
+            status = 'stock_violation';
+            messages.unshift(violationsById[row.entry.id]);
+        } else if (row.warnings.length > 0) {
+            status = 'warning';
+        }
+        return { index, row, status, messages };
+    });
+
+    const importable = rowReports.filter(r => isIncluded(r.index) && r.row.entry && !violationsById[r.row.entry.id]
+        && (r.status === 'ok' || r.status === 'warning' || r.status === 'duplicate'));
+    const duplicateCount = Object.keys(duplicatesByIndex).length;
+    const problemCount = rowReports.filter(r => r.status === 'parse_error' || r.status === 'stock_violation').length;
+    const visibleReports = showProblemsOnly ? rowReports.filter(r => r.status !== 'ok') : rowReports;
+
+    const toggleSkip = (index: number) => {
+        setSkipped(prev => {
+            const next = new Set(prev);
+            next.has(index) ? next.delete(index) : next.add(index);
+            return next;
+        });
+    };
+
+    const skipAllProblems = () => {
+        setSkipped(new Set(rowReports.filter(r => r.status === 'parse_error' || r.status === 'stock_violation').map(r => r.index)));
+    };
+
+    const handleCellChange = (rowIndex: number, columnIndex: number, value: string) => {
+        setRows(prev => prev.map((row, i) => {
+            if (i !== rowIndex) return row;
+            const updated = [...row];
+            updated[columnIndex] = value;
+            return updated;
+        }));
+    };
+
+    const downloadErrorReport = () => {
+        const problems = rowReports.filter(r => r.status !== 'ok');
+        const csvContent = buildCSV(
+            ['baris', 'status', 'pesan', ...table.header],
+            problems.map(r => [r.row.rowNumber, t(IMPORT_STATUS_LABELS[r.status]), r.messages.join(' | '), ...rows[r.index]])
+        );
+        downloadFile('\uFEFF' + csvContent, `error_${fileName.replace(/\.[^.]+$/, '')}.csv`, 'text/csv;charset=utf-8;');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/60 flex items-center justify-center p-4 z-50">
+            <div className="bg-white p-6 rounded-2xl shadow-lg w-full max-w-6xl max-h-[90vh] flex flex-col">
+                <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Pratinjau Impor')}</h3>
+                <p className="text-slate-500 text-sm mb-4">
+                    {t('{file}: {baris} baris, {siap} siap diimpor, {masalah} bermasalah, {duplikat} duplikat, {dilewati} dilewati.', {
+                        file: fileName,
+                        baris: formatNumber(rowReports.length),
+                        siap: formatNumber(importable.length),
+                        masalah: formatNumber(problemCount),
+                        duplikat: formatNumber(duplicateCount),
+                        dilewati: formatNumber(skipped.size),
+                    })}
+                </p>
+                {existingViolations.length > 0 && (
+                    <div className="bg-orange-100 border border-orange-400 text-orange-700 px-4 py-3 rounded-lg mb-4 text-sm" role="alert">
+                        {t('Impor ini menyebabkan stok negatif pada data yang sudah ada:')} {existingViolations[0].message}
+                    </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-3 mb-3">
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input type="checkbox" checked={showProblemsOnly} onChange={(e) => setShowProblemsOnly(e.target.checked)} />
+                        {t('Tampilkan hanya baris bermasalah')}
+                    </label>
+                    {duplicateCount > 0 && (
+                        <select
+                            value={duplicateMode}
+                            onChange={(e) => setDuplicateMode(e.target.value as 'skip' | 'replace')}
+                            className="px-2 py-1 text-sm border border-slate-300 rounded-md"
+                        >
+                            <option value="skip">{t('Duplikat: lewati')}</option>
+                            <option value="replace">{t('Duplikat: ganti data lama')}</option>
+                        </select>
+                    )}
+                    <button onClick={skipAllProblems} className="text-sm font-medium text-indigo-600 hover:underline">
+                        {t('Lewati semua baris bermasalah')}
+                    </button>
+                    <button onClick={downloadErrorReport} className="text-sm font-medium text-indigo-600 hover:underline">
+                        {t('Unduh laporan error (CSV)')}
+                    </button>
+                </div>
+
+                <div className="overflow-auto flex-grow border border-slate-200 rounded-lg">
+                    <table className="w-full text-xs text-left text-slate-500">
+                        <thead className="text-slate-700 uppercase bg-slate-50 sticky top-0">
+                            <tr>
+                                <th className="px-3 py-2">{t('Lewati')}</th>
+                                <th className="px-3 py-2">{t('Baris')}</th>
+                                <th className="px-3 py-2">{t('Status')}</th>
+                                {table.header.map(h => <th key={h} className="px-3 py-2 whitespace-nowrap">{h}</th>)}
+                                <th className="px-3 py-2">{t('Keterangan')}</th>
+                                <th className="px-3 py-2">{t('Aksi')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleReports.map(({ index, row, status, messages }) => (
+                                <tr key={index} className={`border-b ${isIncluded(index) ? '' : 'opacity-50'}`}>
+                                    <td className="px-3 py-1 text-center">
+                                        <input type="checkbox" checked={skipped.has(index)} onChange={() => toggleSkip(index)} />
+                                    </td>
+                                    <td className="px-3 py-1">{row.rowNumber}</td>
+                                    <td className="px-3 py-1">
+                                        <span className={`px-2 py-1 rounded-full font-semibold whitespace-nowrap ${IMPORT_STATUS_BADGES[status]}`}>
+                                            {t(IMPORT_STATUS_LABELS[status])}
+                                        </span>
+                                    </td>
+                                    {table.header.map((h, j) => (
+                                        <td key={h} className="px-3 py-1 whitespace-nowrap">
+                                            {editingIndex === index ? (
+                                                <input
+                                                    type="text"
+                                                    value={rows[index][j] ?? ''}
+                                                    onChange={(e) => handleCellChange(index, j, e.target.value)}
+                                                    className="w-28 px-1 py-0.5 border border-slate-300 rounded"
+                                                />
+                                            ) : rows[index][j]}
+                                        </td>
+                                    ))}
+                                    <td className="px-3 py-1 text-slate-700">{messages.join(' ')}</td>
+                                    <td className="px-3 py-1">
+                                        <button
+                                            onClick={() => setEditingIndex(editingIndex === index ? null : index)}
+                                            className="font-medium text-indigo-600 hover:underline"
+                                        >
+                                            {editingIndex === index ? t('Selesai') : t('Perbaiki')}
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex justify-end gap-3 mt-4">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50">
+                        {t('Batal')}
+                    </button>
+                    <button
+                        onClick={() => onImport(importable.map(r => r.row.entry), replacedIds)}
+                        disabled={importable.length === 0}
+                        className="bg-indigo-600 text-white font-bold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                    >
+                        {t('Impor {jumlah} Baris Valid', { jumlah: formatNumber(importable.length) })}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const SettingsPanel = ({ settings, onUpdateSettings, usedLocations }) => {
+    const { t, formatCurrency, formatNumber, formatDate } = useDisplayFormat();
+    const [newLocation, setNewLocation] = useState('');
+    const [error, setError] = useState('');
+    const [newTaxName, setNewTaxName] = useState('');
+    const [newTaxRate, setNewTaxRate] = useState('');
+    const [taxError, setTaxError] = useState('');
+
+    const handleAddLocation = () => {
+        const name = newLocation.trim().replace(/\s+/g, ' ');
+        if (!name) return;
+        if (settings.daftar_lokasi.some(loc => loc.toLowerCase() === name.toLowerCase())) {
+            setError(t('Lokasi "{lokasi}" sudah ada.', { lokasi: name }));
+            return;
+        }
+        onUpdateSettings({ ...settings, daftar_lokasi: [...settings.daftar_lokasi, name] });
+        setNewLocation('');
+        setError('');
+    };
+
+    const handleRemoveLocation = (location: string) => {
+        onUpdateSettings({ ...settings, daftar_lokasi: settings.daftar_lokasi.filter(loc => loc !== location) });
+    };
+
+    const handleAddTaxRate = () => {
+        const nama = newTaxName.trim().replace(/\s+/g, ' ');
+        const tarif = parseFloat(newTaxRate);
+        if (!nama || isNaN(tarif) || tarif <= 0 || tarif > 100) {
+            setTaxError(t('Isi nama pajak dan tarif antara 0 dan 100%.'));
+            return;
+        }
+        if (settings.tarif_pajak.some(rate => rate.nama.toLowerCase() === nama.toLowerCase())) {
+            setTaxError(t('Tarif pajak "{nama}" sudah ada.', { nama }));
+            return;
+        }
+        onUpdateSettings({ ...settings, tarif_pajak: [...settings.tarif_pajak, { nama, tarif }] });
+        setNewTaxName('');
+        setNewTaxRate('');
+        setTaxError('');
+    };
+
+    const handleRemoveTaxRate = (nama: string) => {
+        // Sales keep the rate they were recorded with, so removing a rate only affects new entries.
+        onUpdateSettings({
+            ...settings,
+            tarif_pajak: settings.tarif_pajak.filter(rate => rate.nama !== nama),
+            pajak_bawaan: settings.pajak_bawaan === nama ? '' : settings.pajak_bawaan,
+        });
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-4">{t('Pengaturan')}</h3>
+            <label htmlFor="metode_biaya" className="block text-sm font-medium text-slate-700 mb-1">{t('Metode Perhitungan HPP')}</label>
+            <select
+                id="metode_biaya"
+                value={settings.metode_biaya}
+                onChange={(e) => onUpdateSettings({ ...settings, metode_biaya: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+                {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map(method => (
+                    <option key={method} value={method}>{t(COSTING_METHOD_LABELS[method])}</option>
+                ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-2">
+                {t('FIFO dan rata-rata menghitung biaya penjualan dari harga beli pada transaksi pembelian. Stok awal dinilai dengan harga beli default di katalog.')}
+            </p>
+
+            <label htmlFor="nama_pengguna" className="block text-sm font-medium text-slate-700 mt-6 mb-1">{t('Nama Pengguna')}</label>
+            <input
+                id="nama_pengguna"
+                type="text"
+                value={settings.nama_pengguna}
+                onChange={(e) => onUpdateSettings({ ...settings, nama_pengguna: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <p className="text-xs text-slate-500 mt-2">{t('Dicatat di log aktivitas untuk setiap perubahan data.')}</p>
+
+            <h4 className="text-sm font-medium text-slate-700 mt-6 mb-2">{t('Gudang / Outlet')}</h4>
+            {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+            <div className="space-y-2">
+                {settings.daftar_lokasi.map(location => (
+                    <div key={location} className="flex items-center justify-between bg-slate-50 p-2 rounded-md">
+                        <span className="font-medium text-slate-700">{location}</span>
+                        {usedLocations.has(location) || settings.daftar_lokasi.length === 1 ? (
+                            <span className="text-xs text-slate-400">{t('Digunakan')}</span>
+                        ) : (
+                            <button onClick={() => handleRemoveLocation(location)} className="font-medium text-red-600 hover:underline text-sm">
+                                {t('Hapus')}
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-2 mt-3">
+                <input
+                    type="text"
+                    placeholder={t('Nama gudang atau outlet')}
+                    value={newLocation}
+                    onChange={(e) => { setNewLocation(e.target.value); setError(''); }}
+                    className="flex-grow px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <button
+                    onClick={handleAddLocation}
+                    className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+                >
+                    {t('Tambah')}
+                </button>
+            </div>
+
+            <h4 className="text-sm font-medium text-slate-700 mt-6 mb-2">{t('Pajak (PPN)')}</h4>
+            {taxError && <p className="text-sm text-red-600 mb-2">{taxError}</p>}
+            <div className="space-y-2">
+                {settings.tarif_pajak.map(rate => (
+                    <div key={rate.nama} className="flex items-center justify-between bg-slate-50 p-2 rounded-md">
+                        <span className="font-medium text-slate-700">{rate.nama} <span className="text-slate-500 font-normal">({formatNumber(rate.tarif)}%)</span></span>
+                        <button onClick={() => handleRemoveTaxRate(rate.nama)} className="font-medium text-red-600 hover:underline text-sm">
+                            {t('Hapus')}
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-2 mt-3">
+                <input
+                    type="text"
+                    placeholder={t('Nama pajak')}
+                    value={newTaxName}
+                    onChange={(e) => { setNewTaxName(e.target.value); setTaxError(''); }}
+                    className="flex-grow px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <input
+                    type="number"
+                    placeholder={t('Tarif %')}
+                    value={newTaxRate}
+                    onChange={(e) => { setNewTaxRate(e.target.value); setTaxError(''); }}
+                    className="w-24 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                />
+                <button
+                    onClick={handleAddTaxRate}
+                    className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+                >
+                    {t('Tambah')}
+                </button>
+            </div>
+            <label htmlFor="pajak_bawaan" className="block text-xs text-slate-500 mt-3 mb-1">{t('Pajak bawaan untuk penjualan baru')}</label>
+            <select
+                id="pajak_bawaan"
+                value={settings.pajak_bawaan}
+                onChange={(e) => onUpdateSettings({ ...settings, pajak_bawaan: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+                <option value="">{t('Tanpa Pajak')}</option>
+                {settings.tarif_pajak.map(rate => <option key={rate.nama} value={rate.nama}>{rate.nama}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-slate-700 mt-3">
+                <input
+                    type="checkbox"
+                    checked={settings.harga_termasuk_pajak}
+                    onChange={(e) => onUpdateSettings({ ...settings, harga_termasuk_pajak: e.target.checked })}
+                />
+                {t('Harga jual sudah termasuk pajak')}
+            </label>
+
+            <h4 className="text-sm font-medium text-slate-700 mt-6 mb-2">{t('Bahasa & Format')}</h4>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label htmlFor="bahasa" className="block text-xs text-slate-500 mb-1">{t('Bahasa')}</label>
+                    <select
+                        id="bahasa"
+                        value={settings.bahasa}
+                        onChange={(e) => onUpdateSettings({ ...settings, bahasa: e.target.value as Language })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                        {(Object.keys(LANGUAGE_LABELS) as Language[]).map(language => (
+                            <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="locale" className="block text-xs text-slate-500 mb-1">{t('Format Angka')}</label>
+                    <select
+                        id="locale"
+                        value={settings.locale}
+                        onChange={(e) => onUpdateSettings({ ...settings, locale: e.target.value })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                        {LOCALE_OPTIONS.map(locale => (
+                            <option key={locale} value={locale}>{locale} ({new Intl.NumberFormat(locale, { minimumFractionDigits: 2 }).format(1234567.89)})</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="mata_uang" className="block text-xs text-slate-500 mb-1">{t('Mata Uang')}</label>
+                    <select
+                        id="mata_uang"
+                        value={settings.mata_uang}
+                        onChange={(e) => onUpdateSettings({ ...settings, mata_uang: e.target.value })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                        {CURRENCY_OPTIONS.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="format_tanggal" className="block text-xs text-slate-500 mb-1">{t('Format Tanggal')}</label>
+                    <select
+                        id="format_tanggal"
+                        value={settings.format_tanggal}
+                        onChange={(e) => onUpdateSettings({ ...settings, format_tanggal: e.target.value as DateFormat })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                        {DATE_FORMAT_OPTIONS.map(format => <option key={format} value={format}>{format}</option>)}
+                    </select>
+                </div>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+                {t('Contoh: {tanggal} · {nominal}. Mata uang hanya mengubah tampilan; nilai transaksi tidak dikonversi.', { tanggal: formatDate(toISODate(new Date())), nominal: formatCurrency(1234567) })}
+            </p>
+        </div>
+    );
+};
+
+const BusinessProfilePanel = ({ profile, onUpdateProfile }: { profile: BusinessProfile; onUpdateProfile: (profile: BusinessProfile) => void }) => {
+    const display = useDisplayFormat();
+    const { t } = display;
+    const [error, setError] = useState('');
+    const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+    const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Reset file input
+        if (!file) return;
+        readLogoFile(file, display)
+            .then(logo => { onUpdateProfile({ ...profile, logo }); setError(''); })
+            .catch(e => setError(e.message || t('Logo tidak dapat dibaca.')));
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Profil Usaha')}</h3>
+            <p className="text-sm text-slate-500 mb-4">{t('Dicetak sebagai kop pada faktur dan struk.')}</p>
+            <div className="space-y-3">
+                <div>
+                    <label htmlFor="profil_nama" className="block text-sm font-medium text-slate-700 mb-1">{t('Nama Usaha')}</label>
+                    <input id="profil_nama" type="text" value={profile.nama} onChange={(e) => onUpdateProfile({ ...profile, nama: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="profil_alamat" className="block text-sm font-medium text-slate-700 mb-1">{t('Alamat')}</label>
+                    <textarea id="profil_alamat" rows={2} value={profile.alamat} onChange={(e) => onUpdateProfile({ ...profile, alamat: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="profil_npwp" className="block text-sm font-medium text-slate-700 mb-1">NPWP</label>
+                    <input id="profil_npwp" type="text" value={profile.npwp} onChange={(e) => onUpdateProfile({ ...profile, npwp: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                    <span className="block text-sm font-medium text-slate-700 mb-1">Logo</span>
+                    {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+                    <div className="flex items-center gap-3">
+                        {profile.logo && <img src={profile.logo.data} alt={t('Logo usaha')} className="h-12 border border-slate-200 rounded" />}
+                        <label className="cursor-pointer font-medium text-indigo-600 hover:underline text-sm">
+                            {profile.logo ? t('Ganti') : t('Unggah')}
+                            <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" />
+                        </label>
+                        {profile.logo && (
+                            <button onClick={() => onUpdateProfile({ ...profile, logo: null })} className="font-medium text-red-600 hover:underline text-sm">
+                                {t('Hapus')}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const BACKUP_REMINDER_OPTIONS = [0, 1, 7, 30];
+
+const BackupPanel = ({ lastBackup, reminderDays, onDownload, onRestore, onChangeReminder }) => {
+    const { t, formatDateTime } = useDisplayFormat();
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-2">{t('Backup & Pemulihan')}</h3>
+            <p className="text-sm text-slate-500 mb-4">
+                {t('Backup berisi semua transaksi, stok awal, katalog, dan pengaturan dalam satu file untuk dipindahkan ke browser lain atau dipulihkan nanti.')}
+                {' '}{t('Backup terakhir: {waktu}.', { waktu: lastBackup ? formatDateTime(lastBackup) : t('belum pernah') })}
+            </p>
+            <div className="flex flex-wrap gap-3">
+                <button onClick={onDownload} className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors">
+                    {t('Unduh Backup')}
+                </button>
+                <button onClick={onRestore} className="bg-slate-200 text-slate-700 font-semibold px-4 py-2 rounded-md hover:bg-slate-300 transition-colors">
+                    {t('Pulihkan dari Backup')}
+                </button>
+            </div>
+            <label htmlFor="pengingat_backup" className="block text-sm font-medium text-slate-700 mt-4 mb-1">{t('Pengingat Backup')}</label>
+            <select
+                id="pengingat_backup"
+                value={reminderDays}
+                onChange={(e) => onChangeReminder(parseInt(e.target.value, 10))}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+                {BACKUP_REMINDER_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days === 0 ? t('Nonaktif') : t('Setiap {hari} hari', { hari: days })}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+const RestoreBackupDialog = ({ backup, fileName, current, onRestore, onCancel }) => {
+    const { t, formatNumber, formatDateTime } = useDisplayFormat();
+    const [mode, setMode] = useState<RestoreMode>('ganti');
+    const [error, setError] = useState('');
+
+    const summary: RestoreSummary = useMemo(
+        () => summarizeRestore(current, buildRestoredWorkspace(current, backup, mode)),
+        [current, backup, mode]
+    );
+    const renumbered: { dari: string; ke: string }[] = useMemo(
+        () => mode === 'gabung' ? mergeInvoices(current.invoices, backup.faktur).renumbered : [],
+        [current, backup, mode]
+    );
+
+    const handleRestore = () => {
+        const restoreError = onRestore(mode);
+        if (restoreError) setError(restoreError);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/60 flex items-center justify-center p-4 z-50">
+            <div className="bg-white p-6 rounded-2xl shadow-lg w-full max-w-lg">
+                <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Pulihkan Backup')}</h3>
+                <p className="text-slate-500 text-sm mb-4">
+                    {fileName} · {t('dibuat {waktu}', { waktu: backup.dibuat ? formatDateTime(backup.dibuat) : '-' })} · {t('{transaksi} transaksi, {produk} produk', { transaksi: formatNumber(backup.transaksi.length), produk: formatNumber(backup.katalog.length) })}
+                </p>
+
+                <div className="space-y-2 mb-4">
+                    <label className="flex items-start gap-2 text-sm text-slate-700">
+                        <input type="radio" name="restore_mode" checked={mode === 'ganti'} onChange={() => setMode('ganti')} className="mt-1" />
+                        <span><span className="font-semibold">{t('Ganti')}</span> — {t('workspace saat ini diganti seluruhnya dengan isi backup.')}</span>
+                    </label>
+                    <label className="flex items-start gap-2 text-sm text-slate-700">
+                        <input type="radio" name="restore_mode" checked={mode === 'gabung'} onChange={() => setMode('gabung')} className="mt-1" />
+                        <span><span className="font-semibold">{t('Gabung')}</span> — {t('isi backup ditambahkan; transaksi dan stok awal yang sama diambil dari backup.')}</span>
+                    </label>
+                </div>
+
+                <div className="bg-slate-50 rounded-lg p-4 text-sm text-slate-700 space-y-1">
+                    <p className="font-semibold mb-1">{t('Perubahan yang akan terjadi:')}</p>
+                    <p>+ {t('{jumlah} transaksi baru', { jumlah: formatNumber(summary.added) })}</p>
+                    <p>~ {t('{jumlah} transaksi berubah', { jumlah: formatNumber(summary.changed) })}</p>
+                    <p className={summary.removed > 0 ? 'text-red-600' : ''}>- {t('{jumlah} transaksi dihapus', { jumlah: formatNumber(summary.removed) })}</p>
+                    <p>+ {t('{jumlah} produk baru di katalog', { jumlah: formatNumber(summary.newProducts) })}</p>
+                    <p>~ {t('{jumlah} nilai stok awal berubah', { jumlah: formatNumber(summary.stockChanges) })}</p>
+                    {renumbered.length > 0 && (
+                        <p className="text-amber-700">
+                            ~ {t('{jumlah} faktur dan struk diberi nomor baru karena nomornya sudah dipakai:', { jumlah: formatNumber(renumbered.length) })}{' '}
+                            {renumbered.map(change => `${change.dari} → ${change.ke}`).join(', ')}
+                        </p>
+                    )}
+                </div>
+
+                {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mt-4 text-sm" role="alert">{error}</div>}
+
+                <div className="flex justify-end gap-3 mt-4">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50">
+                        {t('Batal')}
+                    </button>
+                    <button onClick={handleRestore} className="px-4 py-2 rounded-md bg-indigo-600 text-white font-semibold hover:bg-indigo-700">
+                        {t('Pulihkan')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ImportHistory = ({ batches, data, onRollback }) => {
+    const { t, formatNumber, formatDateTime } = useDisplayFormat();
+    const rowsPerBatch: Record<string, number> = {};
+    for (const item of data) {
+        if (item.batch_id) {
+            rowsPerBatch[item.batch_id] = (rowsPerBatch[item.batch_id] || 0) + 1;
+        }
+    }
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-4">{t('Riwayat Impor')}</h3>
+            <div className="space-y-3 max-h-60 overflow-y-auto pr-2">
+                {batches.length > 0 ? [...batches].reverse().map(batch => (
+                    <div key={batch.id} className="flex items-center justify-between bg-slate-50 p-2 rounded-md">
+                        <div>
+                            <p className="font-medium text-slate-700">{batch.nama_file}</p>
+                            <p className="text-xs text-slate-500">
+                                {formatDateTime(batch.tanggal_impor)} · {t('{jumlah} baris', { jumlah: formatNumber(rowsPerBatch[batch.id] || 0) })}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => onRollback(batch.id)}
+                            className="font-medium text-red-600 hover:underline text-sm"
+                        >
+                            {t('Batalkan Impor')}
+                        </button>
+                    </div>
+                )) : <p className="text-slate-500 italic">{t('Belum ada file yang diimpor.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+const AUDIT_LOG_FIELDS: (keyof SalesData)[] = ['tanggal', 'lokasi', 'lokasi_tujuan', 'jumlah_terjual', 'jumlah_masuk', 'harga_beli', 'harga_jual', 'stok_sisa', 'diskon', 'diskon_transaksi', 'tarif_pajak', 'referensi'];
+
+/**
+ * One line naming the items of a list that a change added (+), changed (~) or removed (-); null when it did not touch the list.
+ */
+const describeCollectionChange = <T,>(label: string, before: T[] = [], after: T[] = [], getKey: (item: T) => string, getName: (item: T) => string): string | null => {
+    if (before.length === 0 && after.length === 0) return null;
+    const beforeKeys = new Set(before.map(getKey));
+    const afterKeys = new Set(after.map(getKey));
+    const names = [
+        ...after.map(item => `${beforeKeys.has(getKey(item)) ? '~' : '+'} ${getName(item)}`),
+        ...before.filter(item => !afterKeys.has(getKey(item))).map(item => `- ${getName(item)}`),
+    ];
+    return `${label}: ${names.join(', ')}`;
+};
+
+/**
+ * Human-readable lines for what an audit entry changed.
+ */
+const describeWorkspaceChange = (sebelum: WorkspaceChange, sesudah: WorkspaceChange, { t, formatDate }: DisplayFormat): string[] => {
+    const lines: string[] = [];
+    const beforeRows = new Map(sebelum.transaksi.map(item => [item.id, item]));
+    const afterIds = new Set(sesudah.transaksi.map(item => item.id));
+    const label = (item: SalesData) => `${t(TRANSACTION_TYPE_LABELS[item.jenis_transaksi])} ${item.nama_produk} (${formatDate(item.tanggal)}, ${item.lokasi})`;
+
+    for (const item of sesudah.transaksi) {
+        const previous = beforeRows.get(item.id);
+        if (!previous) {
+            lines.push(`+ ${label(item)}`);
+            continue;
+        }
+        const fields = AUDIT_LOG_FIELDS
+            .filter(field => (field !== 'stok_sisa' || item.jenis_transaksi === 'penyesuaian') && (previous[field] ?? '') !== (item[field] ?? ''))
+            .map(field => `${field}: ${previous[field] ?? '-'} → ${item[field] ?? '-'}`);
+        // Rows whose only difference is a recalculated cost are not worth listing.
+        if (fields.length > 0) lines.push(`~ ${label(item)}: ${fields.join(', ')}`);
+    }
+    for (const item of sebelum.transaksi) {
+        if (!afterIds.has(item.id)) lines.push(`- ${label(item)}`);
+    }
+
+    if (sebelum.stok_awal || sesudah.stok_awal) {
+        const before = sebelum.stok_awal || {};
+        const after = sesudah.stok_awal || {};
+        for (const location of new Set([...Object.keys(before), ...Object.keys(after)])) {
+            for (const product of new Set([...Object.keys(before[location] || {}), ...Object.keys(after[location] || {})])) {
+                const from = before[location]?.[product];
+                const to = after[location]?.[product];
+                if (from !== to) lines.push(`${t('Stok awal {produk} di {lokasi}', { produk: product, lokasi: location })}: ${from ?? '-'} → ${to ?? '-'}`);
+            }
+        }
+    }
+    lines.push(...[
+        describeCollectionChange(t('Katalog produk'), sebelum.katalog, sesudah.katalog, getProductKey, product => product.nama),
+        describeCollectionChange(t('Riwayat impor'), sebelum.riwayat_impor, sesudah.riwayat_impor, getBatchKey, batch => batch.nama_file),
+        describeCollectionChange(t('Preset pemetaan'), sebelum.preset_pemetaan, sesudah.preset_pemetaan, getPresetKey, preset => preset.nama),
+        describeCollectionChange(t('Pelanggan'), sebelum.pelanggan, sesudah.pelanggan, getCustomerKey, customer => customer.nama),
+        describeCollectionChange(t('Faktur & Struk'), sebelum.faktur, sesudah.faktur, getInvoiceKey, invoice => invoice.nomor),
+        describeCollectionChange(t('Biaya Operasional'), sebelum.biaya_operasional, sesudah.biaya_operasional, getExpenseKey, expense => `${expense.kategori} ${formatDate(expense.tanggal)}`),
+    ].filter(line => line !== null));
+    if (sesudah.pengaturan) lines.push(`${t('Pengaturan')}: ${Object.keys(sesudah.pengaturan).join(', ')}`);
+    return lines;
+};
+
+const AuditLogViewer = ({ entries }: { entries: AuditEntry[] }) => {
+    const display = useDisplayFormat();
+    const { t, formatDateTime } = display;
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-4">{t('Log Aktivitas')}</h3>
+            <div className="space-y-2 max-h-80 overflow-y-auto pr-2">
+                {entries.length > 0 ? [...entries].reverse().map(entry => (
+                    <div key={entry.id} className="bg-slate-50 p-2 rounded-md">
+                        <button
+                            onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                            className="w-full text-left"
+                        >
+                            <p className="font-medium text-slate-700">
+                                <span className="text-xs font-semibold text-indigo-700 mr-2">{t(AUDIT_ACTION_LABELS[entry.aksi])}</span>
+                                {entry.keterangan}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                                {formatDateTime(entry.waktu)} · {entry.pengguna}
+                            </p>
+                        </button>
+                        {expandedId === entry.id && (
+                            <ul className="mt-2 text-xs text-slate-600 font-mono space-y-0.5 break-words">
+                                {describeWorkspaceChange(entry.sebelum, entry.sesudah, display).map((line, index) => <li key={index}>{line}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                )) : <p className="text-slate-500 italic">{t('Belum ada aktivitas yang tercatat.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+const HistoryControls = ({ undoEntry, redoEntry, onUndo, onRedo }: { undoEntry?: AuditEntry; redoEntry?: AuditEntry; onUndo: () => void; onRedo: () => void }) => {
+    const { t } = useDisplayFormat();
+    return (
+        <div className="flex gap-2">
+            <button
+                onClick={onUndo}
+                disabled={!undoEntry}
+                title={undoEntry ? `${t('Urungkan')}: ${undoEntry.keterangan}` : t('Tidak ada yang dapat diurungkan')}
+                className="bg-white border border-slate-300 text-slate-700 font-semibold px-3 py-1.5 rounded-md text-sm hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                ↶ {t('Urungkan')}
+            </button>
+            <button
+                onClick={onRedo}
+                disabled={!redoEntry}
+                title={redoEntry ? `${t('Ulangi')}: ${redoEntry.keterangan}` : t('Tidak ada yang dapat diulangi')}
+                className="bg-white border border-slate-300 text-slate-700 font-semibold px-3 py-1.5 rounded-md text-sm hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                ↷ {t('Ulangi')}
+            </button>
+        </div>
+    );
+};
+
+const TRANSACTION_TYPE_BADGES: Record<TransactionType, string> = {
+    penjualan: 'bg-blue-100 text-blue-700',
+    pembelian: 'bg-green-100 text-green-700',
+    penyesuaian: 'bg-slate-200 text-slate-700',
+    transfer: 'bg-amber-100 text-amber-700',
+    retur: 'bg-rose-100 text-rose-700',
+};
+
+type BulkEditField = 'tanggal' | 'lokasi' | 'harga_beli' | 'harga_jual';
+
+const BULK_EDIT_FIELDS: Record<BulkEditField, string> = {
+    tanggal: 'Tanggal',
+    lokasi: 'Lokasi',
+    harga_beli: 'Harga Beli',
+    harga_jual: 'Harga Jual',
+};
+
+type ColumnFormat = 'teks' | 'tanggal' | 'angka' | 'uang';
+
+interface DataTableColumn {
+    key: SortKey;
+    label: string;
+    format: ColumnFormat;
+}
+
+// Every column the transaction table can show, in display order.
+const DATA_TABLE_COLUMNS: DataTableColumn[] = [
+    { key: 'tanggal', label: 'Tanggal', format: 'tanggal' },
+    { key: 'jenis_transaksi', label: 'Jenis', format: 'teks' },
+    { key: 'nama_produk', label: 'Nama Produk', format: 'teks' },
+    { key: 'lokasi', label: 'Lokasi', format: 'teks' },
+    { key: 'pelanggan', label: 'Pelanggan', format: 'teks' },
+    { key: 'referensi', label: 'Referensi', format: 'teks' },
+    { key: 'jumlah_terjual', label: 'Jml Terjual', format: 'angka' },
+    { key: 'jumlah_masuk', label: 'Jml Masuk', format: 'angka' },
+    { key: 'harga_beli', label: 'Harga Beli', format: 'uang' },
+    { key: 'harga_jual', label: 'Harga Jual', format: 'uang' },
+    { key: 'diskon', label: 'Diskon', format: 'uang' },
+    { key: 'total_penjualan', label: 'Total Penjualan', format: 'uang' },
+    { key: 'pajak', label: 'PPN', format: 'uang' },
+    { key: 'total_biaya', label: 'Total Biaya', format: 'uang' },
+    { key: 'laba', label: 'Laba', format: 'uang' },
+    { key: 'stok_sisa', label: 'Stok Sisa', format: 'angka' },
+    { key: 'jatuh_tempo', label: 'Jatuh Tempo', format: 'tanggal' },
+];
+
+const DEFAULT_VISIBLE_COLUMNS: SortKey[] = ['tanggal', 'jenis_transaksi', 'nama_produk', 'lokasi', 'jumlah_terjual', 'jumlah_masuk', 'harga_jual', 'laba', 'stok_sisa'];
+
+const PAGE_SIZE_OPTIONS = [25, 50, 100, 250];
+
+interface TableFilters {
+    cari: string;
+    mulai: string;
+    sampai: string;
+    /** Selected product names; empty means all products. */
+    produk: string[];
+    /** Inclusive bounds per numeric column, kept as typed; blank bounds are ignored. */
+    rentang: Partial<Record<SortKey, { min: string; max: string }>>;
+}
+
+const EMPTY_TABLE_FILTERS: TableFilters = { cari: '', mulai: '', sampai: '', produk: [], rentang: {} };
+
+const countActiveFilters = (filters: TableFilters): number =>
+    (filters.cari.trim() ? 1 : 0) + (filters.mulai || filters.sampai ? 1 : 0) + (filters.produk.length > 0 ? 1 : 0)
+    + Object.values(filters.rentang).filter(range => range.min !== '' || range.max !== '').length;
+
+/**
+ * Keeps the transactions matching the search text and every column filter, in their original order.
+ * The search looks at the product, type, locations, customer, reference and date.
+ */
+const applyTableFilters = (data: SalesData[], filters: TableFilters, { t, formatDate }: DisplayFormat): SalesData[] => {
+    const query = filters.cari.trim().toLowerCase();
+    const products = new Set(filters.produk);
+    const ranges = Object.entries(filters.rentang)
+        .map(([key, range]) => ({ key: key as SortKey, min: range.min === '' ? -Infinity : Number(range.min), max: range.max === '' ? Infinity : Number(range.max) }))
+        .filter(range => range.min !== -Infinity || range.max !== Infinity);
+    return data.filter(item => {
+        const tanggal = item.tanggal.slice(0, 10);
+        if (filters.mulai && tanggal < filters.mulai) return false;
+        if (filters.sampai && tanggal > filters.sampai) return false;
+        if (products.size > 0 && !products.has(item.nama_produk)) return false;
+        if (ranges.some(range => {
+            const value = Number(item[range.key] ?? 0);
+            return value < range.min || value > range.max;
+        })) return false;
+        if (!query) return true;
+        return [item.nama_produk, t(TRANSACTION_TYPE_LABELS[item.jenis_transaksi]), item.lokasi, item.lokasi_tujuan, item.pelanggan, item.referensi, tanggal, formatDate(item.tanggal)]
+            .some(value => value && value.toLowerCase().includes(query));
+    });
+};
+
+/**
+ * Sorts transactions by each sort key in turn; later keys only break ties of earlier ones.
+ * Missing optional values sort as 0 or an empty text.
+ */
+const sortTransactions = (data: SalesData[], sorts: SortConfig[]): SalesData[] => {
+    if (sorts.length === 0) return data;
+    return [...data].sort((a, b) => {
+        for (const { key, direction } of sorts) {
+            const numeric = NUMERIC_COLUMNS.includes(key);
+            const aValue = a[key] ?? (numeric ? 0 : '');
+            const bValue = b[key] ?? (numeric ? 0 : '');
+            const result = typeof aValue === 'number' && typeof bValue === 'number'
+                ? aValue - bValue
+                : String(aValue).localeCompare(String(bValue));
+            if (result !== 0) return direction === 'ascending' ? result : -result;
+        }
+        return 0;
+    });
+};
+
+const exportTableView = (data: SalesData[], columns: SortKey[], filename: string) => {
+    if (data.length === 0) return;
+    downloadFile('\uFEFF' + buildCSV(columns, data.map(row => columns.map(key => row[key]))), filename, 'text/csv;charset=utf-8;');
+};
+
+const InvoiceDocument = ({ invoice, profile }: { invoice: Invoice; profile: BusinessProfile }) => {
+    const display = useDisplayFormat();
+    const { t, formatCurrency, formatNumber, formatDate } = display;
+    const hasDiscount = invoice.baris.some(line => line.diskon);
+    const labelSpan = hasDiscount ? 5 : 4;
+    return (
+        <div id="invoice-print" className="bg-white text-slate-800 p-8">
+            <div className="flex justify-between gap-6 border-b border-slate-300 pb-4 mb-4">
+                <div className="flex gap-4">
+                    {profile.logo && <img src={profile.logo.data} alt={t('Logo usaha')} className="h-14" />}
+                    <div>
+                        <p className="text-lg font-bold">{profile.nama || t('Nama Usaha')}</p>
+                        {profile.alamat && <p className="text-sm whitespace-pre-line">{profile.alamat}</p>}
+                        {profile.npwp && <p className="text-sm">NPWP: {profile.npwp}</p>}
+                    </div>
+                </div>
+                <div className="text-right text-sm">
+                    <p className="text-xl font-bold uppercase">{t(INVOICE_TYPE_LABELS[invoice.jenis])}</p>
+                    <p>No. {invoice.nomor}</p>
+                    <p>{t('Tanggal')}: {formatDate(invoice.tanggal)}</p>
+                    {invoice.jatuh_tempo && <p>{t('Jatuh Tempo')}: {formatDate(invoice.jatuh_tempo)}</p>}
+                </div>
+            </div>
+            {invoice.pelanggan && <p className="text-sm mb-4"><span className="font-semibold">{t('Kepada')}:</span> {invoice.pelanggan}</p>}
+            <table className="w-full text-sm text-left">
+                <thead className="bg-slate-100">
+                    <tr>
+                        <th className="px-2 py-2">{t('No')}</th>
+                        <th className="px-2 py-2">{t('Produk')}</th>
+                        <th className="px-2 py-2 text-right">{t('Jumlah')}</th>
+                        <th className="px-2 py-2 text-right">{t('Harga')}</th>
+                        {hasDiscount && <th className="px-2 py-2 text-right">{t('Diskon')}</th>}
+                        <th className="px-2 py-2 text-right">{t('Total')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {invoice.baris.map((line, i) => (
+                        <tr key={i} className="border-b border-slate-200">
+                            <td className="px-2 py-1">{i + 1}</td>
+                            <td className="px-2 py-1">{line.nama_produk}</td>
+                            <td className="px-2 py-1 text-right">{formatNumber(line.jumlah)}</td>
+                            <td className="px-2 py-1 text-right">{formatCurrency(line.harga_jual)}</td>
+                            {hasDiscount && <td className="px-2 py-1 text-right">{line.diskon ? formatCurrency(line.diskon) : '-'}</td>}
+                            <td className="px-2 py-1 text-right">{formatCurrency(line.total)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+                <tfoot>
+                    {getInvoiceTotalRows(invoice, display).map(([label, amount, bold], i) => (
+                        <tr key={label} className={bold ? 'font-bold' : ''}>
+                            <td colSpan={labelSpan} className={`px-2 text-right ${i === 0 ? 'pt-3' : ''}`}>{label}</td>
+                            <td className={`px-2 text-right ${i === 0 ? 'pt-3' : ''}`}>{formatCurrency(amount)}</td>
+                        </tr>
+                    ))}
+                </tfoot>
+            </table>
+            <p className="text-sm mt-8">{t('Terima kasih atas pembelian Anda.')}</p>
+        </div>
+    );
+};
+
+const InvoiceDialog = ({ invoice, profile, onClose }: { invoice: Invoice; profile: BusinessProfile; onClose: () => void }) => {
+    const display = useDisplayFormat();
+    const { t } = display;
+    return (
+        <div className="fixed inset-0 bg-slate-900/60 flex items-center justify-center p-4 z-50 print-container">
+            <div className="bg-white rounded-2xl shadow-lg w-full max-w-3xl max-h-full overflow-y-auto">
+                <div className="flex justify-end gap-3 p-4 border-b border-slate-200 no-print">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50">
+                        {t('Tutup')}
+                    </button>
+                    <button
+                        onClick={() => downloadFile(buildInvoicePdf(invoice, profile, display), getInvoiceFileName(invoice), 'application/pdf')}
+                        className="px-4 py-2 rounded-md border border-indigo-600 text-indigo-600 font-semibold hover:bg-indigo-50"
+                    >
+                        {t('Unduh PDF')}
+                    </button>
+                    <button onClick={() => window.print()} className="px-4 py-2 rounded-md bg-indigo-600 text-white font-semibold hover:bg-indigo-700">
+                        {t('Cetak')}
+                    </button>
+                </div>
+                <InvoiceDocument invoice={invoice} profile={profile} />
+            </div>
+        </div>
+    );
+};
+
+const InvoiceHistory = ({ invoices, onOpen }: { invoices: Invoice[]; onOpen: (invoice: Invoice) => void }) => {
+    const { t, formatCurrency, formatDate } = useDisplayFormat();
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h3 className="text-xl font-bold text-slate-800 mb-1">{t('Faktur & Struk')}</h3>
+            <p className="text-sm text-slate-500 mb-4">{t('Pilih transaksi penjualan di tabel data untuk menerbitkan dokumen baru.')}</p>
+            <div className="max-h-60 overflow-y-auto pr-2 space-y-2">
+                {invoices.length > 0 ? [...invoices].reverse().map(invoice => (
+                    <div key={invoice.id} className="flex items-center justify-between bg-slate-50 p-2 rounded-md text-sm">
+                        <div>
+                            <p className="font-medium text-slate-700">{invoice.nomor}</p>
+                            <p className="text-xs text-slate-500">{formatDate(invoice.tanggal)} · {invoice.pelanggan || t('Umum')} · {formatCurrency(invoice.total)}</p>
+                        </div>
+                        <button onClick={() => onOpen(invoice)} className="font-medium text-indigo-600 hover:underline">
+                            {t('Lihat')}
+                        </button>
+                    </div>
+                )) : <p className="text-slate-500 italic">{t('Belum ada dokumen yang diterbitkan.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+const DataTable = ({ data, allData, initialStocks, costing, locations, onSort, sortConfig, onDeleteRow, onSaveEdits, onCreateInvoice }) => {
+    const display = useDisplayFormat();
+    const { t, formatCurrency, formatNumber, formatDate } = display;
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    // Rows in edit mode, keyed by id, holding their edited values until saved.
+    const [drafts, setDrafts] = useState<Record<string, SalesData>>({});
+    const [bulkField, setBulkField] = useState<BulkEditField>('harga_jual');
+    const [bulkValue, setBulkValue] = useState('');
+    const [saveError, setSaveError] = useState('');
+    const [invoiceError, setInvoiceError] = useState('');
+    const [discountValue, setDiscountValue] = useState('');
+    const [discountType, setDiscountType] = useState<DiscountType>('persen');
+    const [discountError, setDiscountError] = useState('');
+    const [filters, setFilters] = useState<TableFilters>(EMPTY_TABLE_FILTERS);
+    const [showFilters, setShowFilters] = useState(false);
+    const [productQuery, setProductQuery] = useState('');
+    const [visibleColumns, setVisibleColumns] = useState<SortKey[]>(DEFAULT_VISIBLE_COLUMNS);
+    const [showColumns, setShowColumns] = useState(false);
+    const [page, setPage] = useState(1);
+    const [pageSize, setPageSize] = useState(PAGE_SIZE_OPTIONS[1]);
+
+    const isEditing = Object.keys(drafts).length > 0;
+
+    const filteredRows: SalesData[] = useMemo(() => applyTableFilters(data, filters, display), [data, filters, display]);
+    const productNames: string[] = useMemo(() => [...new Set<string>(data.map((item: SalesData) => item.nama_produk))].sort((a, b) => a.localeCompare(b)), [data]);
+    // Only one page of rows is rendered, so large datasets stay responsive.
+    const pageCount = Math.max(1, Math.ceil(filteredRows.length / pageSize));
+    const currentPage = Math.min(page, pageCount);
+    const pageRows = filteredRows.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+    const columns = DATA_TABLE_COLUMNS.filter(column => visibleColumns.includes(column.key));
+    const activeFilterCount = countActiveFilters(filters);
 
-        const total_penjualan = isSale ? jumlah_terjual * harga_jual : 0;
-        const total_biaya = isSale ? jumlah_terjual * harga_beli : 0;
-        const laba = isSale ? total_penjualan - total_biaya : 0;
+    const updateFilters = (changes: Partial<TableFilters>) => {
+        setFilters(prev => ({ ...prev, ...changes }));
+        setPage(1);
+    };
 
-        const newEntry = {
-            id: `id_manual_${Date.now()}_${Math.random()}`,
-            tanggal: formData.tanggal,
-            nama_produk,
-            jumlah_terjual,
-            harga_beli,
-            harga_jual,
-            total_penjualan,
-            total_biaya,
-            laba,
-            stok_sisa: isSale ? 0 : stok_sisa, // Will be recalculated, but need a value for adjustment type
-        };
+    const updateRange = (key: SortKey, bound: 'min' | 'max', value: string) => {
+        const range = { min: '', max: '', ...filters.rentang[key], [bound]: value };
+        updateFilters({ rentang: { ...filters.rentang, [key]: range } });
+    };
 
-        const addError = onAddEntry(newEntry);
-        if (addError) {
-            setError(addError);
+    const toggleProduct = (name: string) => {
+        updateFilters({ produk: filters.produk.includes(name) ? filters.produk.filter(p => p !== name) : [...filters.produk, name] });
+    };
+
+    const toggleColumn = (key: SortKey) => {
+        setVisibleColumns(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+    };
+
+    const preview: { violations: StockViolation[], stockChanges: StockChange[] } | null = useMemo(
+        () => isEditing ? previewTransactionEdits(allData, drafts, initialStocks, costing, display) : null,
+        [isEditing, allData, drafts, initialStocks, costing, display]
+    );
+
+    // Shift-click adds a column to the sort order instead of replacing it.
+    const requestSort = (key: SortKey, additive: boolean) => {
+        const current = sortConfig.find(sort => sort.key === key);
+        const direction: 'ascending' | 'descending' = current?.direction === 'ascending' ? 'descending' : 'ascending';
+        if (!additive) {
+            onSort([{ key, direction }]);
         } else {
-            // Reset form
-            setFormData({
-                tanggal: today,
-                nama_produk: '',
-                jumlah_terjual: '',
-                harga_beli: '',
-                harga_jual: '',
-                stok_sisa: '',
-                entryType: 'sale'
-            });
+            onSort(current ? sortConfig.map(sort => sort.key === key ? { key, direction } : sort) : [...sortConfig, { key, direction }]);
         }
     };
 
-    return (
-        <div className="bg-slate-800 p-6 rounded-2xl shadow-lg">
-            <h3 className="text-xl font-bold text-slate-100 mb-4">Input Data Manual</h3>
-            <form onSubmit={handleSubmit}>
-                {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative mb-4" role="alert">{error}</div>}
-                
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                    {/* Date */}
-                    <div>
-                        <label htmlFor="tanggal" className="block text-sm font-medium text-slate-300 mb-1">Tanggal</label>
-                        <input
-                            type="date"
-                            id="tanggal"
-                            name="tanggal"
-                            value={formData.tanggal}
-                            onChange={handleChange}
-                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                            required
-                        />
-                    </div>
+    const getSortIcon = (key: SortKey) => {
+        const index = sortConfig.findIndex(sort => sort.key === key);
+        if (index === -1) {
+            return null;
+        }
+        return (
+            <>
+                {sortConfig[index].direction === 'ascending' ? <ChevronUpIcon /> : <ChevronDownIcon />}
+                {sortConfig.length > 1 && <span className="ml-0.5">{index + 1}</span>}
+            </>
+        );
+    };
 
-                    {/* Product Name */}
-                    <div>
-                        <label htmlFor="nama_produk" className="block text-sm font-medium text-slate-300 mb-1">Nama Produk (Baru atau Lama)</label>
-                        <input
-                            type="text"
-                            id="nama_produk"
-                            name="nama_produk"
-                            list="product-list"
-                            value={formData.nama_produk}
-                            onChange={handleChange}
-                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                            required
-                        />
-                        <datalist id="product-list">
-                            {products.map(p => <option key={p} value={p} />)}
-                        </datalist>
-                    </div>
+    const handleCreateInvoice = (jenis: InvoiceType) => {
+        const invoiceResult = onCreateInvoice([...selectedIds], jenis);
+        setInvoiceError(invoiceResult ?? '');
+        if (!invoiceResult) setSelectedIds(new Set());
+    };
 
-                    {/* Entry Type */}
-                    <div>
-                        <label htmlFor="entryType" className="block text-sm font-medium text-slate-300 mb-1">Jenis Input</label>
-                        <select
-                            id="entryType"
-                            name="entryType"
-                            value={formData.entryType}
-                            onChange={handleChange}
-                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                        >
-                            <option value="sale">Penjualan</option>
-                            <option value="adjustment">Penyesuaian Stok</option>
-                        </select>
-                    </div>
+    // A discount on the whole transaction is spread over the selected sale lines.
+    const handleApplyTransactionDiscount = () => {
+        const sales: SalesData[] = allData.filter(item => selectedIds.has(item.id));
+        if (sales.some(item => item.jenis_transaksi !== 'penjualan')) {
+            setDiscountError(t('Diskon nota hanya dapat diberikan pada transaksi penjualan.'));
+            return;
+        }
+        const value = parseFloat(discountValue || '0');
+        const amount = sales.reduce((acc, item) => acc + Math.max(0, item.jumlah_terjual * item.harga_jual - (item.diskon ?? 0)), 0);
+        const discount = resolveDiscount(amount, value, discountType);
+        if (isNaN(value) || value < 0 || (discountType === 'persen' && value > 100) || discount > amount) {
+            setDiscountError(t('Diskon nota harus antara 0 dan {maksimum}.', { maksimum: discountType === 'persen' ? '100%' : formatCurrency(amount) }));
+            return;
+        }
+        const error = onSaveEdits(allocateTransactionDiscount(sales, discount));
+        setDiscountError(error ?? '');
+        if (!error) {
+            setDiscountValue('');
+            setSelectedIds(new Set());
+        }
+    };
 
-                    {formData.entryType === 'sale' ? (
-                        <>
-                            {/* Jumlah Terjual */}
-                            <div>
-                                <label htmlFor="jumlah_terjual" className="block text-sm font-medium text-slate-300 mb-1">Jumlah Terjual</label>
-                                <input
-                                    type="number"
-                                    id="jumlah_terjual"
-                                    name="jumlah_terjual"
-                                    value={formData.jumlah_terjual}
-                                    onChange={handleChange}
-                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                                    min="0"
-                                />
-                            </div>
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            next.has(id) ? next.delete(id) : next.add(id);
+            return next;
+        });
+    };
 
-                            {/* Harga Beli */}
-                            <div>
-                                <label htmlFor="harga_beli" className="block text-sm font-medium text-slate-300 mb-1">Harga Beli (per item)</label>
-                                <input
-                                    type="number"
-                                    id="harga_beli"
-                                    name="harga_beli"
-                                    value={formData.harga_beli}
-                                    onChange={handleChange}
-                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                                    min="0"
-                                />
-                            </div>
+    const allSelected = pageRows.length > 0 && pageRows.every(item => selectedIds.has(item.id));
+    const toggleAll = () => setSelectedIds(prev => {
+        const next = new Set(prev);
+        pageRows.forEach(item => allSelected ? next.delete(item.id) : next.add(item.id));
+        return next;
+    });
 
-                            {/* Harga Jual */}
-                            <div>
-                                <label htmlFor="harga_jual" className="block text-sm font-medium text-slate-300 mb-1">Harga Jual (per item)</label>
-                                <input
-                                    type="number"
-                                    id="harga_jual"
-                                    name="harga_jual"
-                                    value={formData.harga_jual}
-                                    onChange={handleChange}
-                                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                                    min="0"
-                                />
-                            </div>
-                        </>
-                    ) : (
-                        // Stock Adjustment
-                        <div>
-                            <label htmlFor="stok_sisa" className="block text-sm font-medium text-slate-300 mb-1">Jumlah Stok Baru</label>
-                            <input
-                                type="number"
-                                id="stok_sisa"
-                                name="stok_sisa"
-                                value={formData.stok_sisa}
-                                onChange={handleChange}
-                                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                                min="0"
-                            />
-                        </div>
-                    )}
-                </div>
-                
-                <div className="mt-6">
-                    <button type="submit" className="w-full bg-indigo-600 text-white font-bold py-2 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
-                        Tambah Data
-                    </button>
-                </div>
-            </form>
-        </div>
-    );
-};
+    const startEditing = (ids: string[]) => {
+        setDrafts(prev => {
+            const next = { ...prev };
+            for (const item of allData) {
+                if (ids.includes(item.id) && !next[item.id]) next[item.id] = item;
+            }
+            return next;
+        });
+        setSaveError('');
+    };
 
-const InitialStockManager = ({ initialStocks, onUpdateStocks }) => {
-    const [stocks, setStocks] = useState(initialStocks);
-    const [newProduct, setNewProduct] = useState('');
-    const [newStock, setNewStock] = useState('');
+    const updateDraft = (id: string, field: keyof SalesData, value: string) => {
+        const numeric = field !== 'tanggal' && field !== 'lokasi' && field !== 'lokasi_tujuan';
+        setDrafts(prev => ({ ...prev, [id]: { ...prev[id], [field]: numeric ? (value === '' ? 0 : parseFloat(value)) : value } }));
+        setSaveError('');
+    };
 
-    useEffect(() => {
-        setStocks(initialStocks);
-    }, [initialStocks]);
+    const applyBulkEdit = () => {
+        if (bulkValue === '') return;
+        Object.keys(drafts).forEach(id => updateDraft(id, bulkField, bulkValue));
+    };
 
-    const handleAddStock = () => {
-        const productName = newProduct.trim();
-        const stockAmount = parseInt(newStock, 10);
-        if (productName && !isNaN(stockAmount) && stockAmount >= 0) {
-            const updatedStocks = { ...stocks, [productName]: stockAmount };
-            setStocks(updatedStocks);
-            onUpdateStocks(updatedStocks);
-            setNewProduct('');
-            setNewStock('');
+    const cancelEditing = () => {
+        setDrafts({});
+        setSaveError('');
+    };
+
+    const saveEdits = () => {
+        const edited: SalesData[] = Object.values(drafts);
+        const invalid = edited.find(item =>
+            !item.tanggal || isNaN(new Date(item.tanggal).getTime())
+            || [item.jumlah_terjual, item.jumlah_masuk, item.harga_beli, item.harga_jual, item.stok_sisa].some(v => isNaN(v) || v < 0)
+        );
+        if (invalid) {
+            setSaveError(t('Periksa kembali nilai pada baris "{produk}" ({tanggal}): tanggal harus valid dan angka tidak boleh negatif.', { produk: invalid.nama_produk, tanggal: invalid.tanggal }));
+            return;
+        }
+        if (edited.some(item => item.jenis_transaksi === 'transfer' && item.lokasi_tujuan === item.lokasi)) {
+            setSaveError(t('Lokasi tujuan transfer harus berbeda dari lokasi asal.'));
+            return;
+        }
+        const error = onSaveEdits(edited.map(recomputeTotals));
+        if (error) {
+            setSaveError(error);
+        } else {
+            setDrafts({});
+            setSelectedIds(new Set());
         }
     };
-    
-    const handleStockChange = (productName, value) => {
-        const stockAmount = parseInt(value, 10);
-        if (!isNaN(stockAmount) && stockAmount >= 0) {
-            const updatedStocks = { ...stocks, [productName]: stockAmount };
-            setStocks(updatedStocks);
-            onUpdateStocks(updatedStocks);
+
+    const inputClass = 'w-full px-2 py-1 border border-slate-300 rounded-md text-sm text-slate-900';
+    const numberInput = (item: SalesData, field: keyof SalesData, placeholder?: string) => (
+        <input
+            type="number"
+            min="0"
+            value={item[field] as number}
+            placeholder={placeholder}
+            title={placeholder}
+            onChange={(e) => updateDraft(item.id, field, e.target.value)}
+            className={`${inputClass} w-24 text-right`}
+        />
+    );
+    const locationSelect = (item: SalesData, field: 'lokasi' | 'lokasi_tujuan') => (
+        <select value={item[field] || ''} onChange={(e) => updateDraft(item.id, field, e.target.value)} className={inputClass}>
+            {locations.map(location => <option key={location} value={location}>{location}</option>)}
+        </select>
+    );
+
+    const changedIds = new Set(preview?.stockChanges.map(change => change.id) ?? []);
+    const violatingIds = new Set(preview?.violations.map(violation => violation.id) ?? []);
+    const showsPurchasePrice = visibleColumns.includes('harga_beli');
+
+    const renderCell = (column: DataTableColumn, item: SalesData, draft: SalesData | undefined) => {
+        const { key, format } = column;
+        const canEditPrice = item.jenis_transaksi === 'penjualan' || item.jenis_transaksi === 'pembelian';
+        switch (key) {
+            case 'tanggal':
+                return draft
+                    ? <input type="date" value={item.tanggal.slice(0, 10)} onChange={(e) => updateDraft(item.id, 'tanggal', e.target.value)} className={inputClass} />
+                    : formatDate(item.tanggal);
+            case 'jenis_transaksi':
+                return (
+                    <span className={`px-2 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${TRANSACTION_TYPE_BADGES[item.jenis_transaksi]}`}>
+                        {t(TRANSACTION_TYPE_LABELS[item.jenis_transaksi])}
+                    </span>
+                );
+            case 'lokasi':
+                return draft ? (
+                    <div className="space-y-1">
+                        {locationSelect(item, 'lokasi')}
+                        {item.jenis_transaksi === 'transfer' && locationSelect(item, 'lokasi_tujuan')}
+                    </div>
+                ) : (
+                    <>{item.lokasi}{item.jenis_transaksi === 'transfer' && ` → ${item.lokasi_tujuan}`}</>
+                );
+            case 'jumlah_terjual':
+                if (draft && item.jenis_transaksi === 'penjualan') return numberInput(item, 'jumlah_terjual');
+                break;
+            case 'jumlah_masuk':
+                if (draft && (item.jenis_transaksi === 'pembelian' || item.jenis_transaksi === 'transfer')) return numberInput(item, 'jumlah_masuk');
+                break;
+            case 'harga_beli':
+                if (draft && canEditPrice) return numberInput(item, 'harga_beli', t('Harga beli'));
+                break;
+            case 'harga_jual':
+                // Without a purchase price column, its input sits above the selling price.
+                if (draft && canEditPrice && (!showsPurchasePrice || item.jenis_transaksi === 'penjualan')) {
+                    return (
+                        <div className="space-y-1">
+                            {!showsPurchasePrice && numberInput(item, 'harga_beli', t('Harga beli'))}
+                            {item.jenis_transaksi === 'penjualan' && numberInput(item, 'harga_jual', t('Harga jual'))}
+                        </div>
+                    );
+                }
+                break;
+            case 'stok_sisa':
+                if (draft && item.jenis_transaksi === 'penyesuaian') return numberInput(item, 'stok_sisa');
+                break;
         }
+        const value = item[key];
+        if (value === undefined || value === '') return '-';
+        if (format === 'uang') return formatCurrency(value as number);
+        if (format === 'angka') return formatNumber(value as number);
+        if (format === 'tanggal') return formatDate(value as string);
+        return value as string;
+    };
+
+    const getCellClass = (column: DataTableColumn) => {
+        if (column.key === 'stok_sisa') return 'px-6 py-4 text-right font-bold';
+        if (column.format === 'uang' || column.format === 'angka') return 'px-6 py-4 text-right';
+        if (column.key === 'nama_produk') return 'px-6 py-4 font-medium text-slate-900 whitespace-nowrap';
+        return 'px-6 py-4 whitespace-nowrap';
     };
 
     return (
         <div className="bg-white p-6 rounded-2xl shadow-lg">
-            <h3 className="text-xl font-bold text-slate-800 mb-4">Kelola Stok Awal</h3>
-            <div className="space-y-3 max-h-60 overflow-y-auto pr-2">
-                {Object.keys(stocks).length > 0 ? Object.entries(stocks).map(([name, amount]) => (
-                    <div key={name} className="flex items-center justify-between bg-slate-50 p-2 rounded-md">
-                        <span className="font-medium text-slate-700">{name}</span>
-                        <input 
-                            type="number"
-                            value={amount}
-                            onChange={(e) => handleStockChange(name, e.target.value)}
-                            className="w-24 text-right px-2 py-1 border border-slate-300 rounded-md"
-                        />
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <h3 className="text-xl font-bold text-slate-800">{t('Detail Data Penjualan')}</h3>
+                {selectedIds.size > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {(Object.keys(INVOICE_TYPE_LABELS) as InvoiceType[]).map(jenis => (
+                            <button
+                                key={jenis}
+                                onClick={() => handleCreateInvoice(jenis)}
+                                className="border border-indigo-600 text-indigo-600 font-semibold px-4 py-2 rounded-md hover:bg-indigo-50 transition-colors text-sm"
+                            >
+                                {t('Buat {dokumen}', { dokumen: t(INVOICE_TYPE_LABELS[jenis]) })}
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => startEditing([...selectedIds])}
+                            className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors text-sm"
+                        >
+                            {t('Edit Terpilih ({jumlah})', { jumlah: formatNumber(selectedIds.size) })}
+                        </button>
                     </div>
-                )) : <p className="text-slate-500 italic">Belum ada stok awal yang diatur.</p>}
+                )}
             </div>
-            <div className="flex gap-4 mt-4 pt-4 border-t border-slate-200">
-                <input
-                    type="text"
-                    placeholder="Nama Produk Baru"
-                    value={newProduct}
-                    onChange={(e) => setNewProduct(e.target.value)}
-                    className="flex-grow px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                />
+            {selectedIds.size > 0 && !isEditing && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <span className="text-sm text-slate-600">{t('Diskon nota untuk penjualan terpilih:')}</span>
+                    <input
+                        type="number"
+                        min="0"
+                        value={discountValue}
+                        onChange={(e) => { setDiscountValue(e.target.value); setDiscountError(''); }}
+                        className="px-2 py-1 border border-slate-300 rounded-md text-sm w-28"
+                    />
+                    <select value={discountType} onChange={(e) => setDiscountType(e.target.value as DiscountType)} aria-label={t('Jenis diskon')} className="px-2 py-1 border border-slate-300 rounded-md text-sm">
+                        <option value="persen">%</option>
+                        <option value="nominal">{t('Nominal')}</option>
+                    </select>
+                    <button onClick={handleApplyTransactionDiscount} className="text-sm font-medium text-indigo-700 hover:underline">{t('Terapkan')}</button>
+                </div>
+            )}
+            {discountError && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm" role="alert">{discountError}</div>}
+            {invoiceError && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm" role="alert">{invoiceError}</div>}
+
+            {isEditing && (
+                <div className="mb-4 p-4 bg-indigo-50 border border-indigo-200 rounded-lg space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium text-slate-700">{t('Mengedit {jumlah} baris.', { jumlah: formatNumber(Object.keys(drafts).length) })}</span>
+                        {Object.keys(drafts).length > 1 && (
+                            <>
+                                <span className="text-sm text-slate-600 ml-2">{t('Ubah semua:')}</span>
+                                <select value={bulkField} onChange={(e) => { setBulkField(e.target.value as BulkEditField); setBulkValue(''); }} className="px-2 py-1 border border-slate-300 rounded-md text-sm">
+                                    {(Object.keys(BULK_EDIT_FIELDS) as BulkEditField[]).map(field => (
+                                        <option key={field} value={field}>{t(BULK_EDIT_FIELDS[field])}</option>
+                                    ))}
+                                </select>
+                                {bulkField === 'lokasi' ? (
+                                    <select value={bulkValue} onChange={(e) => setBulkValue(e.target.value)} className="px-2 py-1 border border-slate-300 rounded-md text-sm">
+                                        <option value="">{t('-- Pilih Lokasi --')}</option>
+                                        {locations.map(location => <option key={location} value={location}>{location}</option>)}
+                                    </select>
+                                ) : (
+                                    <input
+                                        type={bulkField === 'tanggal' ? 'date' : 'number'}
+                                        min="0"
+                                        value={bulkValue}
+                                        onChange={(e) => setBulkValue(e.target.value)}
+                                        className="px-2 py-1 border border-slate-300 rounded-md text-sm w-36"
+                                    />
+                                )}
+                                <button onClick={applyBulkEdit} className="text-sm font-medium text-indigo-700 hover:underline">{t('Terapkan')}</button>
+                            </>
+                        )}
+                    </div>
+
+                    {preview && preview.violations.length > 0 && (
+                        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg text-sm" role="alert">
+                            <p className="font-semibold mb-1">{t('Perubahan ini membuat stok negatif dan tidak dapat disimpan:')}</p>
+                            <ul className="list-disc list-inside">
+                                {preview.violations.slice(0, 5).map(violation => <li key={violation.id}>{violation.message}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                    {preview && preview.stockChanges.length > 0 && (
+                        <div className="text-sm text-slate-700">
+                            <p className="font-semibold mb-1">{t('Stok sisa pada {jumlah} transaksi berikutnya akan berubah:', { jumlah: formatNumber(preview.stockChanges.length) })}</p>
+                            <ul className="max-h-32 overflow-y-auto space-y-0.5">
+                                {preview.stockChanges.map(change => (
+                                    <li key={change.id}>
+                                        {formatDate(change.tanggal)} · {change.nama_produk} · {change.lokasi}: {formatNumber(change.before)} → <span className={change.after < 0 ? 'text-red-600 font-bold' : 'font-semibold'}>{formatNumber(change.after)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+                    <div className="flex gap-3">
+                        <button
+                            onClick={saveEdits}
+                            disabled={!preview || preview.violations.length > 0}
+                            className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed"
+                        >
+                            {t('Simpan Perubahan')}
+                        </button>
+                        <button onClick={cancelEditing} className="bg-slate-200 text-slate-700 font-semibold px-4 py-2 rounded-md hover:bg-slate-300 transition-colors text-sm">
+                            {t('Batal')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 mb-4">
                 <input
-                    type="number"
-                    placeholder="Jumlah Stok Awal"
-                    value={newStock}
-                    onChange={(e) => setNewStock(e.target.value)}
-                    className="w-40 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                    min="0"
+                    type="search"
+                    value={filters.cari}
+                    onChange={(e) => updateFilters({ cari: e.target.value })}
+                    placeholder={t('Cari produk, jenis, lokasi, pelanggan atau referensi')}
+                    className="flex-grow min-w-[16rem] px-3 py-2 border border-slate-300 rounded-md text-sm"
                 />
-                <button 
-                    onClick={handleAddStock}
-                    className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+                <button
+                    onClick={() => setShowFilters(prev => !prev)}
+                    className={`px-4 py-2 rounded-md border text-sm font-semibold ${showFilters || activeFilterCount > 0 ? 'border-indigo-600 text-indigo-600 bg-indigo-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
                 >
-                    Tambah
+                    {activeFilterCount > 0 ? t('Filter ({jumlah})', { jumlah: formatNumber(activeFilterCount) }) : t('Filter')}
+                </button>
+                <button
+                    onClick={() => setShowColumns(prev => !prev)}
+                    className={`px-4 py-2 rounded-md border text-sm font-semibold ${showColumns ? 'border-indigo-600 text-indigo-600 bg-indigo-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+                >
+                    {t('Pilih Kolom')}
+                </button>
+                {sortConfig.length > 0 && (
+                    <button onClick={() => onSort([])} className="text-sm font-medium text-indigo-700 hover:underline">{t('Hapus urutan')}</button>
+                )}
+                <button
+                    onClick={() => exportTableView(filteredRows, columns.map(column => column.key), `transaksi_terfilter_${toISODate(new Date())}.csv`)}
+                    disabled={filteredRows.length === 0 || columns.length === 0}
+                    className="bg-green-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-green-700 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                    {t('Ekspor Tampilan (CSV)')}
                 </button>
             </div>
-        </div>
-    );
-};
 
-const DataTable = ({ data, onSort, sortConfig, onDeleteRow }) => {
-    const requestSort = (key: SortKey) => {
-        let direction: 'ascending' | 'descending' = 'ascending';
-        if (sortConfig && sortConfig.key === key && sortConfig.direction === 'ascending') {
-            direction = 'descending';
-        }
-        onSort({ key, direction });
-    };
-
-    const getSortIcon = (key: SortKey) => {
-        if (!sortConfig || sortConfig.key !== key) {
-            return null;
-        }
-        return sortConfig.direction === 'ascending' ? <ChevronUpIcon /> : <ChevronDownIcon />;
-    };
+            {showColumns && (
+                <div className="mb-4 p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                        {DATA_TABLE_COLUMNS.map(column => (
+                            <label key={column.key} className="flex items-center gap-2 text-sm text-slate-700">
+                                <input type="checkbox" checked={visibleColumns.includes(column.key)} onChange={() => toggleColumn(column.key)} />
+                                {t(column.label)}
+                            </label>
+                        ))}
+                    </div>
+                    <button onClick={() => setVisibleColumns(DEFAULT_VISIBLE_COLUMNS)} className="mt-3 text-sm font-medium text-indigo-700 hover:underline">{t('Kembalikan kolom bawaan')}</button>
+                </div>
+            )}
 
-    const headers: { key: SortKey; label: string }[] = [
-        { key: 'tanggal', label: 'Tanggal' },
-        { key: 'nama_produk', label: 'Nama Produk' },
-        { key: 'jumlah_terjual', label: 'Jml Terjual' },
-        { key: 'harga_jual', label: 'Harga Jual' },
-        { key: 'laba', label: 'Laba' },
-        { key: 'stok_sisa', label: 'Stok Sisa' },
-    ];
+            {showFilters && (
+                <div className="mb-4 p-4 bg-slate-50 border border-slate-200 rounded-lg grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="space-y-2">
+                        <p className="text-sm font-semibold text-slate-700">{t('Tanggal')}</p>
+                        <div className="flex items-center gap-2">
+                            <input type="date" value={filters.mulai} onChange={(e) => updateFilters({ mulai: e.target.value })} className={inputClass} aria-label={t('Tanggal awal')} />
+                            <span className="text-slate-500">{t('s/d')}</span>
+                            <input type="date" value={filters.sampai} onChange={(e) => updateFilters({ sampai: e.target.value })} className={inputClass} aria-label={t('Tanggal akhir')} />
+                        </div>
+                        <button onClick={() => { setFilters(EMPTY_TABLE_FILTERS); setPage(1); }} disabled={activeFilterCount === 0} className="text-sm font-medium text-indigo-700 hover:underline disabled:text-slate-400 disabled:no-underline">
+                            {t('Reset semua filter')}
+                        </button>
+                    </div>
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <p className="text-sm font-semibold text-slate-700">{t('Produk')}{filters.produk.length > 0 && ` (${formatNumber(filters.produk.length)})`}</p>
+                            {filters.produk.length > 0 && (
+                                <button onClick={() => updateFilters({ produk: [] })} className="text-xs font-medium text-indigo-700 hover:underline">{t('Semua produk')}</button>
+                            )}
+                        </div>
+                        <input type="search" value={productQuery} onChange={(e) => setProductQuery(e.target.value)} placeholder={t('Cari produk...')} className={inputClass} />
+                        <div className="max-h-40 overflow-y-auto space-y-1 pr-2">
+                            {productNames.filter(name => name.toLowerCase().includes(productQuery.trim().toLowerCase())).map(name => (
+                                <label key={name} className="flex items-center gap-2 text-sm text-slate-700">
+                                    <input type="checkbox" checked={filters.produk.includes(name)} onChange={() => toggleProduct(name)} />
+                                    {name}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <p className="text-sm font-semibold text-slate-700">{t('Rentang nilai')}</p>
+                        <div className="max-h-48 overflow-y-auto space-y-1 pr-2">
+                            {DATA_TABLE_COLUMNS.filter(column => column.format === 'angka' || column.format === 'uang').map(column => (
+                                <div key={column.key} className="grid grid-cols-3 items-center gap-2">
+                                    <span className="text-sm text-slate-600">{t(column.label)}</span>
+                                    <input type="number" value={filters.rentang[column.key]?.min ?? ''} onChange={(e) => updateRange(column.key, 'min', e.target.value)} placeholder={t('Dari')} className={inputClass} aria-label={`${t(column.label)} ${t('Dari')}`} />
+                                    <input type="number" value={filters.rentang[column.key]?.max ?? ''} onChange={(e) => updateRange(column.key, 'max', e.target.value)} placeholder={t('Sampai')} className={inputClass} aria-label={`${t(column.label)} ${t('Sampai')}`} />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
 
-    return (
-        <div className="bg-white p-6 rounded-2xl shadow-lg">
-            <h3 className="text-xl font-bold text-slate-800 mb-4">Detail Data Penjualan</h3>
             <div className="overflow-x-auto">
                 <table className="w-full text-sm text-left text-slate-500">
                     <thead className="text-xs text-slate-700 uppercase bg-slate-50">
                         <tr>
-                            {headers.map(({ key, label }) => (
-                                <th key={key} scope="col" className="px-6 py-3 cursor-pointer" onClick={() => requestSort(key)}>
+                            <th scope="col" className="px-4 py-3">
+                                <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label={t('Pilih semua baris di halaman ini')} />
+                            </th>
+                            {columns.map(({ key, label }) => (
+                                <th key={key} scope="col" className="px-6 py-3 cursor-pointer select-none" onClick={(e) => requestSort(key, e.shiftKey)} title={t('Shift-klik untuk mengurutkan beberapa kolom')}>
                                     <div className="flex items-center">
-                                        {label}
-                                        <span className="ml-1">{getSortIcon(key)}</span>
+                                        {t(label)}
+                                        <span className="ml-1 flex items-center">{getSortIcon(key)}</span>
                                     </div>
                                 </th>
                             ))}
-                            <th scope="col" className="px-6 py-3">Aksi</th>
+                            <th scope="col" className="px-6 py-3">{t('Aksi')}</th>
                         </tr>
                     </thead>
                     <tbody>
-                        {data.map((item) => (
-                            <tr key={item.id} className="bg-white border-b hover:bg-slate-50">
-                                <td className="px-6 py-4">{item.tanggal}</td>
-                                <td className="px-6 py-4 font-medium text-slate-900 whitespace-nowrap">{item.nama_produk}</td>
-                                <td className="px-6 py-4 text-right">{formatNumber(item.jumlah_terjual)}</td>
-                                <td className="px-6 py-4 text-right">{formatCurrency(item.harga_jual)}</td>
-                                <td className="px-6 py-4 text-right">{formatCurrency(item.laba)}</td>
-                                <td className="px-6 py-4 text-right font-bold">{formatNumber(item.stok_sisa)}</td>
-                                <td className="px-6 py-4">
-                                    <button 
-                                        onClick={() => onDeleteRow(item.id)}
-                                        className="font-medium text-red-600 hover:underline"
-                                    >
-                                        Hapus
-                                    </button>
-                                </td>
-                            </tr>
-                        ))}
+                        {pageRows.map((row) => {
+                            const draft: SalesData | undefined = drafts[row.id];
+                            const item = draft ? recomputeTotals(draft) : row;
+                            const rowClass = violatingIds.has(row.id)
+                                ? 'bg-red-50'
+                                : draft ? 'bg-indigo-50' : changedIds.has(row.id) ? 'bg-yellow-50' : 'bg-white hover:bg-slate-50';
+                            return (
+                                <tr key={row.id} className={`${rowClass} border-b`}>
+                                    <td className="px-4 py-4">
+                                        <input type="checkbox" checked={selectedIds.has(row.id)} onChange={() => toggleSelected(row.id)} aria-label={t('Pilih {produk}', { produk: row.nama_produk })} />
+                                    </td>
+                                    {columns.map(column => (
+                                        <td key={column.key} className={getCellClass(column)}>{renderCell(column, item, draft)}</td>
+                                    ))}
+                                    <td className="px-6 py-4 whitespace-nowrap space-x-3">
+                                        {!draft && (
+                                            <button onClick={() => startEditing([row.id])} className="font-medium text-indigo-600 hover:underline">
+                                                {t('Edit')}
+                                            </button>
+                                        )}
+                                        <button 
+                                            onClick={() => onDeleteRow(row.id)}
+                                            className="font-medium text-red-600 hover:underline"
+                                        >
+                                            {t('Hapus')}
+                                        </button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
                     </tbody>
                 </table>
+                {pageRows.length === 0 && (
+                    <p className="text-sm text-slate-500 text-center py-6">{t('Tidak ada transaksi yang cocok dengan pencarian atau filter.')}</p>
+                )}
+            </div>
+
+            <div className="flex flex-wrap justify-between items-center gap-4 mt-4 text-sm text-slate-600">
+                <span>
+                    {filteredRows.length > 0
+                        ? t('Menampilkan {awal}–{akhir} dari {jumlah} transaksi', { awal: formatNumber((currentPage - 1) * pageSize + 1), akhir: formatNumber((currentPage - 1) * pageSize + pageRows.length), jumlah: formatNumber(filteredRows.length) })
+                        : t('0 transaksi')}
+                    {filteredRows.length < data.length && ` ${t('(difilter dari {jumlah})', { jumlah: formatNumber(data.length) })}`}
+                </span>
+                <div className="flex items-center gap-2">
+                    <select value={pageSize} onChange={(e) => { setPageSize(Number(e.target.value)); setPage(1); }} className="px-2 py-1 border border-slate-300 rounded-md text-sm" aria-label={t('Baris per halaman')}>
+                        {PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{t('{jumlah} / halaman', { jumlah: size })}</option>)}
+                    </select>
+                    <button onClick={() => setPage(currentPage - 1)} disabled={currentPage <= 1} className="px-3 py-1 rounded-md border border-slate-300 hover:bg-slate-50 disabled:text-slate-400 disabled:cursor-not-allowed">
+                        {t('Sebelumnya')}
+                    </button>
+                    <span>{t('Halaman {halaman} dari {total}', { halaman: formatNumber(currentPage), total: formatNumber(pageCount) })}</span>
+                    <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount} className="px-3 py-1 rounded-md border border-slate-300 hover:bg-slate-50 disabled:text-slate-400 disabled:cursor-not-allowed">
+                        {t('Berikutnya')}
+                    </button>
+                </div>
             </div>
         </div>
     );
@@ -595,392 +6376,1050 @@ const DataTable = ({ data, onSort, sortConfig, onDeleteRow }) => {
 
 // --- Main App Component ---
 
+interface PendingImport {
+    table: CSVTable;
+    fileName: string;
+    mapping: ColumnMapping;
+}
+
 function App() {
     const [allData, setAllData] = useState<SalesData[]>([]);
-    const [initialStocks, setInitialStocks] = useState<Record<string, number>>({});
-    const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
+    const [initialStocks, setInitialStocks] = useState<StockLevels>({});
+    const [catalog, setCatalog] = useState<Product[]>([]);
+    const [customers, setCustomers] = useState<Customer[]>([]);
+    const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [expenses, setExpenses] = useState<Expense[]>([]);
+    const [openInvoice, setOpenInvoice] = useState<Invoice | null>(null);
+    const [groupBy, setGroupBy] = useState<'produk' | 'kategori'>('produk');
+    const [mappingPresets, setMappingPresets] = useState<ColumnMappingPreset[]>([]);
+    const [pendingWorkbook, setPendingWorkbook] = useState<{ workbook: XLSX.WorkBook; fileName: string } | null>(null);
+    const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+    const [pendingPreview, setPendingPreview] = useState<PendingImport | null>(null);
+    const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+    const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+    const [dateRange, setDateRange] = useState<DateRangeFilter>({ preset: 'semua', start: '', end: '' });
+    const [sortConfig, setSortConfig] = useState<SortConfig[]>([]);
+    const [stockLocation, setStockLocation] = useState('');
+    const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+    const [undoStack, setUndoStack] = useState<AuditEntry[]>([]);
+    const [redoStack, setRedoStack] = useState<AuditEntry[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const [lastBackup, setLastBackup] = useState<string | null>(null);
+    const [pendingRestore, setPendingRestore] = useState<{ backup: WorkspaceBackup; fileName: string } | null>(null);
+    const [backupReminderDismissed, setBackupReminderDismissed] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const backupInputRef = useRef<HTMLInputElement>(null);
+    // The transactions as last written to storage, so each save only writes the rows that changed.
+    const storedDataRef = useRef<StoredTransaction[]>([]);
+
+    const costingOptions = useMemo(() => getCostingOptions(settings, catalog), [settings, catalog]);
+    const display: DisplayFormat = useMemo(
+        () => createDisplayFormat(settings),
+        [settings.bahasa, settings.locale, settings.mata_uang, settings.format_tanggal]
+    );
+    const { t, formatCurrency, formatNumber, formatDate } = display;
 
-    // Load data from localStorage on initial render
     useEffect(() => {
-        try {
-            const storedData = localStorage.getItem(LOCAL_STORAGE_KEY_DATA);
-            const storedStocks = localStorage.getItem(LOCAL_STORAGE_KEY_STOCK);
-            const data = storedData ? JSON.parse(storedData) : [];
-            const stocks = storedStocks ? JSON.parse(storedStocks) : {};
+        document.documentElement.lang = settings.bahasa;
+    }, [settings.bahasa]);
+
+    const persist = (operation: Promise<void>) => {
+        operation.catch(e => {
+            console.error("Failed to save data to IndexedDB", e);
+            setError(t('Gagal menyimpan data ke penyimpanan browser.'));
+        });
+    };
+
+    const persistData = (data: SalesData[]) => {
+        const stored = storedDataRef.current;
+        const records = assignStorageSequence(data, stored);
+        storedDataRef.current = records;
+        persist(saveTransactionChanges(stored, records));
+    };
+
+    // Load data from IndexedDB on initial render
+    useEffect(() => {
+        loadStoredWorkspace().then(({ data: storedData, values }) => {
+            storedDataRef.current = storedData;
+            const data: SalesData[] = storedData.map(({ urutan, ...item }) => normalizeTransaction(item));
+            const stocks = normalizeStockLevels((values[STORAGE_KEY_STOCK] as Record<string, unknown>) ?? {});
+            const storedCatalog = values[STORAGE_KEY_PRODUCTS] as Product[] | undefined;
+            let products: Product[] = storedCatalog ?? [];
+
+            // Workspaces saved before the catalog existed: seed it from the product names already in use.
+            if (!storedCatalog && (data.length > 0 || hasStockLevels(stocks))) {
+                products = createProductsFromTransactions(
+                    [...Object.keys(consolidateStockLevels(stocks)).map(nama_produk => ({ nama_produk })), ...data],
+                    []
+                );
+                persist(saveStoredValue(STORAGE_KEY_PRODUCTS, products));
+            }
             
+            const loadedSettings = normalizeSettings(values[STORAGE_KEY_SETTINGS]);
+            // The messages below are shown before the loaded settings reach the context.
+            const loadedDisplay = createDisplayFormat(loadedSettings);
+            
+            setSettings(loadedSettings);
+            setCatalog(products);
             setInitialStocks(stocks);
+            setMappingPresets((values[STORAGE_KEY_MAPPING_PRESETS] as ColumnMappingPreset[]) ?? []);
+            setImportBatches((values[STORAGE_KEY_BATCHES] as ImportBatch[]) ?? []);
+            setCustomers((values[STORAGE_KEY_CUSTOMERS] as Customer[]) ?? []);
+            setInvoices((values[STORAGE_KEY_INVOICES] as Invoice[]) ?? []);
+            setExpenses((values[STORAGE_KEY_EXPENSES] as Expense[]) ?? []);
+            setAuditLog((values[STORAGE_KEY_AUDIT_LOG] as AuditEntry[]) ?? []);
+            setLastBackup((values[STORAGE_KEY_LAST_BACKUP] as string) ?? null);
 
             if(data.length > 0) {
-                 const { processedData, error: validationError } = processAndValidateData(data, stocks);
-                 if (validationError) {
-                     setError(`Data yang tersimpan tidak valid: ${validationError}`);
-                     setAllData([]);
-                 } else {
-                     setAllData(processedData);
+                 // Rows that fail validation are still loaded, so the next save cannot delete them from storage
+                 // and they can be corrected or removed in the data table.
+                 const { processedData, error: validationError } = processAndValidateData(data, stocks, getCostingOptions(loadedSettings, products), loadedDisplay, true);
+                 const undatedCount = data.filter(item => isNaN(new Date(item.tanggal).getTime())).length;
+                 setAllData(processedData);
+                 if (undatedCount > 0) {
+                     setError(`${loadedDisplay.t('Data yang tersimpan tidak valid:')} ${loadedDisplay.t('{jumlah} transaksi tidak memiliki tanggal yang valid.', { jumlah: loadedDisplay.formatNumber(undatedCount) })}`);
+                 } else if (validationError) {
+                     setError(`${loadedDisplay.t('Data yang tersimpan tidak valid:')} ${validationError}`);
                  }
             }
+        }).catch(e => {
+            console.error("Failed to load data from IndexedDB", e);
+            setError(t('Gagal memuat data. Mungkin data korup.'));
+        }).finally(() => setIsLoading(false));
+    }, []);
+
+    const getWorkspace = (): WorkspaceState => ({
+        data: allData,
+        stocks: initialStocks,
+        catalog,
+        batches: importBatches,
+        settings,
+        presets: mappingPresets,
+        customers,
+        invoices,
+        expenses,
+    });
+
+    const saveWorkspace = (next: WorkspaceState) => {
+        setAllData(next.data);
+        setInitialStocks(next.stocks);
+        setCatalog(next.catalog);
+        setImportBatches(next.batches);
+        setSettings(next.settings);
+        setMappingPresets(next.presets);
+        setCustomers(next.customers);
+        setInvoices(next.invoices);
+        setExpenses(next.expenses);
+        persistData(next.data);
+        // Untouched collections are not rewritten.
+        if (next.stocks !== initialStocks) persist(saveStoredValue(STORAGE_KEY_STOCK, next.stocks));
+        if (next.catalog !== catalog) persist(saveStoredValue(STORAGE_KEY_PRODUCTS, next.catalog));
+        if (next.batches !== importBatches) persist(saveStoredValue(STORAGE_KEY_BATCHES, next.batches));
+        if (next.settings !== settings) persist(saveStoredValue(STORAGE_KEY_SETTINGS, next.settings));
+        if (next.presets !== mappingPresets) persist(saveStoredValue(STORAGE_KEY_MAPPING_PRESETS, next.presets));
+        if (next.customers !== customers) persist(saveStoredValue(STORAGE_KEY_CUSTOMERS, next.customers));
+        if (next.invoices !== invoices) persist(saveStoredValue(STORAGE_KEY_INVOICES, next.invoices));
+        if (next.expenses !== expenses) persist(saveStoredValue(STORAGE_KEY_EXPENSES, next.expenses));
+    };
+
+    const appendAuditEntry = (aksi: AuditAction, keterangan: string, sebelum: WorkspaceChange, sesudah: WorkspaceChange): AuditEntry => {
+        const entry: AuditEntry = {
+            id: `audit_${Date.now()}_${Math.random()}`,
+            waktu: new Date().toISOString(),
+            pengguna: settings.nama_pengguna || DEFAULT_SETTINGS.nama_pengguna,
+            aksi,
+            keterangan,
+            sebelum,
+            sesudah,
+        };
+        const updatedLog = [...auditLog, entry].slice(-AUDIT_LOG_LIMIT);
+        setAuditLog(updatedLog);
+        persist(saveStoredValue(STORAGE_KEY_AUDIT_LOG, updatedLog));
+        return entry;
+    };
+
+    /**
+     * Saves an already validated workspace state and records the step in the audit log and the undo history.
+     */
+    const commitWorkspace = (next: Partial<WorkspaceState>, aksi: AuditAction, keterangan: string, coalesce = false) => {
+        const current = getWorkspace();
+        const updated = { ...current, ...next };
+        const previous: AuditEntry | undefined = undoStack.at(-1);
+        if (coalesce && previous && previous.aksi === aksi && previous.keterangan === keterangan && auditLog.at(-1)?.id === previous.id
+            && Date.now() - new Date(previous.waktu).getTime() < AUDIT_COALESCE_MS) {
+            // The previous step is widened to cover this edit too, measured from the state before it.
+            const { sebelum, sesudah } = diffWorkspace(applyWorkspaceChange(current, previous.sesudah, previous.sebelum), updated);
+            saveWorkspace(updated);
+            const entry: AuditEntry = { ...previous, waktu: new Date().toISOString(), sebelum, sesudah };
+            const updatedLog = [...auditLog.slice(0, -1), entry];
+            setAuditLog(updatedLog);
+            persist(saveStoredValue(STORAGE_KEY_AUDIT_LOG, updatedLog));
+            setUndoStack(prev => [...prev.slice(0, -1), entry]);
+            setError(null);
+            return;
+        }
+        const { sebelum, sesudah } = diffWorkspace(current, updated);
+        saveWorkspace(updated);
+        const entry = appendAuditEntry(aksi, keterangan, sebelum, sesudah);
+        setUndoStack(prev => [...prev, entry]);
+        setRedoStack([]);
+        setError(null);
+    };
+
+    const stepHistory = (direction: 'urungkan' | 'ulangi') => {
+        const isUndo = direction === 'urungkan';
+        const entry = (isUndo ? undoStack : redoStack).at(-1);
+        if (!entry) return;
+
+        const [from, to] = isUndo ? [entry.sesudah, entry.sebelum] : [entry.sebelum, entry.sesudah];
+        const restored = applyWorkspaceChange(getWorkspace(), from, to);
+        const { processedData, error: validationError } = processAndValidateData(restored.data, restored.stocks, getCostingOptions(restored.settings, restored.catalog), display);
+        if (validationError) {
+            const params = { aksi: entry.keterangan, galat: validationError };
+            setError(isUndo ? t('Gagal mengurungkan "{aksi}": {galat}', params) : t('Gagal mengulangi "{aksi}": {galat}', params));
+            return;
+        }
+
+        saveWorkspace({ ...restored, data: processedData });
+        appendAuditEntry(direction, `${t(AUDIT_ACTION_LABELS[direction])}: ${entry.keterangan}`, from, to);
+        if (isUndo) {
+            setUndoStack(prev => prev.slice(0, -1));
+            setRedoStack(prev => [...prev, entry]);
+        } else {
+            setRedoStack(prev => prev.slice(0, -1));
+            setUndoStack(prev => [...prev, entry]);
+        }
+        setError(null);
+    };
+
+    const importEntries = (parsedEntries: SalesData[], fileName: string, replacedIds: string[] = []) => {
+        const batch: ImportBatch = {
+            id: `batch_${Date.now()}`,
+            nama_file: fileName,
+            tanggal_impor: new Date().toISOString(),
+            jumlah_baris: parsedEntries.length,
+        };
+        const batchEntries = parsedEntries.map(entry => ({ ...entry, batch_id: batch.id }));
+
+        let { data: newEntries, unknownProducts } = resolveProductNames(batchEntries, catalog);
+        let updatedCatalog = catalog;
+        if (unknownProducts.length > 0) {
+            const addToCatalog = window.confirm(
+                `${t('Produk berikut belum terdaftar di katalog:')}\n- ${unknownProducts.join('\n- ')}\n\n${t('Tambahkan sebagai produk baru ke katalog?')}`
+            );
+            if (!addToCatalog) {
+                setError(t('Impor dibatalkan: {jumlah} produk tidak dikenal di katalog.', { jumlah: unknownProducts.length }));
+                return;
+            }
+            updatedCatalog = [...catalog, ...createProductsFromTransactions(newEntries, catalog)];
+            newEntries = resolveProductNames(batchEntries, updatedCatalog).data;
+        }
+
+        // --- New logic: Infer initial stocks for new products ---
+        const inferredStocks = inferInitialStocks(newEntries, initialStocks);
+        const combinedInitialStocks = mergeStockLevels(initialStocks, inferredStocks);
+        
+        // Duplicates the user chose to replace are dropped from the existing data.
+        const replaced = new Set(replacedIds);
+        const combinedData = [...allData.filter(item => !replaced.has(item.id)), ...newEntries];
+        const { processedData, error: validationError } = processAndValidateData(combinedData, combinedInitialStocks, getCostingOptions(settings, updatedCatalog), display);
+
+        if (validationError) {
+            setError(validationError);
+        } else {
+            // Customers named in the file join the directory with the default credit term, in the same undoable step.
+            const newCustomers = createCustomersFromTransactions(newEntries, customers);
+            const recordedBatch: ImportBatch = newCustomers.length > 0 ? { ...batch, pelanggan_baru: newCustomers.map(customer => customer.id) } : batch;
+            commitWorkspace(
+                // Save the updated initial stocks along with the new rows.
+                {
+                    data: processedData,
+                    stocks: combinedInitialStocks,
+                    catalog: updatedCatalog,
+                    batches: [...importBatches, recordedBatch],
+                    ...(newCustomers.length > 0 ? { customers: [...customers, ...newCustomers] } : {}),
+                },
+                'impor',
+                t('Impor {file} ({jumlah} baris)', { file: fileName, jumlah: formatNumber(newEntries.length) })
+            );
+        }
+    };
 
-        } catch (e) {
-            console.error("Failed to load data from localStorage", e);
-            setError("Gagal memuat data. Mungkin data korup.");
+    const handleRollbackBatch = (batchId: string) => {
+        const batch = importBatches.find(b => b.id === batchId);
+        if (!batch || !window.confirm(t('Batalkan impor "{file}"? Semua baris dari impor ini akan dihapus.', { file: batch.nama_file }))) {
+            return;
         }
-    }, []);
+        const remainingData = allData.filter(item => item.batch_id !== batchId);
+        const { processedData, error: validationError } = processAndValidateData(remainingData, initialStocks, costingOptions, display);
+
+        if (validationError) {
+            setError(`${t('Gagal membatalkan impor: Aksi ini akan menyebabkan data tidak valid.')} ${validationError}`);
+        } else {
+            // Customers the import added go too, unless other sales still name them.
+            const addedCustomers = new Set(batch.pelanggan_baru ?? []);
+            const remainingCustomers = customers.filter(customer =>
+                !addedCustomers.has(customer.id) || remainingData.some(item => item.pelanggan && findCustomer([customer], item.pelanggan))
+            );
+            commitWorkspace(
+                { data: processedData, batches: importBatches.filter(b => b.id !== batchId), customers: remainingCustomers },
+                'batalkan_impor',
+                t('Batalkan impor {file}', { file: batch.nama_file })
+            );
+        }
+    };
+
+    const startImport = (table: CSVTable, fileName: string) => {
+        // Files in the app's own format go straight to the preview; anything else goes through the mapping wizard.
+        if (!REQUIRED_CSV_HEADERS.every(h => table.header.includes(h))) {
+            setPendingImport({ table, fileName, mapping: guessColumnMapping(table.header, mappingPresets) });
+            return;
+        }
+
+        const mapping = Object.fromEntries(IMPORT_FIELDS.filter(f => table.header.includes(f.key)).map(f => [f.key, f.key]));
+        setPendingPreview({ table, fileName, mapping });
+    };
 
     const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
+        const isWorkbook = /\.xlsx?$/i.test(file.name);
 
         const reader = new FileReader();
         reader.onload = (e) => {
-            const text = e.target?.result as string;
-            const { data: newEntries, error: parseError } = parseCSV(text);
-            
-            if (parseError) {
-                setError(parseError);
-                return;
-            }
-
-            // --- New logic: Infer initial stocks for new products ---
-            const inferredStocks = inferInitialStocks(newEntries, initialStocks);
-            const combinedInitialStocks = { ...initialStocks, ...inferredStocks };
-            
-            const combinedData = [...allData, ...newEntries];
-            const { processedData, error: validationError } = processAndValidateData(combinedData, combinedInitialStocks);
-
-            if (validationError) {
-                setError(validationError);
-            } else {
-                setAllData(processedData);
-                setInitialStocks(combinedInitialStocks); // Save the updated initial stocks
-                localStorage.setItem(LOCAL_STORAGE_KEY_DATA, JSON.stringify(processedData));
-                localStorage.setItem(LOCAL_STORAGE_KEY_STOCK, JSON.stringify(combinedInitialStocks));
-                setError(null);
+            const buffer = e.target?.result as ArrayBuffer;
+            try {
+                if (!isWorkbook) {
+                    startImport(readCSVTable(decodeFileContent(buffer), display), file.name);
+                    return;
+                }
+                const workbook = XLSX.read(buffer, { type: 'array' });
+                if (workbook.SheetNames.length === 1) {
+                    startImport(readWorksheetTable(workbook, workbook.SheetNames[0], display), file.name);
+                } else {
+                    setPendingWorkbook({ workbook, fileName: file.name });
+                }
+            } catch (err: any) {
+                setError(err.message || t('Gagal memproses file. Pastikan formatnya benar.'));
             }
         };
-        reader.readAsText(file);
+        reader.readAsArrayBuffer(file);
         event.target.value = ''; // Reset file input
     };
+
+    const handleSelectSheet = (sheetName: string) => {
+        const { workbook, fileName } = pendingWorkbook;
+        setPendingWorkbook(null);
+        try {
+            startImport(readWorksheetTable(workbook, sheetName, display), `${fileName} [${sheetName}]`);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleConfirmMapping = (mapping: ColumnMapping) => {
+        setPendingPreview({ ...pendingImport, mapping });
+        setPendingImport(null);
+    };
+
+    const handleImportPreviewed = (entries: SalesData[], replacedIds: string[]) => {
+        const fileName = pendingPreview.fileName;
+        setPendingPreview(null);
+        importEntries(entries, fileName, replacedIds);
+    };
+
+    const handleSaveMappingPresets = (presets: ColumnMappingPreset[]) => {
+        commitWorkspace({ presets }, 'ubah_preset', t('Ubah preset pemetaan'));
+    };
     
     const handleAddManualEntry = (newEntry: Omit<SalesData, 'id'>) => {
         const combinedData = [...allData, newEntry as SalesData]; // Add temporary ID for processing
-        const { processedData, error: validationError } = processAndValidateData(combinedData, initialStocks);
+        const { processedData, error: validationError } = processAndValidateData(combinedData, initialStocks, costingOptions, display);
         
         if (validationError) {
             // Return error to be displayed in the form
             return validationError;
         } else {
-            setAllData(processedData);
-            localStorage.setItem(LOCAL_STORAGE_KEY_DATA, JSON.stringify(processedData));
-            setError(null);
+            commitWorkspace(
+                { data: processedData },
+                'tambah_transaksi',
+                `${t(TRANSACTION_TYPE_LABELS[newEntry.jenis_transaksi])} ${newEntry.nama_produk} (${formatDate(newEntry.tanggal)})`
+            );
             return null; // No error
         }
     };
 
-    const handleUpdateInitialStocks = (newStocks: Record<string, number>) => {
-        const { processedData, error: validationError } = processAndValidateData(allData, newStocks);
+    const handleUpdateInitialStocks = (newStocks: StockLevels) => {
+        const { processedData, error: validationError } = processAndValidateData(allData, newStocks, costingOptions, display);
 
         if (validationError) {
-            setError(`Stok awal tidak valid: ${validationError}`);
+            setError(`${t('Stok awal tidak valid:')} ${validationError}`);
         } else {
-            setInitialStocks(newStocks);
-            setAllData(processedData);
-            localStorage.setItem(LOCAL_STORAGE_KEY_STOCK, JSON.stringify(newStocks));
-            localStorage.setItem(LOCAL_STORAGE_KEY_DATA, JSON.stringify(processedData));
-            setError(null);
+            commitWorkspace({ data: processedData, stocks: newStocks }, 'ubah_stok_awal', t('Ubah stok awal'));
         }
     };
     
-     const handleDeleteRow = (idToDelete: string) => {
-        const filteredData = allData.filter(item => item.id !== idToDelete);
-        const { processedData, error: validationError } = processAndValidateData(filteredData, initialStocks);
+    const handleUpdateSettings = (newSettings: AppSettings) => {
+        // Only the costing method changes the recorded costs.
+        let data = allData;
+        if (newSettings.metode_biaya !== settings.metode_biaya) {
+            const { processedData, error: validationError } = processAndValidateData(allData, initialStocks, getCostingOptions(newSettings, catalog), display);
+            if (validationError) {
+                setError(`${t('Pengaturan tidak dapat diterapkan:')} ${validationError}`);
+                return;
+            }
+            data = processedData;
+        }
+        const changed = (Object.keys(newSettings) as (keyof AppSettings)[]).filter(key => newSettings[key] !== settings[key]);
+        commitWorkspace({ data, settings: newSettings }, 'ubah_pengaturan', t('Ubah pengaturan: {kolom}', { kolom: changed.join(', ') }), true);
+    };
+
+    const handleUpdateCatalog = (newCatalog: Product[]) => {
+        // Default purchase prices value the initial stock, so costs are recalculated.
+        const { processedData, error: validationError } = processAndValidateData(allData, initialStocks, getCostingOptions(settings, newCatalog), display);
+        if (validationError) {
+            setError(`${t('Perubahan katalog tidak dapat diterapkan:')} ${validationError}`);
+            return;
+        }
+        commitWorkspace({ data: processedData, catalog: newCatalog }, 'ubah_katalog', t('Ubah katalog produk'), true);
+    };
+    
+    const handleUpdateCustomers = (newCustomers: Customer[]) => {
+        commitWorkspace({ customers: newCustomers }, 'ubah_pelanggan', t('Ubah daftar pelanggan'), true);
+    };
+
+    const handleUpdateExpenses = (newExpenses: Expense[]) => {
+        commitWorkspace({ expenses: newExpenses }, 'ubah_biaya', t('Ubah biaya operasional'));
+    };
+
+    const handleRecordPayment = (id: string, payment: SalePayment) => {
+        const sale = allData.find(item => item.id === id);
+        if (!sale) return;
+        const updatedData = allData.map(item => item.id === id ? { ...item, pembayaran: [...(item.pembayaran ?? []), payment] } : item);
+        commitWorkspace(
+            { data: updatedData },
+            'catat_pembayaran',
+            t('Pembayaran {pelanggan} {jumlah} ({produk}, {tanggal})', { pelanggan: sale.pelanggan, jumlah: formatCurrency(payment.jumlah), produk: sale.nama_produk, tanggal: formatDate(sale.tanggal) })
+        );
+    };
+
+    const handleAddReturn = (saleId: string, jumlah: number, kondisi: ReturnCondition, tanggal: string) => {
+        const sale = allData.find(item => item.id === saleId && item.jenis_transaksi === 'penjualan');
+        if (!sale) return t('Pilih penjualan yang diretur.');
+        const { entry, error: returnError } = createSalesReturn(sale, jumlah, kondisi, tanggal, getReturnedQuantities(allData)[sale.id] ?? 0, display);
+        if (returnError) return returnError;
+
+        // On a credit sale the return is credited against the outstanding balance; anything beyond it is refunded.
+        const credit = sale.jatuh_tempo ? Math.min(getAmountDue(sale), -getSaleTotal(entry)) : 0;
+        const updatedData = credit > 0
+            ? allData.map(item => item.id === sale.id ? { ...item, pembayaran: [...(item.pembayaran ?? []), { id: `pay_${Date.now()}`, tanggal, jumlah: credit, retur: entry.id }] } : item)
+            : allData;
+        const { processedData, error: validationError } = processAndValidateData([...updatedData, entry], initialStocks, costingOptions, display);
+        if (validationError) return validationError;
+        commitWorkspace(
+            { data: processedData },
+            'catat_retur',
+            t('Retur {jumlah} {produk} ({tanggal}, {kondisi})', { jumlah: formatNumber(jumlah), produk: sale.nama_produk, tanggal: formatDate(tanggal), kondisi: t(RETURN_CONDITION_LABELS[kondisi]) })
+        );
+        return null;
+    };
+
+    const handleCreateInvoice = (ids: string[], jenis: InvoiceType) => {
+        const selected = new Set(ids);
+        const sales = allData.filter(item => selected.has(item.id));
+        const { invoice, error: invoiceError } = createInvoice(sales, invoices, jenis, toISODate(new Date()), display);
+        if (invoiceError) return invoiceError;
+
+        const issued = invoices.filter(existing => existing.jenis === jenis && existing.transaksi.some(id => selected.has(id)));
+        if (issued.length > 0 && !window.confirm(
+            t('Transaksi terpilih sudah tercantum di {nomor}. Terbitkan {dokumen} baru?', { nomor: issued.map(existing => existing.nomor).join(', '), dokumen: t(INVOICE_TYPE_LABELS[jenis]).toLowerCase() })
+        )) {
+            return null;
+        }
+
+        commitWorkspace(
+            { invoices: [...invoices, invoice] },
+            'terbitkan_faktur',
+            t('Terbitkan {dokumen} {nomor}', { dokumen: t(INVOICE_TYPE_LABELS[jenis]).toLowerCase(), nomor: invoice.nomor })
+        );
+        setOpenInvoice(invoice);
+        return null;
+    };
+
+    const handleDeleteRow = (idToDelete: string) => {
+        const deletedRow = allData.find(item => item.id === idToDelete);
+        // Deleting a return also takes back the credit it gave on its sale.
+        const filteredData = allData
+            .filter(item => item.id !== idToDelete)
+            .map(item => item.pembayaran?.some(payment => payment.retur === idToDelete)
+                ? { ...item, pembayaran: item.pembayaran.filter(payment => payment.retur !== idToDelete) }
+                : item);
+        const { processedData, error: validationError } = processAndValidateData(filteredData, initialStocks, costingOptions, display);
         
         if (validationError) {
-            setError(`Gagal menghapus baris: Aksi ini akan menyebabkan data tidak valid. ${validationError}`);
+            setError(`${t('Gagal menghapus baris: Aksi ini akan menyebabkan data tidak valid.')} ${validationError}`);
         } else {
-            setAllData(processedData);
-            localStorage.setItem(LOCAL_STORAGE_KEY_DATA, JSON.stringify(processedData));
-            setError(null);
+            commitWorkspace(
+                { data: processedData },
+                'hapus_transaksi',
+                t('Hapus {jenis} {produk} ({tanggal})', { jenis: t(TRANSACTION_TYPE_LABELS[deletedRow.jenis_transaksi]), produk: deletedRow.nama_produk, tanggal: formatDate(deletedRow.tanggal) })
+            );
+        }
+    };
+
+    const handleSaveEdits = (editedRows: SalesData[]) => {
+        const edits = new Map(editedRows.map(item => [item.id, item]));
+        const editedData = allData.map(item => edits.get(item.id) ?? item);
+        const { processedData, error: validationError } = processAndValidateData(editedData, initialStocks, costingOptions, display);
+
+        if (validationError) {
+            return `${t('Perubahan tidak dapat disimpan:')} ${validationError}`;
+        }
+        commitWorkspace({ data: processedData }, 'ubah_transaksi', t('Ubah {jumlah} transaksi', { jumlah: formatNumber(editedRows.length) }));
+        return null;
+    };
+
+    const handleDownloadBackup = () => {
+        const backup = createBackup(getWorkspace());
+        downloadFile(JSON.stringify(backup, null, 2), `backup_erp_${toISODate(new Date())}.json`, 'application/json');
+        setLastBackup(backup.dibuat);
+        setBackupReminderDismissed(false);
+        persist(saveStoredValue(STORAGE_KEY_LAST_BACKUP, backup.dibuat));
+    };
+
+    const handleBackupFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            const { backup, error: backupError } = parseBackup(e.target?.result as string, display);
+            if (backupError) {
+                setError(backupError);
+            } else {
+                setPendingRestore({ backup, fileName: file.name });
+            }
+        };
+        reader.readAsText(file);
+        event.target.value = ''; // Reset file input
+    };
+
+    const handleRestoreBackup = (mode: RestoreMode) => {
+        const { backup, fileName } = pendingRestore;
+        const restored = buildRestoredWorkspace(getWorkspace(), backup, mode);
+        const { processedData, error: validationError } = processAndValidateData(restored.data, restored.stocks, getCostingOptions(restored.settings, restored.catalog), display);
+        if (validationError) {
+            return `${t('Backup tidak dapat dipulihkan:')} ${validationError}`;
         }
+
+        // Settings, customers, invoices and expenses are part of the same step, so undoing it reverts all of them.
+        commitWorkspace(
+            { ...restored, data: processedData },
+            'pulihkan_backup',
+            t('Pulihkan backup {file} ({mode})', { file: fileName, mode: t(mode === 'ganti' ? 'ganti' : 'gabung') })
+        );
+        setPendingRestore(null);
+        return null;
     };
 
     const handleClearData = () => {
-        if (window.confirm("Apakah Anda yakin ingin menghapus semua data? Aksi ini tidak dapat dibatalkan.")) {
-            setAllData([]);
-            setInitialStocks({});
-            localStorage.removeItem(LOCAL_STORAGE_KEY_DATA);
-            localStorage.removeItem(LOCAL_STORAGE_KEY_STOCK);
-            setError(null);
+        // The audit log is kept, so the clearing itself stays on record and can be undone.
+        if (window.confirm(t('Apakah Anda yakin ingin menghapus semua data? Aksi ini masih dapat diurungkan.'))) {
+            commitWorkspace(
+                { data: [], stocks: {}, catalog: [], batches: [], customers: [], invoices: [], expenses: [] },
+                'hapus_semua_data',
+                t('Hapus semua data')
+            );
         }
     };
 
 
-    const sortedData = useMemo(() => {
-        if (!sortConfig) return allData;
-        
-        // Fix: Type-safe sorting for properties that can be string or number.
-        return [...allData].sort((a, b) => {
-            const aValue = a[sortConfig.key];
-            const bValue = b[sortConfig.key];
+    const dateBounds = useMemo(() => getDateRangeBounds(dateRange), [dateRange]);
 
-            if (typeof aValue === 'number' && typeof bValue === 'number') {
-                return sortConfig.direction === 'ascending' ? aValue - bValue : bValue - aValue;
-            }
+    const filteredData = useMemo(
+        () => allData.filter(item => isWithinBounds(item.tanggal, dateBounds.current)),
+        [allData, dateBounds]
+    );
 
-            if (typeof aValue === 'string' && typeof bValue === 'string') {
-                return sortConfig.direction === 'ascending' ? aValue.localeCompare(bValue) : bValue.localeCompare(aValue);
-            }
+    const filteredExpenses = useMemo(
+        () => expenses.filter(expense => isWithinBounds(expense.tanggal, dateBounds.current)),
+        [expenses, dateBounds]
+    );
 
-            return 0;
-        });
-    }, [allData, sortConfig]);
+    const previousPeriodData = useMemo(
+        () => dateBounds.previous ? allData.filter(item => isWithinBounds(item.tanggal, dateBounds.previous)) : null,
+        [allData, dateBounds]
+    );
+
+    // Stock is a point-in-time figure: take it as of the end of the selected range.
+    const stockData = useMemo(
+        () => dateBounds.current ? allData.filter(item => item.tanggal.slice(0, 10) <= dateBounds.current.end) : allData,
+        [allData, dateBounds]
+    );
+
+    const sortedData = useMemo(() => sortTransactions(filteredData, sortConfig), [filteredData, sortConfig]);
 
     const { 
         totalPenjualan, 
         totalLaba, 
+        totalPembelian,
         produkTerlaris, 
-        finalStockLevels 
-    } = useMemo(() => {
-        const salesByProduct: Record<string, number> = {};
-        
-        const latestStock: Record<string, SalesData> = {};
-        for(const item of allData) {
-            if (!latestStock[item.nama_produk] || new Date(item.tanggal) >= new Date(latestStock[item.nama_produk].tanggal)) {
-                 latestStock[item.nama_produk] = item;
-            }
-             if (item.jumlah_terjual > 0) {
-                 salesByProduct[item.nama_produk] = (salesByProduct[item.nama_produk] || 0) + item.jumlah_terjual;
-             }
+    } = useMemo(() => computeSalesSummary(filteredData), [filteredData]);
+
+    const previousSummary = useMemo(
+        () => previousPeriodData ? computeSalesSummary(previousPeriodData) : null,
+        [previousPeriodData]
+    );
+
+    const stockSnapshot: { finalStocks: StockLevels, inventoryValue: number } = useMemo(
+        () => processAndValidateData(stockData, initialStocks, costingOptions, display, true),
+        [stockData, initialStocks, costingOptions, display]
+    );
+
+    // Every known location: the configured list plus any that appear in transactions or initial stock.
+    const locations: string[] = useMemo(() => {
+        const names = new Set<string>(settings.daftar_lokasi);
+        for (const item of allData) {
+            names.add(item.lokasi);
+            if (item.lokasi_tujuan) names.add(item.lokasi_tujuan);
         }
-        
-        // FIX: Explicitly type finalStockLevels to ensure correct type inference.
-        const finalStockLevels: Record<string, number> = Object.fromEntries(
-            Object.values(latestStock).map(item => [item.nama_produk, item.stok_sisa])
-        );
+        Object.keys(initialStocks).forEach(location => names.add(location));
+        return [...names];
+    }, [settings, allData, initialStocks]);
 
-        const totalPenjualan = allData.reduce((acc, item) => acc + item.total_penjualan, 0);
-        const totalLaba = allData.reduce((acc, item) => acc + item.laba, 0);
+    const usedLocations = useMemo(() => {
+        const used = new Set<string>(allData.flatMap(item => item.lokasi_tujuan ? [item.lokasi, item.lokasi_tujuan] : [item.lokasi]));
+        for (const [location, stocks] of Object.entries(initialStocks)) {
+            if (Object.keys(stocks).length > 0) used.add(location);
+        }
+        return used;
+    }, [allData, initialStocks]);
 
-        const produkTerlaris = Object.keys(salesByProduct).length > 0
-            ? Object.entries(salesByProduct).reduce((a, b) => a[1] > b[1] ? a : b)[0]
-            : 'N/A';
-            
-        return { totalPenjualan, totalLaba, produkTerlaris, finalStockLevels };
-    }, [allData]);
+    // An empty location shows the stock consolidated over all locations.
+    const finalStockLevels: Record<string, number> = useMemo(
+        () => stockLocation ? stockSnapshot.finalStocks[stockLocation] || {} : consolidateStockLevels(stockSnapshot.finalStocks),
+        [stockSnapshot, stockLocation]
+    );
     
     const chartData = useMemo(() => {
-        const salesByProduct: Record<string, { totalPenjualan: number; totalLaba: number }> = {};
-        allData.forEach(item => {
-            if (!salesByProduct[item.nama_produk]) {
-                salesByProduct[item.nama_produk] = { totalPenjualan: 0, totalLaba: 0 };
+        const salesByGroup: Record<string, { totalPenjualan: number; totalLaba: number }> = {};
+        filteredData.forEach(item => {
+            const key = groupBy === 'kategori' ? getProductCategory(catalog, item.nama_produk) : item.nama_produk;
+            if (!salesByGroup[key]) {
+                salesByGroup[key] = { totalPenjualan: 0, totalLaba: 0 };
             }
-            salesByProduct[item.nama_produk].totalPenjualan += item.total_penjualan;
-            salesByProduct[item.nama_produk].totalLaba += item.laba;
+            salesByGroup[key].totalPenjualan += item.total_penjualan;
+            salesByGroup[key].totalLaba += item.laba;
         });
-        return Object.entries(salesByProduct).map(([name, data]) => ({ name, ...data }));
-    }, [allData]);
+        return Object.entries(salesByGroup).map(([name, data]) => ({ name, ...data }));
+    }, [filteredData, catalog, groupBy]);
 
     const stockStatus = useMemo(() => {
-        const safe: { product: string; stock: number }[] = [];
-        const low: { product: string; stock: number }[] = [];
-        const out: { product: string; stock: number }[] = [];
+        const safe: StockStatusItem[] = [];
+        const low: StockStatusItem[] = [];
+        const out: StockStatusItem[] = [];
 
         for (const [product, stock] of Object.entries(finalStockLevels)) {
+            const rule = getStockRule(catalog, product);
+            const item = { product, stock, category: getProductCategory(catalog, product), belowMinimum: stock < rule.minimum };
             if (stock <= 0) {
-                out.push({ product, stock });
-            } else if (stock < LOW_STOCK_THRESHOLD) {
-                low.push({ product, stock });
+                out.push(item);
+            } else if (stock <= rule.reorderPoint) {
+                low.push(item);
             } else {
-                safe.push({ product, stock });
+                safe.push(item);
             }
         }
         return { safe, low, out };
-    }, [finalStockLevels]);
+    }, [finalStockLevels, catalog]);
+
+    // Forecasts run up to the end of the selected range, or up to the latest transaction when all dates are shown.
+    const forecastReferenceDate: string = useMemo(
+        () => dateBounds.current?.end
+            || stockData.reduce((latest, item) => item.tanggal.slice(0, 10) > latest ? item.tanggal.slice(0, 10) : latest, '')
+            || toISODate(new Date()),
+        [dateBounds, stockData]
+    );
+
+    const demandForecasts = useMemo(
+        () => buildDemandForecast(
+            stockLocation ? stockData.filter(item => item.lokasi === stockLocation) : stockData,
+            finalStockLevels,
+            forecastReferenceDate
+        ),
+        [stockData, stockLocation, finalStockLevels, forecastReferenceDate]
+    );
+
+    const reorderSuggestions = useMemo(
+        () => buildReorderSuggestions(finalStockLevels, catalog),
+        [finalStockLevels, catalog]
+    );
+
+    const inventoryValue = stockSnapshot.inventoryValue;
+
+    const activeProducts = useMemo(() => catalog.filter(p => p.aktif), [catalog]);
+
+    const sheetPicker = pendingWorkbook && (
+        <SheetPicker
+            workbook={pendingWorkbook.workbook}
+            fileName={pendingWorkbook.fileName}
+            onSelect={handleSelectSheet}
+            onCancel={() => setPendingWorkbook(null)}
+        />
+    );
+
+    const mappingWizard = pendingImport && (
+        <ColumnMappingWizard
+            table={pendingImport.table}
+            fileName={pendingImport.fileName}
+            initialMapping={pendingImport.mapping}
+            presets={mappingPresets}
+            onSavePresets={handleSaveMappingPresets}
+            onConfirm={handleConfirmMapping}
+            onCancel={() => setPendingImport(null)}
+        />
+    );
+
+    const importPreview = pendingPreview && (
+        <ImportPreview
+            table={pendingPreview.table}
+            mapping={pendingPreview.mapping}
+            fileName={pendingPreview.fileName}
+            existingData={allData}
+            initialStocks={initialStocks}
+            catalog={catalog}
+            costing={costingOptions}
+            onImport={handleImportPreviewed}
+            onCancel={() => setPendingPreview(null)}
+        />
+    );
+
+    const restoreDialog = pendingRestore && (
+        <RestoreBackupDialog
+            backup={pendingRestore.backup}
+            fileName={pendingRestore.fileName}
+            current={getWorkspace()}
+            onRestore={handleRestoreBackup}
+            onCancel={() => setPendingRestore(null)}
+        />
+    );
+    const backupInput = <input type="file" ref={backupInputRef} onChange={handleBackupFileUpload} accept=".json,application/json" className="hidden" />;
+
+    const historyControls = (
+        <HistoryControls
+            undoEntry={undoStack.at(-1)}
+            redoEntry={redoStack.at(-1)}
+            onUndo={() => stepHistory('urungkan')}
+            onRedo={() => stepHistory('ulangi')}
+        />
+    );
 
-    const uniqueProducts = useMemo(() => {
-        return [...new Set(allData.map(d => d.nama_produk))];
-    }, [allData]);
+    if (isLoading) {
+        return (
+            <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+                <p className="text-slate-500">{t('Memuat data...')}</p>
+            </div>
+        );
+    }
 
-    if (allData.length === 0 && Object.keys(initialStocks).length === 0) {
+    if (allData.length === 0 && !hasStockLevels(initialStocks) && catalog.length === 0) {
         return (
             <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+                {sheetPicker}
+                {mappingWizard}
+                {importPreview}
+                {restoreDialog}
                 <div className="text-center max-w-2xl mx-auto">
                     <h1 className="text-4xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-indigo-500 to-blue-500 mb-4">
-                        Selamat Datang di Dashboard ERP Penjualan
+                        {t('Selamat Datang di Dashboard ERP Penjualan')}
                     </h1>
+                    {undoStack.length > 0 && <div className="flex justify-center mb-6">{historyControls}</div>}
+                    {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-6" role="alert">{error}</div>}
                     <p className="text-slate-600 text-lg mb-8">
-                        Mulai dengan mengunggah file CSV data penjualan Anda. Data yang sudah diunggah akan tersimpan di browser Anda.
+                        {t('Mulai dengan mengunggah file CSV atau Excel (.xlsx) data penjualan Anda. Data yang sudah diunggah akan tersimpan di browser Anda.')}
                     </p>
                     <div className="bg-white p-6 rounded-2xl shadow-lg">
-                        <h2 className="text-xl font-bold text-slate-800 mb-3">Panduan Format CSV</h2>
-                        <p className="text-slate-600 mb-4">Pastikan file CSV Anda memiliki header berikut (urutan tidak penting):</p>
+                        <h2 className="text-xl font-bold text-slate-800 mb-3">{t('Panduan Format CSV')}</h2>
+                        <p className="text-slate-600 mb-4">{t('Pastikan file CSV Anda memiliki header berikut (urutan tidak penting):')}</p>
                         <code className="block text-left bg-slate-100 p-4 rounded-md text-slate-700 overflow-x-auto">
                             tanggal,nama_produk,jumlah_terjual,harga_beli,harga_jual,total_penjualan,total_biaya,laba,stok_sisa
                         </code>
+                        <p className="text-slate-600 mt-4 text-sm">
+                            {t('Kolom')} <code>nama_produk</code> {t('boleh berisi nama produk atau kode SKU dari katalog. Kolom opsional')} <code>jenis_transaksi</code> {t('(penjualan, pembelian, penyesuaian, transfer) dan')} <code>jumlah_masuk</code> {t('dapat ditambahkan untuk mencatat penerimaan barang, serta')} <code>lokasi</code> {t('dan')} <code>lokasi_tujuan</code> {t('untuk stok per gudang/outlet. File dengan nama kolom lain (mis. export POS atau marketplace) dapat dipetakan saat diunggah.')}
+                        </p>
                         <div className="mt-6 flex justify-center gap-4">
                             <button
                                 onClick={() => fileInputRef.current?.click()}
                                 className="bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors shadow-md"
                             >
-                                Unggah File CSV
+                                {t('Unggah File CSV / Excel')}
+                            </button>
+                            <button
+                                onClick={() => backupInputRef.current?.click()}
+                                className="bg-slate-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-slate-700 transition-colors shadow-md"
+                            >
+                                {t('Pulihkan Backup')}
                             </button>
                              <button
                                 onClick={handleClearData}
                                 className="bg-red-500 text-white font-bold py-3 px-6 rounded-lg hover:bg-red-600 transition-colors shadow-md"
                             >
-                                Hapus Semua Data
+                                {t('Hapus Semua Data')}
                             </button>
                         </div>
                     </div>
-                     <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv" className="hidden" />
+                     <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv,.xlsx,.xls" className="hidden" />
+                     {backupInput}
                 </div>
             </div>
         );
     }
 
     return (
-        <div className="min-h-screen bg-slate-100 p-4 sm:p-6 lg:p-8">
-            <div className="max-w-7xl mx-auto">
-                {/* Header */}
-                <header className="mb-8">
-                    <h1 className="text-4xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-indigo-500 to-blue-500 mb-2">
-                        📊 Dashboard ERP Penjualan
-                    </h1>
-                    <p className="text-slate-600">Analisis penjualan dan stok produk Anda secara real-time.</p>
-                </header>
-                
-                {error && (
-                    <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6 rounded-r-lg shadow-md" role="alert">
-                        <p className="font-bold">Error</p>
-                        <p>{error}</p>
-                        <button onClick={() => setError(null)} className="absolute top-0 bottom-0 right-0 px-4 py-3">
-                            <span className="text-2xl">&times;</span>
-                        </button>
-                    </div>
-                )}
-
-
-                {/* Main Content Grid */}
-                <main className="space-y-6">
-                    {/* Summary Cards */}
-                    <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-                        <SummaryCard title="Total Penjualan" value={formatCurrency(totalPenjualan)} icon={<MoneyIcon />} color="bg-blue-100 text-blue-600" />
-                        <SummaryCard title="Total Laba" value={formatCurrency(totalLaba)} icon={<ChartBarIcon />} color="bg-green-100 text-green-600" />
-                        <SummaryCard title="Produk Terlaris" value={produkTerlaris} icon={<StarIcon />} color="bg-yellow-100 text-yellow-600" />
-                        <SummaryCard title="Produk Hampir Habis" value={formatNumber(stockStatus.low.length)} icon={<ArchiveIcon />} color="bg-orange-100 text-orange-600" />
-                    </section>
+        <DisplayFormatContext.Provider value={display}>
+            <div className="min-h-screen bg-slate-100 p-4 sm:p-6 lg:p-8">
+                {sheetPicker}
+                {mappingWizard}
+                {importPreview}
+                {restoreDialog}
+                {openInvoice && <InvoiceDialog invoice={openInvoice} profile={settings.profil_usaha} onClose={() => setOpenInvoice(null)} />}
+                {backupInput}
+                <div className="max-w-7xl mx-auto">
+                    {/* Header */}
+                    <header className="mb-8">
+                        <h1 className="text-4xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-indigo-500 to-blue-500 mb-2">
+                            📊 {t('Dashboard ERP Penjualan')}
+                        </h1>
+                        <div className="flex flex-wrap items-center justify-between gap-4">
+                            <p className="text-slate-600">{t('Analisis penjualan dan stok produk Anda secara real-time.')}</p>
+                            <div className="flex flex-wrap items-center gap-4">
+                                {historyControls}
+                                <DateRangeSelector value={dateRange} onChange={setDateRange} />
+                            </div>
+                        </div>
+                    </header>
                     
-                    {/* Stock Status */}
-                    <section className="bg-white p-6 rounded-2xl shadow-lg">
-                        <h3 className="text-xl font-bold text-slate-800 mb-4">Status Stok Saat Ini</h3>
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                            {/* Stok Aman */}
-                            <div className="bg-slate-50 p-4 rounded-lg">
-                                <h4 className="font-semibold text-green-600 mb-3 border-b border-green-200 pb-2">🟢 Stok Aman (&gt;= {LOW_STOCK_THRESHOLD})</h4>
-                                <ul className="space-y-2 text-sm max-h-48 overflow-y-auto pr-2">
-                                    {stockStatus.safe.length > 0 ? (
-                                        stockStatus.safe.map(item => (
-                                            <li key={item.product} className="flex justify-between p-2 bg-green-100 rounded text-green-900">
-                                                <span className="font-medium">{item.product}</span>
-                                                <span className="font-bold">{formatNumber(item.stock)}</span>
-                                            </li>
-                                        ))
-                                    ) : (
-                                        <p className="text-slate-500 italic text-center py-4">Semua produk dalam kondisi aman.</p>
-                                    )}
-                                </ul>
+                    {isBackupDue(lastBackup, settings.pengingat_backup_hari) && !backupReminderDismissed && (
+                        <div className="bg-amber-50 border-l-4 border-amber-400 text-amber-800 p-4 mb-6 rounded-r-lg shadow-md flex flex-wrap items-center justify-between gap-3" role="status">
+                            <p>
+                                {lastBackup
+                                    ? t('Backup terakhir dibuat {tanggal}.', { tanggal: formatDate(toISODate(new Date(lastBackup))) })
+                                    : t('Workspace ini belum pernah di-backup.')}
+                                {' '}{t('Unduh backup agar data tidak hilang saat data situs browser dihapus.')}
+                            </p>
+                            <div className="flex gap-3">
+                                <button onClick={handleDownloadBackup} className="font-semibold text-amber-900 hover:underline">{t('Unduh Backup')}</button>
+                                <button onClick={() => setBackupReminderDismissed(true)} className="text-amber-700 hover:underline">{t('Nanti')}</button>
                             </div>
-                            {/* Stok Menipis */}
-                             <div className="bg-slate-50 p-4 rounded-lg">
-                                <h4 className="font-semibold text-orange-600 mb-3 border-b border-orange-200 pb-2">🟠 Stok Menipis (&lt; {LOW_STOCK_THRESHOLD})</h4>
-                                <ul className="space-y-2 text-sm max-h-48 overflow-y-auto pr-2">
-                                     {stockStatus.low.length > 0 ? (
-                                        stockStatus.low.map(item => (
-                                            <li key={item.product} className="flex justify-between p-2 bg-orange-100 rounded text-orange-900">
-                                                <span className="font-medium">{item.product}</span>
-                                                <span className="font-bold">{formatNumber(item.stock)}</span>
-                                            </li>
-                                        ))
-                                     ) : (
-                                        <p className="text-slate-500 italic text-center py-4">Tidak ada produk yang stoknya menipis.</p>
-                                     )}
-                                </ul>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6 rounded-r-lg shadow-md" role="alert">
+                            <p className="font-bold">{t('Error')}</p>
+                            <p>{error}</p>
+                            <button onClick={() => setError(null)} className="absolute top-0 bottom-0 right-0 px-4 py-3">
+                                <span className="text-2xl">&times;</span>
+                            </button>
+                        </div>
+                    )}
+
+
+                    {/* Main Content Grid */}
+                    <main className="space-y-6">
+                        {/* Summary Cards */}
+                        <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6">
+                            <SummaryCard title={t('Total Penjualan')} value={formatCurrency(totalPenjualan)} icon={<MoneyIcon />} color="bg-blue-100 text-blue-600" delta={calculateDelta(totalPenjualan, previousSummary?.totalPenjualan)} />
+                            <SummaryCard title={t('Total Laba')} value={formatCurrency(totalLaba)} icon={<ChartBarIcon />} color="bg-green-100 text-green-600" delta={calculateDelta(totalLaba, previousSummary?.totalLaba)} />
+                            <SummaryCard title={t('Total Pembelian')} value={formatCurrency(totalPembelian)} icon={<TruckIcon />} color="bg-teal-100 text-teal-600" delta={calculateDelta(totalPembelian, previousSummary?.totalPembelian)} />
+                            <SummaryCard title={t('Nilai Persediaan')} value={formatCurrency(inventoryValue)} icon={<ArchiveIcon />} color="bg-purple-100 text-purple-600" />
+                            <SummaryCard title={t('Produk Terlaris')} value={produkTerlaris} icon={<StarIcon />} color="bg-yellow-100 text-yellow-600" />
+                            <SummaryCard title={t('Produk Hampir Habis')} value={formatNumber(stockStatus.low.length)} icon={<ArchiveIcon />} color="bg-orange-100 text-orange-600" />
+                        </section>
+                        
+                        {/* Stock Status */}
+                        <section className="bg-white p-6 rounded-2xl shadow-lg">
+                            <div className="flex items-center justify-between mb-4">
+                                <h3 className="text-xl font-bold text-slate-800">{t('Status Stok Saat Ini')}</h3>
+                                <div className="flex items-center gap-3">
+                                    <select
+                                        value={stockLocation}
+                                        onChange={(e) => setStockLocation(e.target.value)}
+                                        className="px-3 py-1.5 border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                        aria-label={t('Lokasi stok')}
+                                    >
+                                        <option value="">{t('Semua Lokasi (Konsolidasi)')}</option>
+                                        {locations.map(location => <option key={location} value={location}>{location}</option>)}
+                                    </select>
+                                    <GroupBySelect value={groupBy} onChange={setGroupBy} />
+                                </div>
                             </div>
-                             {/* Stok Habis */}
-                             <div className="bg-slate-50 p-4 rounded-lg">
-                                <h4 className="font-semibold text-red-600 mb-3 border-b border-red-200 pb-2">🔴 Stok Habis</h4>
-                                <ul className="space-y-2 text-sm max-h-48 overflow-y-auto pr-2">
-                                     {stockStatus.out.length > 0 ? (
-                                        stockStatus.out.map(item => (
-                                            <li key={item.product} className="flex justify-between p-2 bg-red-100 rounded text-red-900">
-                                                <span className="font-medium">{item.product}</span>
-                                                <span className="font-bold">{formatNumber(item.stock)}</span>
-                                            </li>
-                                        ))
-                                     ) : (
-                                        <p className="text-slate-500 italic text-center py-4">Tidak ada produk yang habis.</p>
-                                     )}
-                                </ul>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                {/* Stok Aman */}
+                                <div className="bg-slate-50 p-4 rounded-lg">
+                                    <h4 className="font-semibold text-green-600 mb-3 border-b border-green-200 pb-2">🟢 {t('Stok Aman')}</h4>
+                                    <StockStatusList
+                                        items={stockStatus.safe}
+                                        groupByCategory={groupBy === 'kategori'}
+                                        itemClassName="bg-green-100 text-green-900"
+                                        emptyMessage={t('Semua produk dalam kondisi aman.')}
+                                    />
+                                </div>
+                                {/* Stok Menipis */}
+                                 <div className="bg-slate-50 p-4 rounded-lg">
+                                    <h4 className="font-semibold text-orange-600 mb-3 border-b border-orange-200 pb-2">🟠 {t('Perlu Dipesan (≤ titik pesan ulang)')}</h4>
+                                    <StockStatusList
+                                        items={stockStatus.low}
+                                        groupByCategory={groupBy === 'kategori'}
+                                        itemClassName="bg-orange-100 text-orange-900"
+                                        emptyMessage={t('Tidak ada produk yang stoknya menipis.')}
+                                    />
+                                </div>
+                                 {/* Stok Habis */}
+                                 <div className="bg-slate-50 p-4 rounded-lg">
+                                    <h4 className="font-semibold text-red-600 mb-3 border-b border-red-200 pb-2">🔴 {t('Stok Habis')}</h4>
+                                    <StockStatusList
+                                        items={stockStatus.out}
+                                        groupByCategory={groupBy === 'kategori'}
+                                        itemClassName="bg-red-100 text-red-900"
+                                        emptyMessage={t('Tidak ada produk yang habis.')}
+                                    />
+                                </div>
                             </div>
-                        </div>
-                    </section>
+                            {demandForecasts.length > 0 && (
+                                <DemandForecastTable forecasts={demandForecasts} referenceDate={forecastReferenceDate} />
+                            )}
+                            {locations.length > 1 && (
+                                <StockByLocationTable stockLevels={stockSnapshot.finalStocks} locations={locations} />
+                            )}
+                        </section>
 
 
-                    {/* Action and Input Grid */}
-                    <section className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                        <div className="space-y-6">
-                            <ManualEntryForm onAddEntry={handleAddManualEntry} products={uniqueProducts} initialStocks={initialStocks} />
-                             <InitialStockManager initialStocks={initialStocks} onUpdateStocks={handleUpdateInitialStocks} />
-                        </div>
+                        {/* Purchase Suggestions */}
+                        <section>
+                            <ReorderList suggestions={reorderSuggestions} locationLabel={stockLocation || t('Semua lokasi')} />
+                        </section>
 
-                        {/* Charts */}
-                        <div className="bg-white p-6 rounded-2xl shadow-lg">
-                            <h3 className="text-xl font-bold text-slate-800 mb-4">Grafik Penjualan & Laba per Produk</h3>
-                             <ResponsiveContainer width="100%" height={400}>
-                                <BarChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
-                                    <CartesianGrid strokeDasharray="3 3" />
-                                    <XAxis dataKey="name" />
-                                    <YAxis />
-                                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
-                                    <Legend />
-                                    <Bar dataKey="totalPenjualan" fill="#8884d8" name="Total Penjualan" />
-                                    <Bar dataKey="totalLaba" fill="#82ca9d" name="Total Laba" />
-                                </BarChart>
-                            </ResponsiveContainer>
-                        </div>
-                    </section>
+                        {/* Accounts Receivable: outstanding balances are a point-in-time figure, so the date filter does not apply. */}
+                        <section>
+                            <ReceivablesReport data={allData} asOf={toISODate(new Date())} onRecordPayment={handleRecordPayment} />
+                        </section>
 
-                    {/* Data Table */}
-                    <section>
-                         <DataTable data={sortedData} onSort={setSortConfig} sortConfig={sortConfig} onDeleteRow={handleDeleteRow} />
-                    </section>
+                        {/* ABC / Pareto Analysis: classification follows the date filter, movement runs up to its end. */}
+                        <section>
+                            <AbcAnalysis data={filteredData} history={stockData} catalog={catalog} stockLevels={finalStockLevels} referenceDate={forecastReferenceDate} />
+                        </section>
 
-                     {/* Global Actions */}
-                    <section className="mt-8 flex justify-center gap-4">
-                         <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv" className="hidden" />
-                        <button
-                            onClick={() => fileInputRef.current?.click()}
-                            className="bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors shadow-md"
-                        >
-                            Unggah CSV Baru
-                        </button>
-                        <button
-                            onClick={() => exportToCSV(allData, 'laporan_penjualan.csv')}
-                            className="bg-green-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-green-700 transition-colors shadow-md"
-                        >
-                            Unduh Laporan (CSV)
-                        </button>
-                        <button
-                            onClick={handleClearData}
-                            className="bg-red-500 text-white font-bold py-3 px-6 rounded-lg hover:bg-red-600 transition-colors shadow-md"
-                        >
-                            Hapus Semua Data
-                        </button>
-                    </section>
-                </main>
+                        {/* Tax Summary */}
+                        <section>
+                            <TaxReport data={filteredData} />
+                        </section>
+
+                        {/* Profit & Loss: operating expenses follow the same date filter as the sales. */}
+                        <section>
+                            <ProfitLossReport data={filteredData} expenses={filteredExpenses} profile={settings.profil_usaha} />
+                        </section>
+
+                        {/* Sales Trend */}
+                        <section>
+                            <SalesTrendChart data={filteredData} catalog={catalog} />
+                        </section>
+
+                        {/* Action and Input Grid */}
+                        <section className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div className="space-y-6">
+                                <ManualEntryForm onAddEntry={handleAddManualEntry} products={activeProducts} locations={locations} customers={customers} settings={settings} />
+                                <SalesReturnForm data={allData} onAddReturn={handleAddReturn} />
+                                 <InitialStockManager initialStocks={initialStocks} onUpdateStocks={handleUpdateInitialStocks} products={catalog} locations={locations} />
+                                 <ReorderSettingsManager catalog={catalog} onUpdateCatalog={handleUpdateCatalog} />
+                                 <ProductCatalogManager catalog={catalog} onUpdateCatalog={handleUpdateCatalog} />
+                                 <CustomerManager customers={customers} onUpdateCustomers={handleUpdateCustomers} />
+                                 <ExpenseLedger expenses={expenses} onUpdateExpenses={handleUpdateExpenses} />
+                                 <InvoiceHistory invoices={invoices} onOpen={setOpenInvoice} />
+                                 <ImportHistory batches={importBatches} data={allData} onRollback={handleRollbackBatch} />
+                                 <AuditLogViewer entries={auditLog} />
+                                 <BackupPanel
+                                    lastBackup={lastBackup}
+                                    reminderDays={settings.pengingat_backup_hari}
+                                    onDownload={handleDownloadBackup}
+                                    onRestore={() => backupInputRef.current?.click()}
+                                    onChangeReminder={(days: number) => handleUpdateSettings({ ...settings, pengingat_backup_hari: days })}
+                                 />
+                                 <SettingsPanel settings={settings} onUpdateSettings={handleUpdateSettings} usedLocations={usedLocations} />
+                                 <BusinessProfilePanel
+                                    profile={settings.profil_usaha}
+                                    onUpdateProfile={(profil_usaha: BusinessProfile) => handleUpdateSettings({ ...settings, profil_usaha })}
+                                 />
+                            </div>
+
+                            {/* Charts */}
+                            <div className="bg-white p-6 rounded-2xl shadow-lg">
+                                <div className="flex items-center justify-between mb-4">
+                                    <h3 className="text-xl font-bold text-slate-800">{t('Grafik Penjualan & Laba per {kelompok}', { kelompok: groupBy === 'kategori' ? t('Kategori') : t('Produk') })}</h3>
+                                    <GroupBySelect value={groupBy} onChange={setGroupBy} />
+                                </div>
+                                 <ResponsiveContainer width="100%" height={400}>
+                                    <BarChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                                        <CartesianGrid strokeDasharray="3 3" />
+                                        <XAxis dataKey="name" />
+                                        <YAxis />
+                                        <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                                        <Legend />
+                                        <Bar dataKey="totalPenjualan" fill="#8884d8" name={t('Total Penjualan')} />
+                                        <Bar dataKey="totalLaba" fill="#82ca9d" name={t('Total Laba')} />
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </section>
+
+                        {/* Data Table */}
+                        <section>
+                             <DataTable
+                                data={sortedData}
+                                allData={allData}
+                                initialStocks={initialStocks}
+                                costing={costingOptions}
+                                locations={locations}
+                                onSort={setSortConfig}
+                                sortConfig={sortConfig}
+                                onDeleteRow={handleDeleteRow}
+                                onSaveEdits={handleSaveEdits}
+                                onCreateInvoice={handleCreateInvoice}
+                            />
+                        </section>
+
+                         {/* Global Actions */}
+                        <section className="mt-8 flex justify-center gap-4">
+                             <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv,.xlsx,.xls" className="hidden" />
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                className="bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors shadow-md"
+                            >
+                                {t('Unggah CSV / Excel Baru')}
+                            </button>
+                            <button
+                                onClick={() => exportToCSV(allData, 'laporan_penjualan.csv')}
+                                className="bg-green-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-green-700 transition-colors shadow-md"
+                            >
+                                {t('Unduh Laporan (CSV)')}
+                            </button>
+                            <button
+                                onClick={() => exportToXLSX(allData, stockSnapshot.finalStocks, catalog, 'laporan_penjualan.xlsx')}
+                                className="bg-emerald-700 text-white font-bold py-3 px-6 rounded-lg hover:bg-emerald-800 transition-colors shadow-md"
+                            >
+                                {t('Unduh Laporan (Excel)')}
+                            </button>
+                            <button
+                                onClick={handleClearData}
+                                className="bg-red-500 text-white font-bold py-3 px-6 rounded-lg hover:bg-red-600 transition-colors shadow-md"
+                            >
+                                {t('Hapus Semua Data')}
+                            </button>
+                        </section>
+                    </main>
+                </div>
             </div>
-        </div>
+        </DisplayFormatContext.Provider>
     );
 }
 
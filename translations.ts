@@ -0,0 +1,551 @@
+/**
+ * English UI texts, keyed by the Indonesian text used in the code (see `t` in App.tsx).
+ */
+export const EN_TRANSLATIONS: Record<string, string> = {
+    'Stok tidak mencukupi untuk transfer "{produk}" dari {asal} ke {tujuan} pada tanggal {tanggal}. Stok saat itu: {stok}, jumlah transfer: {jumlah}. Stok tidak boleh negatif.': 'Not enough stock to transfer "{produk}" from {asal} to {tujuan} on {tanggal}. Stock at the time: {stok}, quantity transferred: {jumlah}. Stock cannot go negative.',
+    'Stok tidak mencukupi untuk "{produk}" di {lokasi} pada tanggal {tanggal}. Stok saat itu: {stok}, jumlah terjual: {jumlah}. Stok tidak boleh negatif.': 'Not enough stock for "{produk}" at {lokasi} on {tanggal}. Stock at the time: {stok}, quantity sold: {jumlah}. Stock cannot go negative.',
+    'Harga beli per transaksi': 'Purchase price per transaction',
+    'FIFO (masuk pertama, keluar pertama)': 'FIFO (first in, first out)',
+    'Rata-rata tertimbang bergerak': 'Moving weighted average',
+    'Penjualan': 'Sale',
+    'Pembelian': 'Purchase',
+    'Penyesuaian': 'Adjustment',
+    'Transfer': 'Transfer',
+    'Tambah Transaksi': 'Add Transaction',
+    'Ubah Transaksi': 'Edit Transaction',
+    'Hapus Transaksi': 'Delete Transaction',
+    'Impor': 'Import',
+    'Batalkan Impor': 'Undo Import',
+    'Ubah Stok Awal': 'Change Initial Stock',
+    'Hapus Semua Data': 'Delete All Data',
+    'Pulihkan Backup': 'Restore Backup',
+    'Catat Pembayaran': 'Record Payment',
+    'Urungkan': 'Undo',
+    'Ulangi': 'Redo',
+    'Format CSV tidak valid: terdapat tanda kutip yang tidak ditutup.': 'Invalid CSV format: a quotation mark is never closed.',
+    'File CSV kosong atau hanya berisi header.': 'The CSV file is empty or only contains a header.',
+    'Sheet "{sheet}" kosong atau hanya berisi header.': 'Sheet "{sheet}" is empty or only contains a header.',
+    'Kolom wajib belum dipetakan: {kolom}': 'Required columns are not mapped yet: {kolom}',
+    'Nilai tidak valid pada kolom \'{kolom}\': \'{nilai}\'.': 'Invalid value in column \'{kolom}\': \'{nilai}\'.',
+    'Nilai pada kolom \'{kolom}\' tidak boleh negatif.': 'The value in column \'{kolom}\' cannot be negative.',
+    'Jenis transaksi tidak dikenal: \'{nilai}\'. Gunakan penjualan, pembelian, penyesuaian, atau transfer.': 'Unknown transaction type: \'{nilai}\'. Use penjualan, pembelian, penyesuaian or transfer.',
+    'Nama produk kosong.': 'Product name is empty.',
+    'Tanggal tidak valid: \'{nilai}\'.': 'Invalid date: \'{nilai}\'.',
+    'Tanggal jatuh tempo tidak valid: \'{nilai}\'.': 'Invalid due date: \'{nilai}\'.',
+    'Transfer membutuhkan lokasi tujuan.': 'A transfer needs a destination location.',
+    'Lokasi tujuan transfer harus berbeda dari lokasi asal.': 'The transfer destination must differ from the source location.',
+    'Produk "{produk}" belum ada di katalog dan akan ditambahkan.': 'Product "{produk}" is not in the catalog yet and will be added.',
+    'Pelanggan dan jatuh tempo hanya berlaku untuk penjualan dan diabaikan.': 'Customer and due date only apply to sales and are ignored.',
+    'Harga jual lebih rendah dari harga beli.': 'Selling price is below the purchase price.',
+    'Total penjualan tidak sama dengan jumlah × harga jual setelah diskon dan pajak.': 'Sales total does not equal quantity × selling price after discounts and tax.',
+    'Tanggal': 'Date',
+    'Nama Produk / SKU': 'Product Name / SKU',
+    'Jumlah Terjual': 'Quantity Sold',
+    'Jenis Transaksi': 'Transaction Type',
+    'Jumlah Masuk / Transfer': 'Quantity Received / Transferred',
+    'Lokasi': 'Location',
+    'Lokasi Tujuan (Transfer)': 'Destination (Transfer)',
+    'Harga Beli': 'Purchase Price',
+    'Harga Jual': 'Selling Price',
+    'Total Penjualan': 'Total Sales',
+    'Total Biaya': 'Total Cost',
+    'Laba': 'Profit',
+    'Stok Sisa': 'Remaining Stock',
+    'Referensi (No. Nota)': 'Reference (Receipt No.)',
+    'Pelanggan': 'Customer',
+    'Jatuh Tempo (Penjualan Kredit)': 'Due Date (Credit Sale)',
+    'Semua Waktu': 'All Time',
+    'Hari Ini': 'Today',
+    'Minggu Ini': 'This Week',
+    'Bulan Ini': 'This Month',
+    'Rentang Kustom': 'Custom Range',
+    'Total': 'Total',
+    'Tanpa Pelanggan': 'No Customer',
+    'Belum Jatuh Tempo': 'Not Yet Due',
+    '1-30 Hari': '1-30 Days',
+    '31-60 Hari': '31-60 Days',
+    '61-90 Hari': '61-90 Days',
+    '> 90 Hari': '> 90 Days',
+    'Lunas': 'Paid',
+    'Dibayar Sebagian': 'Partially Paid',
+    'Belum Dibayar': 'Unpaid',
+    'Faktur': 'Invoice',
+    'Struk Penjualan': 'Sales Receipt',
+    'Pilih minimal satu transaksi penjualan.': 'Select at least one sale.',
+    '{dokumen} hanya dapat dibuat untuk transaksi penjualan.': '{dokumen} can only be issued for sales.',
+    'Semua transaksi dalam satu dokumen harus untuk pelanggan yang sama.': 'All transactions in one document must be for the same customer.',
+    'Nama Usaha': 'Business Name',
+    'Jatuh Tempo': 'Due Date',
+    'Kepada': 'Bill To',
+    'No': 'No',
+    'Produk': 'Product',
+    'Jumlah': 'Quantity',
+    'Harga': 'Price',
+    'Dibayar': 'Paid',
+    'Sisa Tagihan': 'Balance Due',
+    'Terima kasih atas pembelian Anda.': 'Thank you for your purchase.',
+    'Halaman {halaman} dari {jumlah}': 'Page {halaman} of {jumlah}',
+    'File logo bukan gambar yang dapat dibaca.': 'The logo file is not a readable image.',
+    'File bukan file backup yang valid (JSON tidak dapat dibaca).': 'This is not a valid backup file (the JSON cannot be read).',
+    'File ini bukan file backup dari Dashboard ERP Penjualan.': 'This file is not a backup from the ERP Sales Dashboard.',
+    'Versi backup {versi} tidak didukung. Perbarui aplikasi untuk memulihkan file ini.': 'Backup version {versi} is not supported. Update the app to restore this file.',
+    'File backup tidak berisi daftar transaksi.': 'The backup file does not contain a transaction list.',
+    'Transaksi ke-{nomor} pada file backup tidak valid.': 'Transaction {nomor} in the backup file is not valid.',
+    '{persen}% vs periode sebelumnya': '{persen}% vs previous period',
+    'Tren Penjualan & Laba': 'Sales & Profit Trend',
+    'Harian': 'Daily',
+    'Mingguan': 'Weekly',
+    'Bulanan': 'Monthly',
+    'Semua Produk': 'All Products',
+    'Kategori': 'Category',
+    'Rata-rata bergerak': 'Moving average',
+    'Jumlah periode': 'Number of periods',
+    'Unit Terjual': 'Units Sold',
+    'Rata-rata {jumlah} Periode': '{jumlah}-Period Average',
+    'Belum ada penjualan pada periode ini.': 'No sales in this period yet.',
+    's/d': 'to',
+    'di bawah minimum': 'below minimum',
+    'Per Produk': 'By Product',
+    'Per Kategori': 'By Category',
+    'Stok per Lokasi': 'Stock by Location',
+    'Perkiraan Ketahanan Stok': 'Stock Cover Forecast',
+    'Berdasarkan penjualan {hari} hari terakhir s.d. {tanggal}, dengan pola penjualan per hari dalam seminggu.': 'Based on sales in the last {hari} days up to {tanggal}, with the sales pattern per day of the week.',
+    'Stok': 'Stock',
+    'Rata-rata / Hari': 'Average / Day',
+    'Rata-rata {hari} Hari': '{hari}-Day Average',
+    'Prakiraan / Hari': 'Forecast / Day',
+    'Cukup Untuk': 'Lasts For',
+    'Perkiraan Habis': 'Expected Stock-Out',
+    'Penjualan tertinggi pada hari {hari}': 'Highest sales on {hari}',
+    '{jumlah} hari': '{jumlah} days',
+    'Belum ada penjualan': 'No sales yet',
+    'Min': 'Sun',
+    'Sen': 'Mon',
+    'Sel': 'Tue',
+    'Rab': 'Wed',
+    'Kam': 'Thu',
+    'Jum': 'Fri',
+    'Sab': 'Sat',
+    'Pilih produk dari katalog terlebih dahulu.': 'Select a product from the catalog first.',
+    'Pastikan semua kolom angka diisi dengan benar untuk penjualan.': 'Make sure all number fields are filled in correctly for a sale.',
+    'Jumlah terjual harus lebih dari 0.': 'Quantity sold must be more than 0.',
+    'Penjualan kredit membutuhkan pelanggan.': 'A credit sale needs a customer.',
+    'Tanggal jatuh tempo tidak boleh sebelum tanggal penjualan.': 'The due date cannot be before the sale date.',
+    'Uang muka harus antara 0 dan total penjualan.': 'The down payment must be between 0 and the sales total.',
+    'Pastikan jumlah masuk dan harga beli diisi dengan benar untuk pembelian.': 'Make sure quantity received and purchase price are filled in correctly for a purchase.',
+    'Jumlah masuk harus lebih dari 0.': 'Quantity received must be more than 0.',
+    'Pilih lokasi tujuan yang berbeda dari lokasi asal.': 'Select a destination different from the source location.',
+    'Jumlah transfer harus lebih dari 0.': 'Transfer quantity must be more than 0.',
+    'Jumlah stok untuk penyesuaian harus berupa angka.': 'The stock quantity for an adjustment must be a number.',
+    'Jumlah stok tidak boleh negatif.': 'The stock quantity cannot be negative.',
+    'Input Data Manual': 'Manual Data Entry',
+    '-- Pilih Produk --': '-- Select Product --',
+    'Katalog produk masih kosong. Tambahkan produk melalui Katalog Produk.': 'The product catalog is still empty. Add products in the Product Catalog.',
+    'Jenis Input': 'Entry Type',
+    'Pembelian / Penerimaan Barang': 'Purchase / Goods Receipt',
+    'Penyesuaian Stok': 'Stock Adjustment',
+    'Transfer Antar Lokasi': 'Transfer Between Locations',
+    'Lokasi Tujuan': 'Destination',
+    'Pilih lokasi tujuan': 'Select destination',
+    'Jumlah Transfer': 'Transfer Quantity',
+    'Jumlah Masuk': 'Quantity Received',
+    'Harga Beli (per item)': 'Purchase Price (per item)',
+    'Harga Jual (per item)': 'Selling Price (per item)',
+    'Pelanggan (opsional)': 'Customer (optional)',
+    'Umum': 'Walk-in',
+    'Uang Muka (opsional)': 'Down Payment (optional)',
+    'Jumlah Stok Baru': 'New Stock Quantity',
+    'Tambah Data': 'Add Entry',
+    'Penjualan kredit (tempo)': 'Credit sale (pay later)',
+    'Lokasi Asal': 'Source Location',
+    'Kelola Stok Awal': 'Manage Opening Stock',
+    'Lokasi stok awal': 'Opening stock location',
+    'Jumlah Stok Awal': 'Opening Stock Quantity',
+    'Tambah': 'Add',
+    'Belum ada stok awal yang diatur untuk {lokasi}.': 'No opening stock has been set for {lokasi}.',
+    'Titik Pesan Ulang': 'Reorder Points',
+    'Kosongkan untuk memakai bawaan: pesan ulang saat stok ≤ {titik}, target {target}.': 'Leave blank to use the defaults: reorder when stock ≤ {titik}, target {target}.',
+    '"{produk}": stok minimum ≤ titik pesan ulang ≤ stok target.': '"{produk}": minimum stock ≤ reorder point ≤ target stock.',
+    'Min.': 'Min.',
+    'Pesan Ulang': 'Reorder At',
+    'Target': 'Target',
+    'Katalog produk masih kosong.': 'The product catalog is still empty.',
+    'Saran Pembelian': 'Purchase Suggestions',
+    'estimasi biaya {biaya}': 'estimated cost {biaya}',
+    'Ekspor Daftar Pembelian': 'Export Purchase List',
+    'Jumlah Pesan': 'Order Quantity',
+    'Estimasi Biaya': 'Estimated Cost',
+    'mendesak': 'urgent',
+    'Tidak ada produk yang perlu dipesan.': 'No products need to be ordered.',
+    'Nama produk tidak boleh kosong.': 'Product name cannot be empty.',
+    'Produk "{produk}" sudah ada di katalog.': 'Product "{produk}" is already in the catalog.',
+    'Kode SKU "{sku}" sudah digunakan.': 'SKU "{sku}" is already in use.',
+    'Harga default tidak boleh negatif.': 'Default prices cannot be negative.',
+    'Katalog Produk': 'Product Catalog',
+    'Nama': 'Name',
+    'Satuan': 'Unit',
+    'Aktif': 'Active',
+    'Belum ada produk di katalog.': 'There are no products in the catalog yet.',
+    'SKU (opsional)': 'SKU (optional)',
+    'Nama Produk': 'Product Name',
+    'Satuan (pcs, kg, ...)': 'Unit (pcs, kg, ...)',
+    'Harga Beli Default': 'Default Purchase Price',
+    'Harga Jual Default': 'Default Selling Price',
+    'Tambah Produk': 'Add Product',
+    'Nama pelanggan wajib diisi.': 'Customer name is required.',
+    'Pelanggan "{nama}" sudah ada.': 'Customer "{nama}" already exists.',
+    'Tempo pembayaran harus berupa angka 0 atau lebih.': 'Payment terms must be a number of 0 or more.',
+    'Daftar Pelanggan': 'Customers',
+    'Tempo menentukan jatuh tempo bawaan untuk penjualan kredit.': 'Terms set the default due date for credit sales.',
+    'Telepon': 'Phone',
+    'Alamat': 'Address',
+    'Tempo (hari)': 'Terms (days)',
+    'Tempo': 'Terms',
+    'Belum ada pelanggan.': 'No customers yet.',
+    'Pembayaran untuk {pelanggan} harus lebih dari 0 dan paling banyak {sisa}.': 'The payment from {pelanggan} must be more than 0 and at most {sisa}.',
+    'Tanggal pembayaran tidak boleh sebelum tanggal penjualan.': 'The payment date cannot be before the sale date.',
+    'Piutang Usaha': 'Accounts Receivable',
+    'Umur piutang per {tanggal}.': 'Receivables aging as of {tanggal}.',
+    'Penjualan Kredit Belum Lunas': 'Unpaid Credit Sales',
+    'Sisa': 'Balance',
+    'Status': 'Status',
+    'Jumlah pembayaran {pelanggan}': 'Payment amount for {pelanggan}',
+    'Tanggal pembayaran {pelanggan}': 'Payment date for {pelanggan}',
+    'Simpan': 'Save',
+    'Tidak ada piutang yang belum dibayar.': 'There are no unpaid receivables.',
+    'Pilih Sheet': 'Select Sheet',
+    '{file} berisi beberapa sheet. Pilih sheet yang berisi data transaksi.': '{file} contains several sheets. Select the sheet with the transaction data.',
+    '{jumlah} baris data': '{jumlah} data rows',
+    'Batal': 'Cancel',
+    'Pemetaan Kolom CSV': 'CSV Column Mapping',
+    '{file}: {kolom} kolom terdeteksi, {baris} baris. Pilih kolom sumber untuk setiap field.': '{file}: {kolom} columns detected, {baris} rows. Select the source column for each field.',
+    'Field yang tidak dipetakan akan dihitung otomatis dari jumlah dan harga.': 'Unmapped fields are calculated from quantity and price.',
+    '(Hitung otomatis)': '(Calculate automatically)',
+    '-- Pilih Kolom --': '-- Select Column --',
+    'Muat preset...': 'Load preset...',
+    'Nama preset (mis. Export POS)': 'Preset name (e.g. POS Export)',
+    'Simpan Preset': 'Save Preset',
+    'Hapus Preset': 'Delete Preset',
+    'Impor Data': 'Import Data',
+    'OK': 'OK',
+    'Error Format': 'Format Error',
+    'Duplikat': 'Duplicate',
+    'Stok Negatif': 'Negative Stock',
+    'Peringatan': 'Warning',
+    'Sudah ada di data ({jumlah} baris); data lama akan diganti.': 'Already in the data ({jumlah} rows); the existing rows will be replaced.',
+    'Sudah ada di data ({jumlah} baris); baris ini akan dilewati.': 'Already in the data ({jumlah} rows); this row will be skipped.',
+    'Pratinjau Impor': 'Import Preview',
+    '{file}: {baris} baris, {siap} siap diimpor, {masalah} bermasalah, {duplikat} duplikat, {dilewati} dilewati.': '{file}: {baris} rows, {siap} ready to import, {masalah} with problems, {duplikat} duplicates, {dilewati} skipped.',
+    'Impor ini menyebabkan stok negatif pada data yang sudah ada:': 'This import causes negative stock in the existing data:',
+    'Tampilkan hanya baris bermasalah': 'Show only rows with problems',
+    'Duplikat: lewati': 'Duplicates: skip',
+    'Duplikat: ganti data lama': 'Duplicates: replace existing',
+    'Lewati semua baris bermasalah': 'Skip all rows with problems',
+    'Unduh laporan error (CSV)': 'Download error report (CSV)',
+    'Lewati': 'Skip',
+    'Baris': 'Row',
+    'Keterangan': 'Details',
+    'Aksi': 'Action',
+    'Selesai': 'Done',
+    'Perbaiki': 'Fix',
+    'Impor {jumlah} Baris Valid': 'Import {jumlah} Valid Rows',
+    'Pengaturan': 'Settings',
+    'Lokasi "{lokasi}" sudah ada.': 'Location "{lokasi}" already exists.',
+    'Metode Perhitungan HPP': 'Cost of Goods Sold Method',
+    'FIFO dan rata-rata menghitung biaya penjualan dari harga beli pada transaksi pembelian. Stok awal dinilai dengan harga beli default di katalog.': 'FIFO and average cost use the purchase price of purchase transactions. Opening stock is valued at the default purchase price in the catalog.',
+    'Nama Pengguna': 'User Name',
+    'Dicatat di log aktivitas untuk setiap perubahan data.': 'Recorded in the activity log for every data change.',
+    'Gudang / Outlet': 'Warehouses / Outlets',
+    'Digunakan': 'In use',
+    'Hapus': 'Delete',
+    'Nama gudang atau outlet': 'Warehouse or outlet name',
+    'Bahasa & Format': 'Language & Format',
+    'Bahasa': 'Language',
+    'Format Angka': 'Number Format',
+    'Mata Uang': 'Currency',
+    'Format Tanggal': 'Date Format',
+    'Contoh: {tanggal} · {nominal}. Mata uang hanya mengubah tampilan; nilai transaksi tidak dikonversi.': 'Example: {tanggal} · {nominal}. The currency only changes how amounts are shown; transaction values are not converted.',
+    'Profil Usaha': 'Business Profile',
+    'Dicetak sebagai kop pada faktur dan struk.': 'Printed as the letterhead on invoices and receipts.',
+    'Logo usaha': 'Business logo',
+    'Ganti': 'Replace',
+    'Unggah': 'Upload',
+    'Logo tidak dapat dibaca.': 'The logo cannot be read.',
+    'Backup & Pemulihan': 'Backup & Restore',
+    'Backup berisi semua transaksi, stok awal, katalog, dan pengaturan dalam satu file untuk dipindahkan ke browser lain atau dipulihkan nanti.': 'A backup holds all transactions, opening stock, the catalog and settings in one file to move to another browser or restore later.',
+    'Backup terakhir: {waktu}.': 'Last backup: {waktu}.',
+    'belum pernah': 'never',
+    'Unduh Backup': 'Download Backup',
+    'Pulihkan dari Backup': 'Restore from Backup',
+    'Pengingat Backup': 'Backup Reminder',
+    'Nonaktif': 'Off',
+    'Setiap {hari} hari': 'Every {hari} days',
+    'dibuat {waktu}': 'created {waktu}',
+    '{transaksi} transaksi, {produk} produk': '{transaksi} transactions, {produk} products',
+    'workspace saat ini diganti seluruhnya dengan isi backup.': 'the current workspace is fully replaced by the backup.',
+    'Gabung': 'Merge',
+    'isi backup ditambahkan; transaksi dan stok awal yang sama diambil dari backup.': 'the backup is added; matching transactions and opening stock are taken from the backup.',
+    'Perubahan yang akan terjadi:': 'Changes that will be made:',
+    '{jumlah} transaksi baru': '{jumlah} new transactions',
+    '{jumlah} transaksi berubah': '{jumlah} changed transactions',
+    '{jumlah} transaksi dihapus': '{jumlah} deleted transactions',
+    '{jumlah} produk baru di katalog': '{jumlah} new products in the catalog',
+    '{jumlah} nilai stok awal berubah': '{jumlah} opening stock values changed',
+    'Pulihkan': 'Restore',
+    'Riwayat Impor': 'Import History',
+    '{jumlah} baris': '{jumlah} rows',
+    'Belum ada file yang diimpor.': 'No files have been imported yet.',
+    'Stok awal {produk} di {lokasi}': 'Opening stock of {produk} at {lokasi}',
+    'Katalog produk': 'Product catalog',
+    'Riwayat impor': 'Import history',
+    'Log Aktivitas': 'Activity Log',
+    'Belum ada aktivitas yang tercatat.': 'No activity has been recorded yet.',
+    'Tidak ada yang dapat diurungkan': 'Nothing to undo',
+    'Tidak ada yang dapat diulangi': 'Nothing to redo',
+    'Tutup': 'Close',
+    'Unduh PDF': 'Download PDF',
+    'Cetak': 'Print',
+    'Faktur & Struk': 'Invoices & Receipts',
+    'Pilih transaksi penjualan di tabel data untuk menerbitkan dokumen baru.': 'Select sales transactions in the data table to issue a new document.',
+    'Lihat': 'View',
+    'Belum ada dokumen yang diterbitkan.': 'No documents have been issued yet.',
+    'Periksa kembali nilai pada baris "{produk}" ({tanggal}): tanggal harus valid dan angka tidak boleh negatif.': 'Check the values in the row "{produk}" ({tanggal}): the date must be valid and numbers cannot be negative.',
+    'Jenis': 'Type',
+    'Jml Terjual': 'Qty Sold',
+    'Jml Masuk': 'Qty In',
+    'Detail Data Penjualan': 'Sales Data Details',
+    'Buat {dokumen}': 'Create {dokumen}',
+    'Edit Terpilih ({jumlah})': 'Edit Selected ({jumlah})',
+    'Mengedit {jumlah} baris.': 'Editing {jumlah} rows.',
+    'Ubah semua:': 'Change all:',
+    '-- Pilih Lokasi --': '-- Select Location --',
+    'Terapkan': 'Apply',
+    'Perubahan ini membuat stok negatif dan tidak dapat disimpan:': 'These changes make stock negative and cannot be saved:',
+    'Stok sisa pada {jumlah} transaksi berikutnya akan berubah:': 'Remaining stock will change on {jumlah} later transactions:',
+    'Simpan Perubahan': 'Save Changes',
+    'Pilih {produk}': 'Select {produk}',
+    'Harga beli': 'Purchase price',
+    'Harga jual': 'Selling price',
+    'Edit': 'Edit',
+    '(penjualan, pembelian, penyesuaian, transfer) dan': '(penjualan, pembelian, penyesuaian, transfer) and',
+    'Analisis penjualan dan stok produk Anda secara real-time.': 'Analyze your sales and product stock in real time.',
+    'Apakah Anda yakin ingin menghapus semua data? Aksi ini masih dapat diurungkan.': 'Are you sure you want to delete all data? This can still be undone.',
+    'Backup terakhir dibuat {tanggal}.': 'The last backup was made on {tanggal}.',
+    'Backup tidak dapat dipulihkan:': 'The backup cannot be restored:',
+    'Batalkan impor "{file}"? Semua baris dari impor ini akan dihapus.': 'Undo the import "{file}"? All rows from this import will be deleted.',
+    'Batalkan impor {file}': 'Undo import {file}',
+    'Dashboard ERP Penjualan': 'Sales ERP Dashboard',
+    'Data yang tersimpan tidak valid:': 'The stored data is invalid:',
+    'Error': 'Error',
+    'Gagal membatalkan impor: Aksi ini akan menyebabkan data tidak valid.': 'Could not undo the import: this would make the data invalid.',
+    'Gagal memproses file. Pastikan formatnya benar.': 'Could not process the file. Make sure the format is correct.',
+    'Gagal memuat data. Mungkin data korup.': 'Could not load the data. It may be corrupted.',
+    'Gagal menghapus baris: Aksi ini akan menyebabkan data tidak valid.': 'Could not delete the row: this would make the data invalid.',
+    'Gagal menyimpan data ke penyimpanan browser.': 'Could not save data to browser storage.',
+    'Grafik Penjualan & Laba per {kelompok}': 'Sales & Profit by {kelompok}',
+    'Hapus semua data': 'Delete all data',
+    'Hapus {jenis} {produk} ({tanggal})': 'Delete {jenis} {produk} ({tanggal})',
+    'Impor dibatalkan: {jumlah} produk tidak dikenal di katalog.': 'Import cancelled: {jumlah} products are not in the catalog.',
+    'Impor {file} ({jumlah} baris)': 'Import {file} ({jumlah} rows)',
+    'Kolom': 'The',
+    'Lokasi stok': 'Stock location',
+    'Memuat data...': 'Loading data...',
+    'Mulai dengan mengunggah file CSV atau Excel (.xlsx) data penjualan Anda. Data yang sudah diunggah akan tersimpan di browser Anda.': 'Start by uploading a CSV or Excel (.xlsx) file of your sales data. Uploaded data is stored in your browser.',
+    'Nanti': 'Later',
+    'Nilai Persediaan': 'Inventory Value',
+    'Panduan Format CSV': 'CSV Format Guide',
+    'Pastikan file CSV Anda memiliki header berikut (urutan tidak penting):': 'Make sure your CSV file has the following headers (order does not matter):',
+    'Pembayaran {pelanggan} {jumlah} ({produk}, {tanggal})': 'Payment {pelanggan} {jumlah} ({produk}, {tanggal})',
+    'Pengaturan tidak dapat diterapkan:': 'The settings cannot be applied:',
+    'Perlu Dipesan (≤ titik pesan ulang)': 'Reorder Needed (≤ reorder point)',
+    'Perubahan tidak dapat disimpan:': 'The changes cannot be saved:',
+    'Produk Hampir Habis': 'Products Running Low',
+    'Produk Terlaris': 'Best-Selling Product',
+    'Produk berikut belum terdaftar di katalog:': 'The following products are not in the catalog yet:',
+    'Pulihkan backup {file} ({mode})': 'Restore backup {file} ({mode})',
+    'ganti': 'replace',
+    'gabung': 'merge',
+    'Selamat Datang di Dashboard ERP Penjualan': 'Welcome to the Sales ERP Dashboard',
+    'Semua Lokasi (Konsolidasi)': 'All Locations (Consolidated)',
+    'Semua lokasi': 'All locations',
+    'Semua produk dalam kondisi aman.': 'All products are at safe levels.',
+    'Status Stok Saat Ini': 'Current Stock Status',
+    'Stok Aman': 'Stock OK',
+    'Stok Habis': 'Out of Stock',
+    'Stok awal tidak valid:': 'The opening stock is invalid:',
+    'Tambahkan sebagai produk baru ke katalog?': 'Add them to the catalog as new products?',
+    'Tidak ada produk yang habis.': 'No products are out of stock.',
+    'Tidak ada produk yang stoknya menipis.': 'No products are running low.',
+    'Total Laba': 'Total Profit',
+    'Total Pembelian': 'Total Purchases',
+    'Transaksi terpilih sudah tercantum di {nomor}. Terbitkan {dokumen} baru?': 'The selected transactions already appear on {nomor}. Issue a new {dokumen}?',
+    'Ubah stok awal': 'Change opening stock',
+    'Ubah {jumlah} transaksi': 'Edit {jumlah} transactions',
+    'Unduh Laporan (CSV)': 'Download Report (CSV)',
+    'Unduh Laporan (Excel)': 'Download Report (Excel)',
+    'Unduh backup agar data tidak hilang saat data situs browser dihapus.': 'Download a backup so data is not lost when browser site data is cleared.',
+    'Unggah CSV / Excel Baru': 'Upload New CSV / Excel',
+    'Unggah File CSV / Excel': 'Upload CSV / Excel File',
+    'Workspace ini belum pernah di-backup.': 'This workspace has never been backed up.',
+    'boleh berisi nama produk atau kode SKU dari katalog. Kolom opsional': 'column may contain a product name or a catalog SKU. The optional columns',
+    'dan': 'and',
+    'dapat ditambahkan untuk mencatat penerimaan barang, serta': 'can be added to record goods received, as well as',
+    'untuk stok per gudang/outlet. File dengan nama kolom lain (mis. export POS atau marketplace) dapat dipetakan saat diunggah.': 'for stock per warehouse/outlet. Files with other column names (e.g. POS or marketplace exports) can be mapped on upload.',
+    'Nominal': 'Amount',
+    'Diskon Baris': 'Line Discount',
+    'Diskon Transaksi (Bagian Baris)': 'Transaction Discount (Line Share)',
+    'Tarif Pajak (%)': 'Tax Rate (%)',
+    'Harga Termasuk Pajak': 'Price Includes Tax',
+    'Pajak (PPN)': 'Tax (VAT)',
+    'Nilai tidak valid pada kolom \'{kolom}\': \'{nilai}\'. Gunakan ya atau tidak.': 'Invalid value in column \'{kolom}\': \'{nilai}\'. Use yes or no.',
+    'Diskon dan pajak hanya berlaku untuk penjualan dan diabaikan.': 'Discounts and tax only apply to sales and were ignored.',
+    'Diskon melebihi jumlah × harga jual.': 'Discount exceeds quantity × selling price.',
+    'Harga termasuk pajak dan belum termasuk pajak tidak dapat digabung dalam satu dokumen.': 'Tax-inclusive and tax-exclusive prices cannot be combined in one document.',
+    'Diskon': 'Discount',
+    'Subtotal': 'Subtotal',
+    'PPN': 'VAT',
+    'Termasuk PPN': 'Including VAT',
+    'Diskon (opsional)': 'Discount (optional)',
+    'Jenis diskon': 'Discount type',
+    'Pajak': 'Tax',
+    'Tanpa Pajak': 'No Tax',
+    'Harga jual sudah termasuk pajak': 'Selling price includes tax',
+    'Diskon harus antara 0 dan 100% atau 0 dan jumlah × harga jual.': 'Discount must be between 0 and 100% or between 0 and quantity × selling price.',
+    'Diskon tidak boleh melebihi jumlah × harga jual.': 'Discount cannot exceed quantity × selling price.',
+    'DPP {dpp} + PPN {pajak} = Total {total}': 'Tax base {dpp} + VAT {pajak} = Total {total}',
+    'Diskon {diskon}': 'Discount {diskon}',
+    'Isi nama pajak dan tarif antara 0 dan 100%.': 'Enter a tax name and a rate between 0 and 100%.',
+    'Tarif pajak "{nama}" sudah ada.': 'Tax rate "{nama}" already exists.',
+    'Nama pajak': 'Tax name',
+    'Tarif %': 'Rate %',
+    'Pajak bawaan untuk penjualan baru': 'Default tax for new sales',
+    'Diskon nota hanya dapat diberikan pada transaksi penjualan.': 'A transaction discount can only be given on sales.',
+    'Diskon nota harus antara 0 dan {maksimum}.': 'The transaction discount must be between 0 and {maksimum}.',
+    'Diskon nota untuk penjualan terpilih:': 'Transaction discount for the selected sales:',
+    'Ringkasan Pajak': 'Tax Summary',
+    'Penjualan, diskon, DPP dan PPN per bulan dan tarif pajak.': 'Sales, discounts, tax base and VAT per month and tax rate.',
+    'Ekspor Laporan Pajak': 'Export Tax Report',
+    'Periode': 'Period',
+    'Tarif': 'Rate',
+    'Transaksi': 'Transactions',
+    'Penjualan Bruto': 'Gross Sales',
+    'DPP': 'Tax Base',
+    'Retur Penjualan': 'Sales Return',
+    'Layak jual (kembali ke stok)': 'Sellable (back to stock)',
+    'Rusak (dihapusbukukan)': 'Damaged (written off)',
+    'Catat Retur': 'Record Return',
+    'Retur "{produk}" pada tanggal {tanggal} tidak memiliki penjualan asal pada atau sebelum tanggal tersebut.': 'Return of "{produk}" on {tanggal} has no original sale on or before that date.',
+    'Retur "{produk}" pada tanggal {tanggal} melebihi jumlah yang terjual. Terjual: {terjual}, total retur: {jumlah}.': 'Return of "{produk}" on {tanggal} exceeds the quantity sold. Sold: {terjual}, total returned: {jumlah}.',
+    'Jumlah retur harus lebih dari 0 dan paling banyak {jumlah}.': 'Return quantity must be more than 0 and at most {jumlah}.',
+    'Tanggal retur tidak boleh sebelum tanggal penjualan.': 'The return date cannot be before the sale date.',
+    'Retur penjualan tidak dapat diimpor. Catat retur melalui formulir Retur Penjualan.': 'Sales returns cannot be imported. Record returns with the Sales Return form.',
+    'Pilih penjualan yang diretur.': 'Select the sale being returned.',
+    'Retur {jumlah} {produk} ({tanggal}, {kondisi})': 'Return {jumlah} {produk} ({tanggal}, {kondisi})',
+    'Cari produk, pelanggan atau tanggal': 'Search product, customer or date',
+    'Penjualan asal': 'Original sale',
+    '-- Pilih Penjualan --': '-- Select Sale --',
+    'Jumlah Retur': 'Return Quantity',
+    'Kondisi Barang': 'Item Condition',
+    'Tanggal Retur': 'Return Date',
+    'Dapat diretur: {jumlah}.': 'Returnable: {jumlah}.',
+    'Nilai retur: {nilai}.': 'Return value: {nilai}.',
+    'Barang Rusak (Dihapusbukukan)': 'Damaged Goods (Written Off)',
+    '{jumlah} unit · {nilai}': '{jumlah} units · {nilai}',
+    'Lancar': 'Moving',
+    'Pendapatan': 'Revenue',
+    'Lambat': 'Slow',
+    'Stok Mati': 'Dead Stock',
+    'Analisis ABC / Pareto': 'ABC / Pareto Analysis',
+    'Kelas A: 80% pertama dari total, B: 15% berikutnya, C: sisanya.': 'Class A: the first 80% of the total, B: the next 15%, C: the rest.',
+    'Dasar klasifikasi': 'Classification basis',
+    'Berdasarkan {dasar}': 'By {dasar}',
+    'Ekspor Klasifikasi': 'Export Classification',
+    'Kelas {kelas}': 'Class {kelas}',
+    '{jumlah} produk · {persen} dari {dasar}': '{jumlah} products · {persen} of {dasar}',
+    'Kumulatif %': 'Cumulative %',
+    'Grafik menampilkan {jumlah} produk teratas dari {total}.': 'The chart shows the top {jumlah} of {total} products.',
+    'Porsi': 'Share',
+    'Kumulatif': 'Cumulative',
+    'Kelas Penjualan': 'Revenue Class',
+    'Kelas Laba': 'Profit Class',
+    'Hari Sejak Terjual': 'Days Since Sale',
+    'Pergerakan': 'Movement',
+    'Stok Lambat & Stok Mati': 'Slow-Moving & Dead Stock',
+    'Lambat setelah': 'Slow after',
+    'hari, mati setelah': 'days, dead after',
+    'hari tanpa penjualan': 'days without sales',
+    'Terakhir terjual {tanggal}': 'Last sold {tanggal}',
+    'Belum pernah terjual': 'Never sold',
+    'stok {jumlah} senilai {nilai}': 'stock {jumlah} worth {nilai}',
+    'Semua produk yang masih memiliki stok terjual dalam {jumlah} hari terakhir.': 'Every product with stock on hand sold within the last {jumlah} days.',
+    'Belum ada produk untuk dianalisis.': 'No products to analyse yet.',
+    'Kuartalan': 'Quarterly',
+    'Tahunan': 'Yearly',
+    'Belum ada biaya operasional.': 'No operating expenses yet.',
+    'Belum ada penjualan atau biaya pada periode ini.': 'No sales or expenses in this period.',
+    'Biaya Operasional': 'Operating Expenses',
+    'Dicetak {tanggal}': 'Printed {tanggal}',
+    'Ekspor Laba Rugi': 'Export Profit & Loss',
+    'Hapus biaya {kategori} sebesar {jumlah}?': 'Delete the {kategori} expense of {jumlah}?',
+    'Harga Pokok Penjualan': 'Cost of Goods Sold',
+    'Jumlah biaya harus lebih besar dari 0.': 'The expense amount must be greater than 0.',
+    'Kategori biaya wajib diisi.': 'The expense category is required.',
+    'Laba Bersih': 'Net Profit',
+    'Laba Kotor': 'Gross Profit',
+    'Laporan Laba Rugi': 'Profit & Loss Statement',
+    'Margin Kotor': 'Gross Margin',
+    'Pendapatan bersih retur, HPP dan biaya operasional per periode.': 'Revenue net of returns, COGS and operating expenses per period.',
+    'Perubahan Laba Bersih': 'Net Profit Change',
+    'Pos': 'Line Item',
+    'Sewa, gaji, listrik dan biaya lain di luar harga pokok penjualan.': 'Rent, salaries, utilities and other costs outside the cost of goods sold.',
+    'Tanggal biaya wajib diisi.': 'The expense date is required.',
+    'Total Biaya Operasional': 'Total Operating Expenses',
+    '(difilter dari {jumlah})': '(filtered from {jumlah})',
+    '0 transaksi': '0 transactions',
+    'Baris per halaman': 'Rows per page',
+    'Berikutnya': 'Next',
+    'Cari produk, jenis, lokasi, pelanggan atau referensi': 'Search product, type, location, customer or reference',
+    'Cari produk...': 'Search products...',
+    'Dari': 'From',
+    'Ekspor Tampilan (CSV)': 'Export View (CSV)',
+    'Filter': 'Filter',
+    'Filter ({jumlah})': 'Filter ({jumlah})',
+    'Halaman {halaman} dari {total}': 'Page {halaman} of {total}',
+    'Hapus urutan': 'Clear sorting',
+    'Kembalikan kolom bawaan': 'Restore default columns',
+    'Menampilkan {awal}–{akhir} dari {jumlah} transaksi': 'Showing {awal}–{akhir} of {jumlah} transactions',
+    'Pilih Kolom': 'Choose Columns',
+    'Pilih semua baris di halaman ini': 'Select all rows on this page',
+    'Referensi': 'Reference',
+    'Rentang nilai': 'Value ranges',
+    'Reset semua filter': 'Reset all filters',
+    'Sampai': 'To',
+    'Sebelumnya': 'Previous',
+    'Semua produk': 'All products',
+    'Shift-klik untuk mengurutkan beberapa kolom': 'Shift-click to sort by several columns',
+    'Tanggal akhir': 'End date',
+    'Tanggal awal': 'Start date',
+    'Tidak ada transaksi yang cocok dengan pencarian atau filter.': 'No transactions match the search or filters.',
+    '{jumlah} / halaman': '{jumlah} / page',
+    'Gagal mengurungkan "{aksi}": {galat}': 'Could not undo "{aksi}": {galat}',
+    'Gagal mengulangi "{aksi}": {galat}': 'Could not redo "{aksi}": {galat}',
+    '{jumlah} transaksi tidak memiliki tanggal yang valid.': '{jumlah} transactions have no valid date.',
+    'Preset pemetaan': 'Mapping presets',
+    'Ubah Pengaturan': 'Change Settings',
+    'Ubah Katalog': 'Change Catalog',
+    'Ubah pengaturan: {kolom}': 'Change settings: {kolom}',
+    'Ubah katalog produk': 'Change product catalog',
+    '{jumlah} faktur dan struk diberi nomor baru karena nomornya sudah dipakai:': '{jumlah} invoices and receipts get a new number because theirs is already taken:',
+    'Bagian "{bagian}" pada file backup tidak valid.': 'The "{bagian}" section of the backup file is invalid.',
+    'Data ke-{nomor} pada bagian "{bagian}" file backup tidak valid.': 'Entry {nomor} in the "{bagian}" section of the backup file is invalid.',
+    'Stok awal': 'Initial stock',
+    'Ubah Pelanggan': 'Change Customers',
+    'Ubah daftar pelanggan': 'Change customer directory',
+    'Ubah Biaya': 'Change Expenses',
+    'Ubah biaya operasional': 'Change operating expenses',
+    'Terbitkan Faktur': 'Issue Invoice',
+    'Terbitkan {dokumen} {nomor}': 'Issue {dokumen} {nomor}',
+    'Perubahan katalog tidak dapat diterapkan:': 'The catalog change cannot be applied:',
+    'Ubah Preset': 'Change Presets',
+    'Ubah preset pemetaan': 'Change mapping presets',
+};
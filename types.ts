@@ -1,20 +1,254 @@
+export type TransactionType = 'penjualan' | 'pembelian' | 'penyesuaian' | 'transfer' | 'retur';
+
+/** Sellable returns go back into stock; damaged ones are written off. */
+export type ReturnCondition = 'layak_jual' | 'rusak';
 
 export interface SalesData {
   id: string;
   tanggal: string;
+  jenis_transaksi: TransactionType;
   nama_produk: string;
+  lokasi: string;
+  /** Destination of a 'transfer'; the quantity moved is held in `jumlah_masuk`. */
+  lokasi_tujuan?: string;
+  /** Id of the sale a 'retur' is for; the quantity returned is held in `jumlah_masuk`. */
+  retur_dari?: string;
+  kondisi_retur?: ReturnCondition;
   jumlah_terjual: number;
+  jumlah_masuk: number;
   harga_beli: number;
   harga_jual: number;
+  /** Line discount of a sale, in currency. */
+  diskon?: number;
+  /** This line's share of a discount given on the whole transaction, in currency. */
+  diskon_transaksi?: number;
+  /** Tax rate of a sale in percent, e.g. 11 for PPN 11%. */
+  tarif_pajak?: number;
+  /** Whether `harga_jual` already includes the tax. */
+  harga_termasuk_pajak?: boolean;
+  /** Net sales after discounts and excluding tax: the tax base (DPP) of a sale. Negative on a return. */
   total_penjualan: number;
+  /** Tax charged on a sale, on top of `total_penjualan`. */
+  pajak?: number;
   total_biaya: number;
   laba: number;
   stok_sisa: number;
+  referensi?: string;
+  /** Customer name for a sale, matching an entry in the customer directory. */
+  pelanggan?: string;
+  /** Due date of a credit sale; sales without one are paid in cash. */
+  jatuh_tempo?: string;
+  /** Payments received against a credit sale. */
+  pembayaran?: SalePayment[];
+  batch_id?: string;
+}
+
+export interface SalePayment {
+  id: string;
+  tanggal: string;
+  jumlah: number;
+  /** Id of the return credited against the sale, when this is not a cash payment. */
+  retur?: string;
+}
+
+export type PaymentStatus = 'lunas' | 'sebagian' | 'belum_bayar';
+
+export interface Customer {
+  id: string;
+  nama: string;
+  telepon: string;
+  alamat: string;
+  /** Default credit term in days for new credit sales. */
+  tempo_hari: number;
+}
+
+/** An operating expense such as rent, salaries or utilities, kept apart from the stock transactions. */
+export interface Expense {
+  id: string;
+  tanggal: string;
+  kategori: string;
+  keterangan: string;
+  jumlah: number;
+}
+
+export interface ImportBatch {
+  id: string;
+  nama_file: string;
+  tanggal_impor: string;
+  jumlah_baris: number;
+  /** Ids of the customers the import added to the directory; rolling it back removes them again. */
+  pelanggan_baru?: string[];
+}
+
+export type CostingMethod = 'harga_transaksi' | 'fifo' | 'rata_rata';
+
+export interface AppSettings {
+  metode_biaya: CostingMethod;
+  daftar_lokasi: string[];
+  /** Name recorded in the audit log for changes made on this device. */
+  nama_pengguna: string;
+  /** Days between backup reminders; 0 turns the reminder off. */
+  pengingat_backup_hari: number;
+  /** Header printed on invoices and receipts. */
+  profil_usaha: BusinessProfile;
+  bahasa: Language;
+  /** BCP 47 locale for number and currency formatting, e.g. 'id-ID'. */
+  locale: string;
+  /** ISO 4217 code. Amounts are shown in it as recorded, not converted. */
+  mata_uang: string;
+  format_tanggal: DateFormat;
+  /** Tax rates that can be charged on sales. */
+  tarif_pajak: TaxRate[];
+  /** Name of the rate preselected on new sales; empty for no tax. */
+  pajak_bawaan: string;
+  /** Whether selling prices are entered including tax. */
+  harga_termasuk_pajak: boolean;
+}
+
+export interface TaxRate {
+  nama: string;
+  /** Percentage, e.g. 11 for PPN 11%. */
+  tarif: number;
+}
+
+export type Language = 'id' | 'en';
+
+export type DateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface BusinessProfile {
+  nama: string;
+  alamat: string;
+  npwp: string;
+  /** Logo re-encoded as JPEG so it can be embedded in PDFs as is. */
+  logo: { data: string; lebar: number; tinggi: number } | null;
+}
+
+export type InvoiceType = 'faktur' | 'struk';
+
+export interface InvoiceLine {
+  nama_produk: string;
+  jumlah: number;
+  harga_jual: number;
+  /** Missing on documents issued before discounts were recorded. */
+  diskon?: number;
+  /** Line amount after discounts, at the prices as entered. */
+  total: number;
+}
+
+/** An issued invoice or receipt. Lines are copied from the sales so the document stays as issued. */
+export interface Invoice {
+  id: string;
+  nomor: string;
+  jenis: InvoiceType;
+  tanggal: string;
+  pelanggan?: string;
+  jatuh_tempo?: string;
+  baris: InvoiceLine[];
+  /** Tax on the document; included in `total`. Missing on documents issued before tax was recorded. */
+  pajak?: number;
+  /** Whether the line prices already include `pajak`. */
+  harga_termasuk_pajak?: boolean;
+  total: number;
+  dibayar: number;
+  /** Ids of the sales the document was issued for. */
+  transaksi: string[];
+}
+
+/** Stock quantities per location, then per product name. */
+export type StockLevels = Record<string, Record<string, number>>;
+
+export interface Product {
+  sku: string;
+  nama: string;
+  kategori: string;
+  satuan: string;
+  harga_beli_default: number;
+  harga_jual_default: number;
+  aktif: boolean;
+  /** Safety stock; falling below it makes a reorder urgent. */
+  stok_minimum?: number;
+  /** Stock level at or below which the product should be reordered. */
+  titik_pesan_ulang?: number;
+  /** Level a purchase should bring the stock back up to. */
+  stok_target?: number;
 }
 
-export type SortKey = keyof Omit<SalesData, 'id'>;
+export type SortKey = keyof Omit<SalesData, 'id' | 'batch_id' | 'pembayaran'>;
+
+/** Maps each `SalesData` field to the source column it is read from; unmapped fields are derived. */
+export type ColumnMapping = Partial<Record<SortKey, string>>;
+
+export interface ColumnMappingPreset {
+  nama: string;
+  kolom_sumber: string[];
+  mapping: ColumnMapping;
+}
 
 export interface SortConfig {
   key: SortKey;
   direction: 'ascending' | 'descending';
 }
+
+export type AuditAction =
+  | 'tambah_transaksi'
+  | 'ubah_transaksi'
+  | 'hapus_transaksi'
+  | 'impor'
+  | 'batalkan_impor'
+  | 'ubah_stok_awal'
+  | 'hapus_semua_data'
+  | 'pulihkan_backup'
+  | 'catat_pembayaran'
+  | 'catat_retur'
+  | 'ubah_pengaturan'
+  | 'ubah_katalog'
+  | 'ubah_pelanggan'
+  | 'ubah_biaya'
+  | 'terbitkan_faktur'
+  | 'ubah_preset'
+  | 'urungkan'
+  | 'ulangi';
+
+/**
+ * The part of the workspace touched by one operation. `transaksi` and the other lists only hold the
+ * items that were added, changed or removed (entries from older versions hold whole lists, which apply
+ * the same way); everything but `transaksi` is present only when it changed.
+ */
+export interface WorkspaceChange {
+  transaksi: SalesData[];
+  stok_awal?: StockLevels;
+  katalog?: Product[];
+  riwayat_impor?: ImportBatch[];
+  /** Only the settings that changed. */
+  pengaturan?: Partial<AppSettings>;
+  preset_pemetaan?: ColumnMappingPreset[];
+  pelanggan?: Customer[];
+  faktur?: Invoice[];
+  biaya_operasional?: Expense[];
+}
+
+export interface AuditEntry {
+  id: string;
+  waktu: string;
+  pengguna: string;
+  aksi: AuditAction;
+  keterangan: string;
+  sebelum: WorkspaceChange;
+  sesudah: WorkspaceChange;
+}
+
+/** A complete, versioned copy of the workspace as written to a backup file. */
+export interface WorkspaceBackup {
+  format: string;
+  versi: number;
+  dibuat: string;
+  transaksi: SalesData[];
+  stok_awal: StockLevels;
+  katalog: Product[];
+  pengaturan: AppSettings;
+  preset_pemetaan: ColumnMappingPreset[];
+  riwayat_impor: ImportBatch[];
+  pelanggan: Customer[];
+  faktur: Invoice[];
+  biaya_operasional: Expense[];
+}